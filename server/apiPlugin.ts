@@ -1,4 +1,7 @@
 import type { Plugin } from 'vite';
+import { resolveSessionRoots } from './config';
+import { closeEventStreams } from './events';
+import { startSessionsWatcher, stopSessionsWatcher } from './indexing/watcher';
 import { handleApiRequest } from './routes';
 
 export const apiPlugin = (): Plugin => ({
@@ -11,5 +14,13 @@ export const apiPlugin = (): Plugin => ({
       const handled = await handleApiRequest(req, res);
       if (!handled) next();
     });
+
+    resolveSessionRoots()
+      .then((config) => startSessionsWatcher(config.roots))
+      .catch((error) => console.error('[watch] failed to start', error));
+    server.httpServer?.on('close', () => {
+      stopSessionsWatcher();
+      closeEventStreams();
+    });
   },
 });
@@ -0,0 +1,193 @@
+import type Database from 'better-sqlite3';
+import type { ArchivePurgeResponse } from '../shared/apiTypes';
+
+export type { ArchivePurgeResponse };
+
+type ArchivedSessionRow = {
+  id: string;
+  session_id: string | null;
+  timestamp: string | null;
+  cwd: string | null;
+  git_branch: string | null;
+  git_repo: string | null;
+  git_commit_hash: string | null;
+  model_provider: string | null;
+  input_tokens: number | null;
+  cached_input_tokens: number | null;
+  output_tokens: number | null;
+  reasoning_output_tokens: number | null;
+  total_tokens: number | null;
+  context_window: number | null;
+};
+
+type MessageRow = { turn_id: number | null; role: string; timestamp: string | null; content: string };
+
+type TurnRow = {
+  turn_id: number;
+  status: string;
+  abort_reason: string | null;
+  model: string | null;
+  reasoning_effort: string | null;
+  approval_policy: string | null;
+  sandbox_mode: string | null;
+};
+
+const ARCHIVED_SESSION_IDS = 'SELECT id FROM sessions WHERE archived_at IS NOT NULL';
+
+// Splits indexed tool content (`name: …`, `call_id: …`, then a multi-line `arguments:` / `output:` block).
+const parseToolContent = (content: string, blockKey: 'arguments' | 'output') => {
+  const fields: Record<string, string> = {};
+  const lines = content.split('\n');
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (line === `${blockKey}:`) {
+      fields[blockKey] = lines.slice(index + 1).join('\n');
+      break;
+    }
+    const separator = line.indexOf(': ');
+    if (separator > 0) fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+  return fields;
+};
+
+const withoutEmpty = (value: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== null && entry !== undefined));
+
+export const countArchivedSessions = (database: Database.Database) =>
+  (database.prepare('SELECT COUNT(*) AS count FROM sessions WHERE archived_at IS NOT NULL').get() as { count: number })
+    .count;
+
+// Drops every archived session with its messages, turns, tool calls, touched files and lineage link.
+export const purgeArchivedSessions = (database: Database.Database): ArchivePurgeResponse => {
+  const purge = database.transaction(() => {
+    for (const table of ['messages', 'turns', 'tool_calls', 'session_files', 'session_links']) {
+      database.prepare(`DELETE FROM ${table} WHERE session_id IN (${ARCHIVED_SESSION_IDS})`).run();
+    }
+    return database.prepare('DELETE FROM sessions WHERE archived_at IS NOT NULL').run().changes;
+  });
+  return { purged: purge() };
+};
+
+// Rebuilds a JSONL transcript of an archived session from its indexed rows, so the viewer can open it after the file
+// is gone. Only what the index keeps survives: messages, tool calls and outputs, turn settings, aborts and the final
+// token totals. Returns null when the session is not archived.
+export const buildArchivedSessionJsonl = (database: Database.Database, sessionPath: string) => {
+  const session = database
+    .prepare(
+      `
+        SELECT
+          id, session_id, timestamp, cwd, git_branch, git_repo, git_commit_hash, model_provider,
+          input_tokens, cached_input_tokens, output_tokens, reasoning_output_tokens, total_tokens, context_window
+        FROM sessions
+        WHERE id = ? AND archived_at IS NOT NULL
+      `,
+    )
+    .get(sessionPath) as ArchivedSessionRow | undefined;
+  if (!session) return null;
+  const link = database
+    .prepare('SELECT parent_session_id, kind FROM session_links WHERE session_id = ?')
+    .get(session.id) as { parent_session_id: string; kind: string } | undefined;
+  const messages = database
+    .prepare('SELECT turn_id, role, timestamp, content FROM messages WHERE session_id = ? ORDER BY id ASC')
+    .all(session.id) as MessageRow[];
+  const turns = new Map(
+    (
+      database
+        .prepare(
+          `
+            SELECT turn_id, status, abort_reason, model, reasoning_effort, approval_policy, sandbox_mode
+            FROM turns
+            WHERE session_id = ?
+          `,
+        )
+        .all(session.id) as TurnRow[]
+    ).map((turn) => [turn.turn_id, turn]),
+  );
+
+  const lines: unknown[] = [];
+  const eventMsg = (timestamp: string | null, payload: Record<string, unknown>) =>
+    lines.push(withoutEmpty({ timestamp, type: 'event_msg', payload }));
+  const responseItem = (timestamp: string | null, payload: Record<string, unknown>) =>
+    lines.push(withoutEmpty({ timestamp, type: 'response_item', payload: withoutEmpty(payload) }));
+  let lastTimestamp = session.timestamp;
+  const closeTurn = (turnId: number | null) => {
+    const turn = turnId === null ? undefined : turns.get(turnId);
+    if (turn?.status !== 'aborted') return;
+    eventMsg(lastTimestamp, withoutEmpty({ type: 'turn_aborted', reason: turn.abort_reason }));
+  };
+
+  lines.push({
+    timestamp: session.timestamp,
+    type: 'session_meta',
+    payload: withoutEmpty({
+      id: session.session_id,
+      timestamp: session.timestamp,
+      cwd: session.cwd,
+      model_provider: session.model_provider,
+      git: withoutEmpty({
+        branch: session.git_branch,
+        repository_url: session.git_repo,
+        commit_hash: session.git_commit_hash,
+      }),
+      resume_session_id: link?.kind === 'resume' ? link.parent_session_id : null,
+      forked_from_id: link?.kind === 'fork' ? link.parent_session_id : null,
+    }),
+  });
+
+  let currentTurn: number | null = null;
+  for (const message of messages) {
+    if (message.role === 'user') {
+      closeTurn(currentTurn);
+      currentTurn = message.turn_id;
+      eventMsg(message.timestamp, { type: 'user_message', message: message.content });
+      const turn = currentTurn === null ? undefined : turns.get(currentTurn);
+      if (turn && (turn.model || turn.reasoning_effort || turn.approval_policy || turn.sandbox_mode)) {
+        lines.push({
+          timestamp: message.timestamp,
+          type: 'turn_context',
+          payload: withoutEmpty({
+            cwd: session.cwd,
+            model: turn.model,
+            effort: turn.reasoning_effort,
+            approval_policy: turn.approval_policy,
+            sandbox_policy: turn.sandbox_mode ? { mode: turn.sandbox_mode } : null,
+          }),
+        });
+      }
+    } else if (message.role === 'assistant') {
+      eventMsg(message.timestamp, { type: 'agent_message', message: message.content });
+    } else if (message.role === 'thought') {
+      eventMsg(message.timestamp, { type: 'agent_reasoning', text: message.content });
+    } else if (message.role === 'tool_call') {
+      const fields = parseToolContent(message.content, 'arguments');
+      responseItem(message.timestamp, {
+        type: 'function_call',
+        name: fields.name ?? 'tool',
+        call_id: fields.call_id,
+        arguments: fields.arguments,
+      });
+    } else if (message.role === 'tool_output') {
+      const fields = parseToolContent(message.content, 'output');
+      responseItem(message.timestamp, { type: 'function_call_output', call_id: fields.call_id, output: fields.output });
+    }
+    lastTimestamp = message.timestamp ?? lastTimestamp;
+  }
+  closeTurn(currentTurn);
+
+  if (session.total_tokens !== null) {
+    eventMsg(lastTimestamp, {
+      type: 'token_count',
+      info: withoutEmpty({
+        total_token_usage: withoutEmpty({
+          input_tokens: session.input_tokens,
+          cached_input_tokens: session.cached_input_tokens,
+          output_tokens: session.output_tokens,
+          reasoning_output_tokens: session.reasoning_output_tokens,
+          total_tokens: session.total_tokens,
+        }),
+        model_context_window: session.context_window,
+      }),
+    });
+  }
+  return `${lines.map((line) => JSON.stringify(line)).join('\n')}\n`;
+};
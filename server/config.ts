@@ -1,19 +1,25 @@
 import fsp from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import type { ScanFilters, SessionRoot, SessionRootsConfig } from '../shared/apiTypes';
+import { splitSessionPath } from '../shared/sessionPaths';
 
 interface ConfigFile {
+  // Legacy single-root setting; read as the `local` root until `roots` is saved.
   sessionsRoot?: string;
+  roots?: SessionRoot[];
+  scanFilters?: Partial<ScanFilters>;
+  keepDeletedSessions?: boolean;
 }
 
-export type SessionsRootInfo = { value: string; source: 'env' | 'config' | 'default' };
-
 export const CONFIG_DIR = path.join(os.homedir(), '.codex-formatter');
 const CONFIG_PATH = path.join(CONFIG_DIR, 'config.json');
 const DEFAULT_SESSIONS_ROOT = path.join(os.homedir(), '.codex', 'sessions');
+const LEGACY_ROOT_ID = 'local';
+const LEGACY_ROOT_LABEL = 'Local';
 
 let cachedConfig: ConfigFile | null = null;
-let cachedRoot: SessionsRootInfo | null = null;
+let cachedRoots: SessionRootsConfig | null = null;
 
 const ensureDir = async (dir: string) => {
   await fsp.mkdir(dir, { recursive: true });
@@ -38,25 +44,102 @@ const writeConfigFile = async (config: ConfigFile) => {
   cachedConfig = config;
 };
 
-export const resolveSessionsRoot = async (): Promise<SessionsRootInfo> => {
+const singleRoot = (rootPath: string): SessionRoot[] => [
+  { id: LEGACY_ROOT_ID, label: LEGACY_ROOT_LABEL, path: rootPath, enabled: true },
+];
+
+export const slugifyRootLabel = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'root';
+
+// Keeps ids that are already valid and unique; derives the rest from labels so session paths stay stable across edits.
+export const assignRootIds = (roots: Array<Omit<SessionRoot, 'id'> & { id?: string }>): SessionRoot[] => {
+  const used = new Set<string>();
+  return roots.map((root) => {
+    let base = root.id ? slugifyRootLabel(root.id) : slugifyRootLabel(root.label);
+    if (root.id && base !== root.id) base = slugifyRootLabel(root.label);
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    used.add(id);
+    return { ...root, id };
+  });
+};
+
+export const resolveSessionRoots = async (): Promise<SessionRootsConfig> => {
   if (process.env.CODEX_SESSIONS_ROOT) {
-    cachedRoot = { value: process.env.CODEX_SESSIONS_ROOT, source: 'env' };
-    return cachedRoot;
+    cachedRoots = { roots: singleRoot(process.env.CODEX_SESSIONS_ROOT), source: 'env' };
+    return cachedRoots;
   }
-  if (cachedRoot) return cachedRoot;
+  if (cachedRoots) return cachedRoots;
   const config = await readConfigFile();
+  // Hand-edited entries may omit `id`/`label`/`enabled`; only `path` is required.
+  const configuredRoots = Array.isArray(config.roots)
+    ? config.roots
+        .filter((root) => typeof root?.path === 'string' && root.path)
+        .map((root) => ({
+          id: typeof root.id === 'string' ? root.id : undefined,
+          label: typeof root.label === 'string' && root.label.trim() ? root.label.trim() : path.basename(root.path),
+          path: root.path,
+          enabled: root.enabled !== false,
+        }))
+    : [];
+  if (configuredRoots.length) {
+    cachedRoots = { roots: assignRootIds(configuredRoots), source: 'config' };
+    return cachedRoots;
+  }
   if (config.sessionsRoot) {
-    cachedRoot = { value: config.sessionsRoot, source: 'config' };
-    return cachedRoot;
+    cachedRoots = { roots: singleRoot(config.sessionsRoot), source: 'config' };
+    return cachedRoots;
   }
-  cachedRoot = { value: DEFAULT_SESSIONS_ROOT, source: 'default' };
-  return cachedRoot;
+  cachedRoots = { roots: singleRoot(DEFAULT_SESSIONS_ROOT), source: 'default' };
+  return cachedRoots;
 };
 
-export const setSessionsRoot = async (root: string) => {
-  cachedRoot = { value: root, source: 'config' };
+export const getEnabledRoots = async () => (await resolveSessionRoots()).roots.filter((root) => root.enabled);
+
+export const setSessionRoots = async (roots: SessionRoot[]) => {
+  cachedRoots = { roots, source: 'config' };
+  const { sessionsRoot: _legacy, ...existing } = await readConfigFile();
+  await writeConfigFile({ ...existing, roots });
+};
+
+const toPatternList = (value: unknown) =>
+  Array.isArray(value)
+    ? value
+        .filter((pattern): pattern is string => typeof pattern === 'string')
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+    : [];
+
+// Drops blank patterns and non-positive sizes, so hand-edited config and request bodies normalize the same way.
+export const normalizeScanFilters = (value: unknown): ScanFilters => {
+  const raw = typeof value === 'object' && value ? (value as Record<string, unknown>) : {};
+  const maxFileSizeMb = typeof raw.maxFileSizeMb === 'number' ? raw.maxFileSizeMb : Number.NaN;
+  return {
+    include: toPatternList(raw.include),
+    exclude: toPatternList(raw.exclude),
+    maxFileSizeMb: Number.isFinite(maxFileSizeMb) && maxFileSizeMb > 0 ? maxFileSizeMb : null,
+  };
+};
+
+// Scan filters apply to every root and stay editable when CODEX_SESSIONS_ROOT pins the root.
+export const resolveScanFilters = async (): Promise<ScanFilters> =>
+  normalizeScanFilters((await readConfigFile()).scanFilters);
+
+export const setScanFilters = async (filters: ScanFilters) => {
+  const existing = await readConfigFile();
+  await writeConfigFile({ ...existing, scanFilters: filters });
+};
+
+export const resolveKeepDeletedSessions = async () => (await readConfigFile()).keepDeletedSessions === true;
+
+export const setKeepDeletedSessions = async (keepDeletedSessions: boolean) => {
   const existing = await readConfigFile();
-  await writeConfigFile({ ...existing, sessionsRoot: root });
+  await writeConfigFile({ ...existing, keepDeletedSessions });
 };
 
 export const ensureRootExists = async (root: string) => {
@@ -80,3 +163,18 @@ export const ensurePathSafe = (root: string, relativePath: string) => {
   }
   return resolvedPath;
 };
+
+// Maps a `<rootId>/<relPath>` session path to a file inside that (enabled) root, or null if it escapes it.
+export const resolveSessionFile = async (sessionPath: string) => {
+  const { rootId, relPath } = splitSessionPath(sessionPath);
+  if (!rootId) return null;
+  const root = (await getEnabledRoots()).find((candidate) => candidate.id === rootId);
+  if (!root) return null;
+  const absPath = ensurePathSafe(root.path, relPath);
+  return absPath ? { root, absPath } : null;
+};
+
+export const findExistingRoots = async (roots: SessionRoot[]) => {
+  const checks = await Promise.all(roots.map((root) => ensureRootExists(root.path)));
+  return roots.filter((_root, index) => checks[index]);
+};
@@ -0,0 +1,457 @@
+import type Database from 'better-sqlite3';
+import { logDebug } from '../logging';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (database: Database.Database) => void;
+  // Set when the migration changes data derived at parse time; existing files are re-parsed in the background.
+  reparseReason?: string;
+}
+
+const ensureColumns = (database: Database.Database, table: string, columns: Record<string, string>) => {
+  const rows = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  const existing = new Set(rows.map((row) => row.name));
+  const missing = Object.entries(columns).filter(([name]) => !existing.has(name));
+  if (!missing.length) return;
+  for (const [name, type] of missing) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+  }
+  logDebug(`db migrate ${table}`, { added: missing.map(([name]) => name) });
+};
+
+// Append-only: never edit a released migration, add a new one instead.
+// Early migrations use IF NOT EXISTS / ensureColumns so they also adopt DBs created before versioning.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          path TEXT UNIQUE NOT NULL,
+          session_id TEXT,
+          session_id_checked INTEGER,
+          timestamp TEXT,
+          cwd TEXT,
+          git_branch TEXT,
+          git_repo TEXT,
+          git_commit_hash TEXT,
+          first_user_message TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS files (
+          path TEXT PRIMARY KEY,
+          size INTEGER,
+          mtime INTEGER,
+          hash TEXT,
+          indexed_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          turn_id INTEGER,
+          role TEXT NOT NULL,
+          timestamp TEXT,
+          content TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+          content,
+          session_id UNINDEXED,
+          turn_id UNINDEXED,
+          role UNINDEXED,
+          tokenize = 'porter'
+        );
+        DROP TRIGGER IF EXISTS messages_ai;
+        DROP TRIGGER IF EXISTS messages_ad;
+        DROP TRIGGER IF EXISTS messages_au;
+
+        CREATE TRIGGER messages_ai AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts(rowid, content, session_id, turn_id, role)
+          VALUES (new.id, new.content, new.session_id, new.turn_id, new.role);
+        END;
+
+        CREATE TRIGGER messages_ad AFTER DELETE ON messages BEGIN
+          DELETE FROM messages_fts WHERE rowid = old.id;
+        END;
+
+        CREATE TRIGGER messages_au AFTER UPDATE ON messages BEGIN
+          DELETE FROM messages_fts WHERE rowid = old.id;
+          INSERT INTO messages_fts(rowid, content, session_id, turn_id, role)
+          VALUES (new.id, new.content, new.session_id, new.turn_id, new.role);
+        END;
+
+        CREATE INDEX IF NOT EXISTS idx_messages_session ON messages(session_id);
+        CREATE INDEX IF NOT EXISTS idx_messages_turn ON messages(session_id, turn_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_timestamp ON sessions(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_sessions_cwd ON sessions(cwd);
+        CREATE INDEX IF NOT EXISTS idx_sessions_session_id ON sessions(session_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'session metrics columns',
+    up: (database) => {
+      ensureColumns(database, 'sessions', {
+        started_at: 'TEXT',
+        ended_at: 'TEXT',
+        turn_count: 'INTEGER',
+        message_count: 'INTEGER',
+        thought_count: 'INTEGER',
+        tool_call_count: 'INTEGER',
+        meta_count: 'INTEGER',
+        token_count_count: 'INTEGER',
+        active_duration_ms: 'INTEGER',
+      });
+    },
+  },
+  {
+    version: 3,
+    name: 'append-only file state',
+    up: (database) => {
+      ensureColumns(database, 'files', {
+        indexed_offset: 'INTEGER',
+        line_count: 'INTEGER',
+        parser_state: 'TEXT',
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'multiple session roots',
+    up: (database) => {
+      ensureColumns(database, 'sessions', { root: 'TEXT' });
+      database.exec('CREATE INDEX IF NOT EXISTS idx_sessions_root ON sessions(root)');
+    },
+    reparseReason: 'Session paths are now prefixed with their root id.',
+  },
+  {
+    version: 5,
+    name: 'shared session parser',
+    // Data-only: turn ids, session metadata precedence and the stored parser state now come from shared/sessionParser.ts.
+    up: () => {},
+    reparseReason: 'Sessions are now parsed by the shared event parser.',
+  },
+  {
+    version: 6,
+    name: 'aborted turns',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS turns (
+          session_id TEXT NOT NULL,
+          turn_id INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          started_at TEXT,
+          abort_reason TEXT,
+          PRIMARY KEY (session_id, turn_id),
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+      `);
+      ensureColumns(database, 'sessions', { aborted_turn_count: 'INTEGER' });
+      database.exec('CREATE INDEX IF NOT EXISTS idx_sessions_aborted ON sessions(aborted_turn_count)');
+    },
+    reparseReason: 'Turn status (completed or aborted) is now indexed.',
+  },
+  {
+    version: 7,
+    name: 'tool calls',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS tool_calls (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          turn_id INTEGER,
+          call_id TEXT,
+          name TEXT NOT NULL,
+          arguments TEXT,
+          output TEXT,
+          output_bytes INTEGER,
+          called_at TEXT,
+          completed_at TEXT,
+          duration_ms INTEGER,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_tool_calls_session ON tool_calls(session_id);
+        CREATE INDEX IF NOT EXISTS idx_tool_calls_name ON tool_calls(name);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_calls_call_id ON tool_calls(session_id, call_id)
+          WHERE call_id IS NOT NULL;
+      `);
+    },
+    reparseReason: 'Tool calls are now indexed into their own table.',
+  },
+  {
+    version: 8,
+    name: 'shell command history',
+    up: (database) => {
+      ensureColumns(database, 'tool_calls', {
+        command: 'TEXT',
+        workdir: 'TEXT',
+        exit_code: 'INTEGER',
+        wall_time_ms: 'INTEGER',
+      });
+      database.exec(
+        'CREATE INDEX IF NOT EXISTS idx_tool_calls_commands ON tool_calls(session_id, id) WHERE command IS NOT NULL',
+      );
+    },
+    reparseReason: 'Shell commands and exit codes are now extracted from tool calls.',
+  },
+  {
+    version: 9,
+    name: 'files touched',
+    up: (database) => {
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS session_files (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          session_id TEXT NOT NULL,
+          turn_id INTEGER,
+          call_id TEXT,
+          path TEXT NOT NULL,
+          moved_from TEXT,
+          operation TEXT NOT NULL,
+          lines_added INTEGER,
+          lines_removed INTEGER,
+          changed_at TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_files_session ON session_files(session_id);
+        CREATE INDEX IF NOT EXISTS idx_session_files_path ON session_files(path);
+      `);
+    },
+    reparseReason: 'Files touched by patch and edit tool calls are now indexed.',
+  },
+  {
+    version: 10,
+    name: 'session token usage',
+    up: (database) => {
+      ensureColumns(database, 'sessions', {
+        input_tokens: 'INTEGER',
+        cached_input_tokens: 'INTEGER',
+        output_tokens: 'INTEGER',
+        reasoning_output_tokens: 'INTEGER',
+        total_tokens: 'INTEGER',
+        peak_context_percent: 'REAL',
+        context_window: 'INTEGER',
+      });
+      database.exec('CREATE INDEX IF NOT EXISTS idx_sessions_total_tokens ON sessions(total_tokens)');
+    },
+    reparseReason: 'Token usage totals are now indexed per session.',
+  },
+  {
+    version: 11,
+    name: 'turn settings',
+    up: (database) => {
+      const settingsColumns = {
+        reasoning_effort: 'TEXT',
+        approval_policy: 'TEXT',
+        sandbox_mode: 'TEXT',
+      };
+      ensureColumns(database, 'turns', { model: 'TEXT', ...settingsColumns });
+      ensureColumns(database, 'sessions', {
+        model_provider: 'TEXT',
+        first_model: 'TEXT',
+        last_model: 'TEXT',
+        ...settingsColumns,
+        settings_changed: 'INTEGER',
+      });
+      database.exec('CREATE INDEX IF NOT EXISTS idx_sessions_last_model ON sessions(last_model)');
+    },
+    reparseReason: 'Model, reasoning effort, approval policy and sandbox mode are now indexed from turn_context.',
+  },
+  {
+    version: 12,
+    name: 'session links',
+    up: (database) => {
+      // parent_session_id is a canonical session id, not a path: the parent may be indexed later or not at all.
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS session_links (
+          session_id TEXT PRIMARY KEY,
+          parent_session_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_session_links_parent ON session_links(parent_session_id);
+      `);
+    },
+    reparseReason: 'Resumed and forked sessions are now linked to their parent session.',
+  },
+  {
+    version: 13,
+    name: 'parse diagnostics',
+    up: (database) => {
+      ensureColumns(database, 'files', {
+        malformed_lines: 'INTEGER',
+        unknown_event_count: 'INTEGER',
+        unknown_event_types: 'TEXT',
+        parse_errors: 'TEXT',
+        index_error: 'TEXT',
+      });
+    },
+    reparseReason: 'Malformed lines and unknown event types are now recorded per file.',
+  },
+  {
+    version: 14,
+    name: 'event type catalogue',
+    up: (database) => {
+      // event_types keeps the first file and line a type was seen in; counts live per file so rewrites stay exact.
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS event_types (
+          type_key TEXT PRIMARY KEY,
+          known INTEGER NOT NULL,
+          first_seen_path TEXT,
+          first_seen_at TEXT,
+          sample_line TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS file_event_types (
+          path TEXT NOT NULL,
+          type_key TEXT NOT NULL,
+          count INTEGER NOT NULL,
+          PRIMARY KEY (path, type_key)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_file_event_types_type ON file_event_types(type_key);
+      `);
+    },
+    reparseReason: 'Every JSONL event type is now catalogued with counts and a sample line.',
+  },
+  {
+    version: 15,
+    name: 'archived sessions',
+    up: (database) => {
+      // Set when the session file disappeared but its rows were kept (see keepDeletedSessions in config.json).
+      ensureColumns(database, 'sessions', { archived_at: 'TEXT' });
+      database.exec('CREATE INDEX IF NOT EXISTS idx_sessions_archived ON sessions(archived_at)');
+    },
+  },
+  {
+    version: 16,
+    name: 'trigram message index',
+    up: (database) => {
+      // Substring index for literal search (`useEffect(`, `a.b`, paths, partial identifiers); the porter index only
+      // matches whole stemmed words. Filled from the existing rows, so no reparse is needed.
+      database.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_trigram USING fts5(
+          content,
+          session_id UNINDEXED,
+          turn_id UNINDEXED,
+          role UNINDEXED,
+          tokenize = 'trigram'
+        );
+        DROP TRIGGER IF EXISTS messages_trigram_ai;
+        DROP TRIGGER IF EXISTS messages_trigram_ad;
+        DROP TRIGGER IF EXISTS messages_trigram_au;
+
+        CREATE TRIGGER messages_trigram_ai AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_trigram(rowid, content, session_id, turn_id, role)
+          VALUES (new.id, new.content, new.session_id, new.turn_id, new.role);
+        END;
+
+        CREATE TRIGGER messages_trigram_ad AFTER DELETE ON messages BEGIN
+          DELETE FROM messages_trigram WHERE rowid = old.id;
+        END;
+
+        CREATE TRIGGER messages_trigram_au AFTER UPDATE ON messages BEGIN
+          DELETE FROM messages_trigram WHERE rowid = old.id;
+          INSERT INTO messages_trigram(rowid, content, session_id, turn_id, role)
+          VALUES (new.id, new.content, new.session_id, new.turn_id, new.role);
+        END;
+
+        DELETE FROM messages_trigram;
+        INSERT INTO messages_trigram(rowid, content, session_id, turn_id, role)
+        SELECT id, content, session_id, turn_id, role FROM messages;
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const ensureBookkeeping = (database: Database.Database) => {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS index_state (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+  `);
+};
+
+export const readSchemaVersion = (database: Database.Database) => {
+  const row = database.prepare('SELECT MAX(version) AS version FROM schema_version').get() as
+    | { version: number | null }
+    | undefined;
+  return row?.version ?? 0;
+};
+
+const writeSchemaVersion = (database: Database.Database, version: number) => {
+  database.prepare('DELETE FROM schema_version').run();
+  database.prepare('INSERT INTO schema_version (version) VALUES (?)').run(version);
+};
+
+export const readReparseReasons = (database: Database.Database): string[] => {
+  const row = database.prepare("SELECT value FROM index_state WHERE key = 'reparse_pending'").get() as
+    | { value: string | null }
+    | undefined;
+  if (!row?.value) return [];
+  try {
+    const parsed = JSON.parse(row.value);
+    return Array.isArray(parsed) ? parsed.filter((value): value is string => typeof value === 'string') : [];
+  } catch (_error) {
+    return [];
+  }
+};
+
+// Forgets per-file state so the next indexSessions pass fully re-parses every file.
+const requestReparse = (database: Database.Database, reasons: string[]) => {
+  const hasFiles = database.prepare('SELECT 1 FROM files LIMIT 1').get();
+  if (!hasFiles) return;
+  database.exec(`
+    UPDATE files
+    SET size = NULL, mtime = NULL, hash = NULL, indexed_offset = NULL, line_count = NULL, parser_state = NULL
+  `);
+  const merged = Array.from(new Set([...readReparseReasons(database), ...reasons]));
+  database
+    .prepare(
+      `
+        INSERT INTO index_state (key, value) VALUES ('reparse_pending', ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value
+      `,
+    )
+    .run(JSON.stringify(merged));
+};
+
+export const clearReparsePending = (database: Database.Database) => {
+  database.prepare("DELETE FROM index_state WHERE key = 'reparse_pending'").run();
+};
+
+export const runMigrations = (database: Database.Database) => {
+  ensureBookkeeping(database);
+  const current = readSchemaVersion(database);
+  const pending = MIGRATIONS.filter((migration) => migration.version > current);
+  if (!pending.length) return;
+  const reparseReasons: string[] = [];
+  for (const migration of pending) {
+    const apply = database.transaction(() => {
+      migration.up(database);
+      writeSchemaVersion(database, migration.version);
+    });
+    apply();
+    if (migration.reparseReason) reparseReasons.push(migration.reparseReason);
+    logDebug('db migration applied', { version: migration.version, name: migration.name });
+  }
+  if (reparseReasons.length) {
+    database.transaction(() => requestReparse(database, reparseReasons))();
+    logDebug('db reparse requested', { reasons: reparseReasons });
+  }
+};
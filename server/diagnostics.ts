@@ -0,0 +1,111 @@
+import type Database from 'better-sqlite3';
+import type {
+  EventTypeSummary,
+  EventTypesResponse,
+  FileDiagnostics,
+  IndexDiagnosticsResponse,
+} from '../shared/apiTypes';
+
+export type { EventTypeSummary, EventTypesResponse, FileDiagnostics, IndexDiagnosticsResponse };
+
+const parseJsonColumn = <T>(value: string | null, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch (_error) {
+    return fallback;
+  }
+};
+
+// Bytes past indexed_offset; compressed archives store their on-disk size there, so they never report a tail.
+const UNREAD_BYTES = 'MAX(COALESCE(files.size, 0) - COALESCE(files.indexed_offset, files.size, 0), 0)';
+
+const HAS_ISSUE = `(
+  files.index_error IS NOT NULL
+  OR COALESCE(files.malformed_lines, 0) > 0
+  OR COALESCE(files.unknown_event_count, 0) > 0
+  OR ${UNREAD_BYTES} > 0
+)`;
+
+// Per-file parse health recorded by the indexer: failed files, malformed lines, unknown event types, unread tails.
+export const getIndexDiagnostics = (
+  database: Database.Database,
+  options: { limit: number },
+): IndexDiagnosticsResponse => {
+  const totals = database
+    .prepare(
+      `
+        SELECT
+          COUNT(*) AS files_indexed,
+          COALESCE(SUM(${HAS_ISSUE}), 0) AS files_with_issues,
+          COALESCE(SUM(files.malformed_lines), 0) AS malformed_lines,
+          COALESCE(SUM(files.unknown_event_count), 0) AS unknown_events
+        FROM files
+      `,
+    )
+    .get() as IndexDiagnosticsResponse['totals'];
+  const rows = database
+    .prepare(
+      `
+        SELECT
+          files.path AS path,
+          files.size AS size,
+          files.indexed_at AS indexed_at,
+          COALESCE(files.malformed_lines, 0) AS malformed_lines,
+          COALESCE(files.unknown_event_count, 0) AS unknown_event_count,
+          files.unknown_event_types AS unknown_event_types,
+          files.parse_errors AS parse_errors,
+          ${UNREAD_BYTES} AS unread_bytes,
+          files.index_error AS index_error
+        FROM files
+        WHERE ${HAS_ISSUE}
+        ORDER BY
+          files.index_error IS NULL,
+          malformed_lines DESC,
+          unknown_event_count DESC,
+          unread_bytes DESC,
+          files.path ASC
+        LIMIT ?
+      `,
+    )
+    .all(options.limit + 1) as Array<
+    Omit<FileDiagnostics, 'unknown_event_types' | 'parse_errors'> & {
+      unknown_event_types: string | null;
+      parse_errors: string | null;
+    }
+  >;
+  const truncated = rows.length > options.limit;
+  const files = (truncated ? rows.slice(0, options.limit) : rows).map((row) => ({
+    ...row,
+    unknown_event_types: parseJsonColumn<Record<string, number>>(row.unknown_event_types, {}),
+    parse_errors: parseJsonColumn<string[]>(row.parse_errors, []),
+  }));
+  return { files, totals, truncated };
+};
+
+// Every event type combination seen in the indexed files; types no indexed file still contains are left out.
+export const getEventTypeCatalogue = (
+  database: Database.Database,
+  options: { unknownOnly: boolean },
+): EventTypesResponse => {
+  const rows = database
+    .prepare(
+      `
+        SELECT
+          event_types.type_key AS type_key,
+          event_types.known AS known,
+          SUM(file_event_types.count) AS event_count,
+          COUNT(file_event_types.path) AS file_count,
+          event_types.first_seen_path AS first_seen_path,
+          event_types.first_seen_at AS first_seen_at,
+          event_types.sample_line AS sample_line
+        FROM event_types
+        JOIN file_event_types ON file_event_types.type_key = event_types.type_key
+        ${options.unknownOnly ? 'WHERE event_types.known = 0' : ''}
+        GROUP BY event_types.type_key
+        ORDER BY event_types.known ASC, event_count DESC, event_types.type_key ASC
+      `,
+    )
+    .all() as Array<Omit<EventTypeSummary, 'known'> & { known: number }>;
+  return { event_types: rows.map((row) => ({ ...row, known: row.known === 1 })) };
+};
@@ -0,0 +1,70 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { logDebug } from './logging';
+
+const KEEPALIVE_INTERVAL_MS = 25_000;
+
+const clients = new Set<ServerResponse>();
+let keepaliveTimer: NodeJS.Timeout | null = null;
+
+const stopKeepalive = () => {
+  if (!keepaliveTimer) return;
+  clearInterval(keepaliveTimer);
+  keepaliveTimer = null;
+};
+
+const removeClient = (client: ServerResponse) => {
+  if (!clients.delete(client)) return;
+  logDebug('events: client disconnected', { clients: clients.size });
+  if (clients.size === 0) stopKeepalive();
+};
+
+const writeToClient = (client: ServerResponse, chunk: string) => {
+  try {
+    client.write(chunk);
+  } catch (error) {
+    logDebug('events: write failed, dropping client', error);
+    removeClient(client);
+  }
+};
+
+const startKeepalive = () => {
+  if (keepaliveTimer) return;
+  // Comment frames keep proxies and browsers from closing idle streams.
+  keepaliveTimer = setInterval(() => {
+    for (const client of clients) {
+      writeToClient(client, ': keepalive\n\n');
+    }
+  }, KEEPALIVE_INTERVAL_MS);
+  keepaliveTimer.unref();
+};
+
+export const openEventStream = (req: IncomingMessage, res: ServerResponse) => {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  res.write(': connected\n\n');
+  clients.add(res);
+  startKeepalive();
+  logDebug('events: client connected', { clients: clients.size });
+  const handleClose = () => removeClient(res);
+  req.on('close', handleClose);
+  res.on('close', handleClose);
+};
+
+export const broadcastEvent = (event: string, data: unknown) => {
+  if (clients.size === 0) return;
+  const chunk = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of clients) {
+    writeToClient(client, chunk);
+  }
+};
+
+export const closeEventStreams = () => {
+  for (const client of clients) {
+    client.end();
+  }
+  clients.clear();
+  stopKeepalive();
+};
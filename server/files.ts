@@ -0,0 +1,88 @@
+import type Database from 'better-sqlite3';
+import type { FileOperation, FilesResponse, FileTouchSession } from '../shared/apiTypes';
+
+export type { FilesResponse, FileTouchSession };
+
+export type FileHistoryOptions = {
+  // An absolute path, a path relative to the session cwd, or a trailing segment such as `src/index.ts`.
+  path: string;
+  limit: number;
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Sessions (newest first) whose patch/edit tool calls touched `path`, with the turns that did.
+export const getFileHistory = (database: Database.Database, options: FileHistoryOptions): FilesResponse => {
+  const target = options.path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+  const suffix = `%/${escapeLike(target)}`;
+  const rows = database
+    .prepare(
+      `
+        SELECT
+          session_files.session_id AS session_path,
+          sessions.session_id AS session_id,
+          sessions.cwd AS cwd,
+          sessions.first_user_message AS first_user_message,
+          COALESCE(sessions.started_at, sessions.timestamp) AS started_at,
+          session_files.turn_id AS turn_id,
+          session_files.path AS path,
+          session_files.moved_from AS moved_from,
+          session_files.operation AS operation,
+          session_files.lines_added AS lines_added,
+          session_files.lines_removed AS lines_removed,
+          session_files.changed_at AS changed_at
+        FROM session_files
+        JOIN sessions ON sessions.id = session_files.session_id
+        WHERE session_files.path = @target
+          OR session_files.moved_from = @target
+          OR session_files.path LIKE @suffix ESCAPE '\\'
+          OR session_files.moved_from LIKE @suffix ESCAPE '\\'
+          OR (
+            substr(session_files.path, 1, 1) != '/'
+            AND rtrim(sessions.cwd, '/') || '/' || session_files.path = @target
+          )
+        ORDER BY COALESCE(sessions.started_at, sessions.timestamp) DESC, session_files.session_id, session_files.id
+        LIMIT @limit
+      `,
+    )
+    .all({ target, suffix, limit: options.limit + 1 }) as Array<{
+    session_path: string;
+    session_id: string | null;
+    cwd: string | null;
+    first_user_message: string | null;
+    started_at: string | null;
+    turn_id: number | null;
+    path: string;
+    moved_from: string | null;
+    operation: FileOperation;
+    lines_added: number | null;
+    lines_removed: number | null;
+    changed_at: string | null;
+  }>;
+  const truncated = rows.length > options.limit;
+  const sessions = new Map<string, FileTouchSession>();
+  for (const row of truncated ? rows.slice(0, options.limit) : rows) {
+    let session = sessions.get(row.session_path);
+    if (!session) {
+      session = {
+        session_path: row.session_path,
+        session_id: row.session_id,
+        cwd: row.cwd,
+        first_user_message: row.first_user_message,
+        started_at: row.started_at,
+        turns: [],
+      };
+      sessions.set(row.session_path, session);
+    }
+    session.turns.push({
+      turn_id: row.turn_id,
+      path: row.path,
+      moved_from: row.moved_from,
+      operation: row.operation,
+      lines_added: row.lines_added,
+      lines_removed: row.lines_removed,
+      changed_at: row.changed_at,
+    });
+  }
+  return { path: target, sessions: Array.from(sessions.values()), truncated };
+};
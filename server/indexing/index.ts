@@ -1,18 +1,22 @@
+import { createHash } from 'node:crypto';
 import fs from 'node:fs';
 import fsp from 'node:fs/promises';
 import path from 'node:path';
-import readline from 'node:readline';
-import { createSessionMetrics } from '../../shared/sessionMetrics';
-import { getDb } from '../db';
+import type { IndexFileError, IndexProgress, IndexSummary, SessionRoot } from '../../shared/apiTypes';
+import { extractSessionIdFromPath } from '../../shared/sessionParser';
+import { isSessionFilename, joinSessionPath, splitSessionPath } from '../../shared/sessionPaths';
+import { ensureRootExists, resolveKeepDeletedSessions, resolveScanFilters } from '../config';
+import { getDb, markRebuildComplete } from '../db';
 import { logDebug } from '../logging';
+import { getSessionCompression } from '../sessionFiles';
 import type { FileEntry } from '../types';
+import { getParsePoolSize, parseSessionFile } from './parsePool';
+import { type ParsedSessionFile, type ParserState, readSessionIdFromFile } from './parser';
+import { createScanFilter } from './scanFilters';
 
 const toPosix = (value: string) => value.split(path.sep).join('/');
 
-const asRecord = (value: unknown): Record<string, unknown> =>
-  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
-
-const getString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+const roundRate = (value: number) => Math.round(value * 10) / 10;
 
 const parseTimestampFromFilename = (name: string) => {
   const match = name.match(/(\d{4}-\d{2}-\d{2}T\d{2}[-:]\d{2}[-:]\d{2})/);
@@ -20,356 +24,106 @@ const parseTimestampFromFilename = (name: string) => {
   return match[1].replace(/T(\d{2})-(\d{2})-(\d{2})/, 'T$1:$2:$3');
 };
 
-const formatJsonValue = (value: unknown) => {
-  if (value === undefined || value === null) return '';
-  if (typeof value === 'string') return value;
-  try {
-    return JSON.stringify(value, null, 2);
-  } catch (_error) {
-    return String(value);
-  }
-};
-
-const formatToolCall = (item: unknown) => {
-  const obj = asRecord(item);
-  const tool = asRecord(obj.tool);
-  const name = getString(obj.name) ?? getString(obj.tool_name) ?? getString(tool.name) ?? 'tool';
-  const args = obj.arguments ?? obj.args ?? obj.input ?? obj.parameters;
-  const parts = [`name: ${name}`];
-  const callId = getString(obj.call_id) ?? getString(obj.id) ?? getString(obj.callId);
-  if (callId) {
-    parts.push(`call_id: ${callId}`);
-  }
-  const argText = formatJsonValue(args);
-  if (argText) {
-    parts.push(`arguments:\n${argText}`);
-  }
-  return parts.join('\n');
-};
-
-const formatToolOutput = (item: unknown) => {
-  const obj = asRecord(item);
-  const output = obj.output ?? obj.result ?? obj.content ?? obj.text ?? obj.value;
-  const parts = [] as string[];
-  const callId = getString(obj.call_id) ?? getString(obj.id) ?? getString(obj.callId);
-  if (callId) {
-    parts.push(`call_id: ${callId}`);
-  }
-  const outputText = formatJsonValue(output);
-  if (outputText) {
-    parts.push(`output:\n${outputText}`);
-  }
-  return parts.join('\n');
-};
-
-const SESSION_ID_REGEX = /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/;
-const SESSION_ID_PREFIX_REGEX = /\b(?:sess(?:ion)?[_-])[a-zA-Z0-9_-]{6,}\b/;
-
-const normalizeSessionId = (value: string) => {
-  const trimmed = value.trim();
-  const uuidMatch = trimmed.match(SESSION_ID_REGEX);
-  if (uuidMatch) return uuidMatch[0];
-  const prefixMatch = trimmed.match(SESSION_ID_PREFIX_REGEX);
-  if (prefixMatch) return prefixMatch[0];
-  return trimmed;
-};
-
-const extractSessionIdFromPath = (value?: string | null) => {
-  if (!value) return null;
-  const normalized = value.replace(/\\/g, '/');
-  const filename = normalized.split('/').pop() || normalized;
-  const withoutExt = filename.replace(/\.jsonl$/i, '');
-  const match = withoutExt.match(SESSION_ID_REGEX);
-  if (match) return match[0];
-  const prefixMatch = withoutExt.match(SESSION_ID_PREFIX_REGEX);
-  if (prefixMatch) return prefixMatch[0];
-  return null;
-};
-
-const normalizeCwd = (value?: string | null) => {
-  if (!value) return undefined;
-  const trimmed = value.trim();
-  if (!trimmed) return undefined;
-  try {
-    const normalized = path.normalize(trimmed);
-    return path.isAbsolute(normalized) ? path.resolve(normalized) : normalized;
-  } catch (_error) {
-    return trimmed;
-  }
-};
-
-const extractSessionIdFromObject = (value: unknown, depth = 0): string | null => {
-  if (!value || typeof value !== 'object' || depth > 2) return null;
-  const obj = value as Record<string, unknown>;
-  const direct =
-    obj.session_id ??
-    obj.sessionId ??
-    obj.conversation_id ??
-    obj.conversationId ??
-    obj.resume_session_id ??
-    obj.resumeSessionId ??
-    obj.id;
-  if (typeof direct === 'string' && direct.trim()) return normalizeSessionId(direct);
-  if (typeof obj.session === 'string' && obj.session.trim()) return normalizeSessionId(obj.session);
-  if (obj.session && typeof obj.session === 'object') {
-    const nestedId = (obj.session as Record<string, unknown>).id;
-    if (typeof nestedId === 'string' && nestedId.trim()) return normalizeSessionId(nestedId);
-    const nested = extractSessionIdFromObject(obj.session, depth + 1);
-    if (nested) return nested;
-  }
-  const containers = [obj.session_info, obj.sessionInfo, obj.metadata, obj.context, obj.payload];
-  for (const container of containers) {
-    const nested = extractSessionIdFromObject(container, depth + 1);
-    if (nested) return nested;
-  }
-  return null;
-};
-
-const parseJsonlFile = async (filePath: string) => {
-  const messages: Array<{
-    turnId: number;
-    role: string;
-    timestamp?: string;
-    content: string;
-  }> = [];
-  const metrics = createSessionMetrics();
-  let sessionMeta: {
-    cwd?: string;
-    git_branch?: string;
-    git_repo?: string;
-    git_commit_hash?: string;
-    timestamp?: string;
-    session_id?: string;
-  } = {};
-  let currentTurn = 0;
-  let sessionIdRank = 0;
-  let sessionMetaSeen = false;
-  let malformedLines = 0;
-
-  const updateSessionId = (value: unknown, rank: number) => {
-    const extracted = extractSessionIdFromObject(value);
-    if (extracted && rank > sessionIdRank) {
-      sessionMeta.session_id = extracted;
-      sessionIdRank = rank;
-    }
-  };
-
-  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
-  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
-
-  for await (const line of rl) {
-    if (!line.trim()) continue;
-    try {
-      const entry = JSON.parse(line);
-      metrics.recordTimestamp(entry.timestamp);
-      if (entry.type === 'session_meta') {
-        metrics.recordMeta(entry.timestamp);
-        const payload = entry.payload ?? entry;
-        const gitPayload = payload?.git ?? {};
-        // Branch ancestry can append older session_meta entries; keep the first (newest) metadata canonical.
-        const nextCwd = sessionMetaSeen ? (sessionMeta.cwd ?? payload?.cwd) : (payload?.cwd ?? sessionMeta.cwd);
-        sessionMeta = {
-          cwd: nextCwd ? normalizeCwd(nextCwd) : sessionMeta.cwd,
-          git_branch: sessionMetaSeen
-            ? (sessionMeta.git_branch ?? payload?.git_branch ?? payload?.gitBranch ?? gitPayload?.branch)
-            : (payload?.git_branch ?? payload?.gitBranch ?? gitPayload?.branch ?? sessionMeta.git_branch),
-          git_repo: sessionMetaSeen
-            ? (sessionMeta.git_repo ??
-              payload?.git_repo ??
-              payload?.gitRepo ??
-              gitPayload?.repository_url ??
-              gitPayload?.repositoryUrl)
-            : (payload?.git_repo ??
-              payload?.gitRepo ??
-              gitPayload?.repository_url ??
-              gitPayload?.repositoryUrl ??
-              sessionMeta.git_repo),
-          git_commit_hash: sessionMetaSeen
-            ? (sessionMeta.git_commit_hash ??
-              payload?.git_commit_hash ??
-              payload?.gitCommitHash ??
-              gitPayload?.commit_hash ??
-              gitPayload?.commitHash)
-            : (payload?.git_commit_hash ??
-              payload?.gitCommitHash ??
-              gitPayload?.commit_hash ??
-              gitPayload?.commitHash ??
-              sessionMeta.git_commit_hash),
-          timestamp: sessionMetaSeen
-            ? (sessionMeta.timestamp ?? payload?.timestamp ?? entry.timestamp)
-            : (payload?.timestamp ?? entry.timestamp ?? sessionMeta.timestamp),
-          session_id: sessionMeta.session_id,
-        };
-        updateSessionId(payload, 2);
-        sessionMetaSeen = true;
-        continue;
-      }
-
-      if (entry.type === 'turn_context') {
-        metrics.recordMeta(entry.timestamp);
-        const payload = entry.payload ?? entry;
-        updateSessionId(payload, 1);
-        continue;
-      }
-
-      if (entry.type === 'event_msg') {
-        const payload = entry.payload ?? {};
-        if (payload.type === 'user_message') {
-          currentTurn += 1;
-          const content = String(payload.message ?? '');
-          metrics.recordUserMessage(entry.timestamp, content);
-          messages.push({
-            turnId: currentTurn,
-            role: 'user',
-            timestamp: entry.timestamp,
-            content,
-          });
-        } else if (payload.type === 'agent_message') {
-          metrics.recordAssistantMessage(entry.timestamp);
-          const content = String(payload.message ?? '');
-          messages.push({
-            turnId: currentTurn,
-            role: 'assistant',
-            timestamp: entry.timestamp,
-            content,
-          });
-        } else if (payload.type === 'agent_reasoning' && payload.text) {
-          metrics.recordThought(entry.timestamp);
-          messages.push({
-            turnId: currentTurn,
-            role: 'thought',
-            timestamp: entry.timestamp,
-            content: String(payload.text),
-          });
-        } else if (payload.type === 'token_count') {
-          metrics.recordTokenCount(entry.timestamp);
-        } else if (payload.type === 'turn_aborted') {
-          continue;
-        }
-        continue;
-      }
-
-      const isResponseItem = entry.type === 'response_item';
-      const item = isResponseItem ? (entry.item ?? entry.response_item ?? entry.payload ?? {}) : entry;
-      const itemType = isResponseItem ? item.type : entry.type;
-
-      if (['function_call', 'custom_tool_call', 'web_search_call'].includes(itemType)) {
-        metrics.recordToolCall(entry.timestamp);
-        messages.push({
-          turnId: currentTurn,
-          role: 'tool_call',
-          timestamp: entry.timestamp,
-          content: formatToolCall(item),
-        });
-        continue;
-      }
-
-      if (['function_call_output', 'custom_tool_call_output', 'web_search_call_output'].includes(itemType)) {
-        metrics.recordToolOutput(entry.timestamp);
-        messages.push({
-          turnId: currentTurn,
-          role: 'tool_output',
-          timestamp: entry.timestamp,
-          content: formatToolOutput(item),
-        });
-      }
-    } catch (error) {
-      if (malformedLines < 3) {
-        logDebug('parseJsonlFile: malformed line', { filePath, error });
-      } else if (malformedLines === 3) {
-        logDebug('parseJsonlFile: further malformed lines suppressed', { filePath });
+// Hashes bytes [0, length); `checkpoint` also captures the digest of the shorter prefix [0, checkpoint) in the same pass.
+const hashFilePrefix = async (filePath: string, length: number, checkpoint?: number) => {
+  const hash = createHash('sha256');
+  let checkpointHash: string | null = checkpoint === 0 ? hash.copy().digest('hex') : null;
+  if (length > 0) {
+    // Always the raw on-disk bytes, so compressed archives are hashed as stored.
+    const stream = fs.createReadStream(filePath, { start: 0, end: length - 1 });
+    let position = 0;
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      if (checkpoint !== undefined && checkpointHash === null && position + chunk.length >= checkpoint) {
+        const head = checkpoint - position;
+        hash.update(chunk.subarray(0, head));
+        checkpointHash = hash.copy().digest('hex');
+        hash.update(chunk.subarray(head));
+      } else {
+        hash.update(chunk);
       }
-      malformedLines += 1;
+      position += chunk.length;
     }
   }
-
-  const { firstUserMessage, ...metricValues } = metrics.finalize();
-
-  return {
-    messages,
-    firstUserMessage: firstUserMessage || '',
-    sessionMeta,
-    metrics: metricValues,
-  };
+  return { hash: hash.digest('hex'), checkpointHash };
 };
 
-const readSessionIdFromFile = async (filePath: string) => {
-  let sessionId: string | null = null;
-  let sessionIdRank = 0;
-  let malformedLines = 0;
-
-  const updateSessionId = (value: unknown, rank: number) => {
-    const extracted = extractSessionIdFromObject(value);
-    if (extracted && rank > sessionIdRank) {
-      sessionId = extracted;
-      sessionIdRank = rank;
-    }
-  };
-
-  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
-  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
-
+const parseParserState = (value?: string | null): ParserState | null => {
+  if (!value) return null;
   try {
-    for await (const line of rl) {
-      if (!line.trim()) continue;
-      try {
-        const entry = JSON.parse(line);
-        if (entry.type === 'session_meta') {
-          const payload = entry.payload ?? entry;
-          updateSessionId(payload, 2);
-          if (sessionId && sessionIdRank >= 2) break;
-          continue;
-        }
-        if (entry.type === 'turn_context') {
-          const payload = entry.payload ?? entry;
-          updateSessionId(payload, 1);
-        }
-      } catch (error) {
-        if (malformedLines < 3) {
-          logDebug('readSessionIdFromFile: malformed line', { filePath, error });
-        } else if (malformedLines === 3) {
-          logDebug('readSessionIdFromFile: further malformed lines suppressed', { filePath });
-        }
-        malformedLines += 1;
-      }
-    }
-  } finally {
-    rl.close();
-    stream.destroy();
+    return JSON.parse(value) as ParserState;
+  } catch (_error) {
+    return null;
   }
-
-  return sessionId;
 };
 
-const scanSessionFiles = async (root: string): Promise<FileEntry[]> => {
+// `isExcluded` gets the path relative to the root; excluded files come back as session paths only.
+const scanSessionFiles = async (
+  root: SessionRoot,
+  isExcluded: (relPath: string, size: number) => boolean,
+): Promise<{ entries: FileEntry[]; excluded: string[] }> => {
   const entries: FileEntry[] = [];
+  const excluded: string[] = [];
   const walk = async (dir: string) => {
     const dirents = await fsp.readdir(dir, { withFileTypes: true });
     for (const dirent of dirents) {
       const fullPath = path.join(dir, dirent.name);
       if (dirent.isDirectory()) {
         await walk(fullPath);
-      } else if (dirent.isFile() && dirent.name.endsWith('.jsonl')) {
+      } else if (dirent.isFile() && isSessionFilename(dirent.name)) {
         const stat = await fsp.stat(fullPath);
-        const relPath = toPosix(path.relative(root, fullPath));
-        entries.push({ absPath: fullPath, relPath, size: stat.size, mtimeMs: stat.mtimeMs });
+        const rootRelPath = toPosix(path.relative(root.path, fullPath));
+        const relPath = joinSessionPath(root.id, rootRelPath);
+        if (isExcluded(rootRelPath, stat.size)) {
+          excluded.push(relPath);
+          continue;
+        }
+        entries.push({ absPath: fullPath, relPath, root: root.id, size: stat.size, mtimeMs: stat.mtimeMs });
       }
     }
   };
-  await walk(root);
-  return entries;
+  await walk(root.path);
+  return { entries, excluded };
 };
 
-export const indexSessions = async (root: string) => {
+export interface IndexSessionsOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: Omit<IndexProgress, 'errors'>) => void;
+  onFileError?: (error: IndexFileError) => void;
+}
+
+// Stops between files when `signal` aborts; each file commits in its own transaction, so a cancelled pass leaves a consistent index.
+// Rows for files outside `roots` (removed or disabled roots) are dropped, so pass every enabled root.
+export const indexSessions = async (
+  roots: SessionRoot[],
+  options: IndexSessionsOptions = {},
+): Promise<IndexSummary> => {
   const startedAt = Date.now();
   const database = getDb();
-  const files = await scanSessionFiles(root);
+  const files: FileEntry[] = [];
+  const missingRoots = new Set<string>();
+  // Previously indexed files that the filters now exclude are not scanned, so the removal pass below drops them.
+  const isExcluded = createScanFilter(await resolveScanFilters());
+  const excludedPaths = new Set<string>();
+  const keepDeletedSessions = await resolveKeepDeletedSessions();
+  for (const root of roots) {
+    if (!(await ensureRootExists(root.path))) {
+      missingRoots.add(root.id);
+      continue;
+    }
+    const scan = await scanSessionFiles(root, isExcluded);
+    files.push(...scan.entries);
+    for (const excludedPath of scan.excluded) excludedPaths.add(excludedPath);
+  }
   const existingFiles = database
     .prepare(
       `
         SELECT files.path AS path,
           files.size AS size,
           files.mtime AS mtime,
+          files.hash AS hash,
+          files.indexed_offset AS indexed_offset,
+          files.line_count AS line_count,
+          files.parser_state AS parser_state,
           sessions.session_id AS session_id,
           sessions.session_id_checked AS session_id_checked,
           sessions.id IS NOT NULL AS has_session
@@ -381,6 +135,10 @@ export const indexSessions = async (root: string) => {
     path: string;
     size: number;
     mtime: number;
+    hash?: string | null;
+    indexed_offset?: number | null;
+    line_count?: number | null;
+    parser_state?: string | null;
     session_id?: string | null;
     session_id_checked?: number | null;
     has_session?: number | null;
@@ -392,6 +150,7 @@ export const indexSessions = async (root: string) => {
     INSERT INTO sessions (
       id,
       path,
+      root,
       session_id,
       session_id_checked,
       timestamp,
@@ -408,11 +167,27 @@ export const indexSessions = async (root: string) => {
       tool_call_count,
       meta_count,
       token_count_count,
-      active_duration_ms
+      aborted_turn_count,
+      active_duration_ms,
+      input_tokens,
+      cached_input_tokens,
+      output_tokens,
+      reasoning_output_tokens,
+      total_tokens,
+      peak_context_percent,
+      context_window,
+      model_provider,
+      first_model,
+      last_model,
+      reasoning_effort,
+      approval_policy,
+      sandbox_mode,
+      settings_changed
     )
     VALUES (
       @id,
       @path,
+      @root,
       @session_id,
       @session_id_checked,
       @timestamp,
@@ -429,9 +204,25 @@ export const indexSessions = async (root: string) => {
       @tool_call_count,
       @meta_count,
       @token_count_count,
-      @active_duration_ms
+      @aborted_turn_count,
+      @active_duration_ms,
+      @input_tokens,
+      @cached_input_tokens,
+      @output_tokens,
+      @reasoning_output_tokens,
+      @total_tokens,
+      @peak_context_percent,
+      @context_window,
+      @model_provider,
+      @first_model,
+      @last_model,
+      @reasoning_effort,
+      @approval_policy,
+      @sandbox_mode,
+      @settings_changed
     )
     ON CONFLICT(id) DO UPDATE SET
+      root = excluded.root,
       session_id = excluded.session_id,
       session_id_checked = excluded.session_id_checked,
       timestamp = excluded.timestamp,
@@ -448,44 +239,150 @@ export const indexSessions = async (root: string) => {
       tool_call_count = excluded.tool_call_count,
       meta_count = excluded.meta_count,
       token_count_count = excluded.token_count_count,
-      active_duration_ms = excluded.active_duration_ms
+      aborted_turn_count = excluded.aborted_turn_count,
+      active_duration_ms = excluded.active_duration_ms,
+      input_tokens = excluded.input_tokens,
+      cached_input_tokens = excluded.cached_input_tokens,
+      output_tokens = excluded.output_tokens,
+      reasoning_output_tokens = excluded.reasoning_output_tokens,
+      total_tokens = excluded.total_tokens,
+      peak_context_percent = excluded.peak_context_percent,
+      context_window = excluded.context_window,
+      model_provider = excluded.model_provider,
+      first_model = excluded.first_model,
+      last_model = excluded.last_model,
+      reasoning_effort = excluded.reasoning_effort,
+      approval_policy = excluded.approval_policy,
+      sandbox_mode = excluded.sandbox_mode,
+      settings_changed = excluded.settings_changed,
+      archived_at = NULL
   `);
   const insertFile = database.prepare(`
-    INSERT INTO files (path, size, mtime, hash, indexed_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO files (
+      path, size, mtime, hash, indexed_at, indexed_offset, line_count, parser_state,
+      malformed_lines, unknown_event_count, unknown_event_types, parse_errors, index_error
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
     ON CONFLICT(path) DO UPDATE SET
       size = excluded.size,
       mtime = excluded.mtime,
       hash = excluded.hash,
-      indexed_at = excluded.indexed_at
+      indexed_at = excluded.indexed_at,
+      indexed_offset = excluded.indexed_offset,
+      line_count = excluded.line_count,
+      parser_state = excluded.parser_state,
+      malformed_lines = excluded.malformed_lines,
+      unknown_event_count = excluded.unknown_event_count,
+      unknown_event_types = excluded.unknown_event_types,
+      parse_errors = excluded.parse_errors,
+      index_error = NULL
+  `);
+  // Leaves size/mtime/hash alone (or NULL for a new row), so the file is retried on the next run.
+  const recordFileError = database.prepare(`
+    INSERT INTO files (path, indexed_at, index_error) VALUES (?, ?, ?)
+    ON CONFLICT(path) DO UPDATE SET indexed_at = excluded.indexed_at, index_error = excluded.index_error
   `);
   const deleteMessages = database.prepare('DELETE FROM messages WHERE session_id = ?');
+  const deleteTurns = database.prepare('DELETE FROM turns WHERE session_id = ?');
+  const deleteToolCalls = database.prepare('DELETE FROM tool_calls WHERE session_id = ?');
+  const deleteSessionFiles = database.prepare('DELETE FROM session_files WHERE session_id = ?');
+  const deleteSessionLink = database.prepare('DELETE FROM session_links WHERE session_id = ?');
   const deleteSession = database.prepare('DELETE FROM sessions WHERE id = ?');
   const deleteFile = database.prepare('DELETE FROM files WHERE path = ?');
+  const archiveSession = database.prepare('UPDATE sessions SET archived_at = ? WHERE id = ?');
+  const touchFile = database.prepare('UPDATE files SET size = ?, mtime = ?, indexed_at = ? WHERE path = ?');
   const insertMessage = database.prepare(
     'INSERT INTO messages (session_id, turn_id, role, timestamp, content) VALUES (?, ?, ?, ?, ?)',
   );
+  // Upsert: an append pass can turn a turn indexed earlier as completed into an aborted one.
+  const upsertTurn = database.prepare(`
+    INSERT INTO turns (
+      session_id, turn_id, status, started_at, abort_reason, model, reasoning_effort, approval_policy, sandbox_mode
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(session_id, turn_id) DO UPDATE SET
+      status = excluded.status,
+      started_at = COALESCE(excluded.started_at, turns.started_at),
+      abort_reason = excluded.abort_reason,
+      model = COALESCE(excluded.model, turns.model),
+      reasoning_effort = COALESCE(excluded.reasoning_effort, turns.reasoning_effort),
+      approval_policy = COALESCE(excluded.approval_policy, turns.approval_policy),
+      sandbox_mode = COALESCE(excluded.sandbox_mode, turns.sandbox_mode)
+  `);
+  // OR IGNORE: a repeated call_id within a session keeps the first call.
+  const insertToolCall = database.prepare(`
+    INSERT OR IGNORE INTO tool_calls (session_id, turn_id, call_id, name, arguments, called_at, command, workdir)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const completeToolCall = database.prepare(`
+    UPDATE tool_calls
+    SET
+      output = @output,
+      output_bytes = @output_bytes,
+      completed_at = @completed_at,
+      duration_ms = CASE
+        WHEN called_at IS NOT NULL AND @completed_at IS NOT NULL
+          THEN CAST(ROUND((julianday(@completed_at) - julianday(called_at)) * 86400000) AS INTEGER)
+      END,
+      exit_code = CASE WHEN command IS NOT NULL THEN @exit_code END,
+      wall_time_ms = CASE WHEN command IS NOT NULL THEN @wall_time_ms END
+    WHERE session_id = @session_id AND call_id = @call_id
+  `);
+  const insertSessionFile = database.prepare(`
+    INSERT INTO session_files (
+      session_id, turn_id, call_id, path, moved_from, operation, lines_added, lines_removed, changed_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const upsertSessionLink = database.prepare(`
+    INSERT INTO session_links (session_id, parent_session_id, kind)
+    VALUES (?, ?, ?)
+    ON CONFLICT(session_id) DO UPDATE SET
+      parent_session_id = excluded.parent_session_id,
+      kind = excluded.kind
+  `);
+  const deleteFileEventTypes = database.prepare('DELETE FROM file_event_types WHERE path = ?');
+  const insertFileEventType = database.prepare('INSERT INTO file_event_types (path, type_key, count) VALUES (?, ?, ?)');
+  // The first file and sample line stick; `known` follows the parser, so a type handled in a later release flips.
+  const upsertEventType = database.prepare(`
+    INSERT INTO event_types (type_key, known, first_seen_path, first_seen_at, sample_line)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(type_key) DO UPDATE SET known = excluded.known
+  `);
   const updateSessionId = database.prepare('UPDATE sessions SET session_id = ?, session_id_checked = 1 WHERE id = ?');
   const markSessionChecked = database.prepare('UPDATE sessions SET session_id_checked = 1 WHERE id = ?');
 
   let scanned = 0;
   let updated = 0;
+  let appended = 0;
+  let rewritten = 0;
+  let unchanged = 0;
   let removed = 0;
+  let archived = 0;
   let messageCount = 0;
   let skipped = 0;
   let metadataChecked = 0;
+  let failed = 0;
+  let parsedBytes = 0;
+  const parseWorkers = getParsePoolSize();
 
   const indexTransaction = database.transaction(
-    (file: FileEntry, parsed: Awaited<ReturnType<typeof parseJsonlFile>>) => {
-      try {
-        deleteMessages.run(file.relPath);
-      } catch (error) {
-        console.error('[reindex] deleteMessages failed', file.relPath, error);
-        throw error;
+    (file: FileEntry, parsed: ParsedSessionFile, hash: string, mode: 'replace' | 'append') => {
+      if (mode === 'replace') {
+        try {
+          deleteMessages.run(file.relPath);
+          deleteTurns.run(file.relPath);
+          deleteToolCalls.run(file.relPath);
+          deleteSessionFiles.run(file.relPath);
+          deleteSessionLink.run(file.relPath);
+        } catch (error) {
+          console.error('[reindex] deleteMessages failed', file.relPath, error);
+          throw error;
+        }
       }
 
+      const fileSessionId = extractSessionIdFromPath(file.relPath);
       try {
-        const fileSessionId = extractSessionIdFromPath(file.relPath);
         // Filename session ID is authoritative; session_meta is only a fallback when filename lacks an ID.
         if (fileSessionId && parsed.sessionMeta.session_id && fileSessionId !== parsed.sessionMeta.session_id) {
           logDebug('session:id:mismatch', {
@@ -497,6 +394,7 @@ export const indexSessions = async (root: string) => {
         insertSession.run({
           id: file.relPath,
           path: file.relPath,
+          root: file.root,
           session_id: fileSessionId ?? parsed.sessionMeta.session_id ?? null,
           session_id_checked: 1,
           timestamp: parsed.sessionMeta.timestamp ?? null,
@@ -513,13 +411,39 @@ export const indexSessions = async (root: string) => {
           tool_call_count: parsed.metrics.toolCallCount ?? null,
           meta_count: parsed.metrics.metaCount ?? null,
           token_count_count: parsed.metrics.tokenCountCount ?? null,
+          aborted_turn_count: parsed.metrics.abortedTurnCount ?? 0,
           active_duration_ms: parsed.metrics.activeDurationMs ?? null,
+          input_tokens: parsed.metrics.tokenUsage.inputTokens,
+          cached_input_tokens: parsed.metrics.tokenUsage.cachedInputTokens,
+          output_tokens: parsed.metrics.tokenUsage.outputTokens,
+          reasoning_output_tokens: parsed.metrics.tokenUsage.reasoningOutputTokens,
+          total_tokens: parsed.metrics.tokenUsage.totalTokens,
+          peak_context_percent: parsed.metrics.tokenUsage.peakContextPercent,
+          context_window: parsed.metrics.tokenUsage.contextWindow,
+          model_provider: parsed.settings.provider ?? null,
+          first_model: parsed.settings.first?.model ?? null,
+          last_model: parsed.settings.last?.model ?? null,
+          reasoning_effort: parsed.settings.last?.reasoningEffort ?? null,
+          approval_policy: parsed.settings.last?.approvalPolicy ?? null,
+          sandbox_mode: parsed.settings.last?.sandboxMode ?? null,
+          settings_changed: parsed.settings.changed ? 1 : 0,
         });
       } catch (error) {
         console.error('[reindex] insertSession failed', file.relPath, error);
         throw error;
       }
 
+      // A session_meta that names the session itself (e.g. a resume that keeps writing the same file) is no link.
+      const parentLink = parsed.parentLink;
+      if (parentLink && parentLink.parentSessionId !== fileSessionId) {
+        try {
+          upsertSessionLink.run(file.relPath, parentLink.parentSessionId, parentLink.kind);
+        } catch (error) {
+          console.error('[reindex] upsertSessionLink failed', { file: file.relPath, parentLink, error });
+          throw error;
+        }
+      }
+
       for (const [index, message] of parsed.messages.entries()) {
         try {
           insertMessage.run(file.relPath, message.turnId, message.role, message.timestamp ?? null, message.content);
@@ -537,22 +461,127 @@ export const indexSessions = async (root: string) => {
         }
       }
 
+      for (const turn of parsed.turns) {
+        try {
+          upsertTurn.run(
+            file.relPath,
+            turn.turnId,
+            turn.status,
+            turn.startedAt ?? null,
+            turn.abortReason ?? null,
+            turn.model ?? null,
+            turn.reasoningEffort ?? null,
+            turn.approvalPolicy ?? null,
+            turn.sandboxMode ?? null,
+          );
+        } catch (error) {
+          console.error('[reindex] upsertTurn failed', { file: file.relPath, turnId: turn.turnId, error });
+          throw error;
+        }
+      }
+
+      for (const call of parsed.toolCalls) {
+        try {
+          insertToolCall.run(
+            file.relPath,
+            call.turnId,
+            call.callId ?? null,
+            call.name,
+            call.arguments,
+            call.calledAt ?? null,
+            call.command ?? null,
+            call.workdir ?? null,
+          );
+        } catch (error) {
+          console.error('[reindex] insertToolCall failed', { file: file.relPath, callId: call.callId, error });
+          throw error;
+        }
+      }
+
+      for (const output of parsed.toolOutputs) {
+        try {
+          completeToolCall.run({
+            session_id: file.relPath,
+            call_id: output.callId,
+            output: output.output,
+            output_bytes: Buffer.byteLength(output.output),
+            completed_at: output.completedAt ?? null,
+            exit_code: output.exitCode ?? null,
+            wall_time_ms: output.wallTimeMs ?? null,
+          });
+        } catch (error) {
+          console.error('[reindex] completeToolCall failed', { file: file.relPath, callId: output.callId, error });
+          throw error;
+        }
+      }
+
+      for (const change of parsed.fileChanges) {
+        try {
+          insertSessionFile.run(
+            file.relPath,
+            change.turnId,
+            change.callId ?? null,
+            change.path,
+            change.movedFrom ?? null,
+            change.operation,
+            change.linesAdded,
+            change.linesRemoved,
+            change.changedAt ?? null,
+          );
+        } catch (error) {
+          console.error('[reindex] insertSessionFile failed', { file: file.relPath, path: change.path, error });
+          throw error;
+        }
+      }
+
       try {
-        insertFile.run(file.relPath, file.size, Math.floor(file.mtimeMs), null, new Date().toISOString());
+        const unknownEventTypes = parsed.state.unknownEventTypes ?? {};
+        const unknownEventCount = Object.values(unknownEventTypes).reduce((sum, count) => sum + count, 0);
+        insertFile.run(
+          file.relPath,
+          file.size,
+          Math.floor(file.mtimeMs),
+          hash,
+          new Date().toISOString(),
+          parsed.offset,
+          parsed.lineCount,
+          JSON.stringify(parsed.state),
+          parsed.state.malformedLines,
+          unknownEventCount,
+          unknownEventCount ? JSON.stringify(unknownEventTypes) : null,
+          parsed.state.parseErrors?.length ? JSON.stringify(parsed.state.parseErrors) : null,
+        );
       } catch (error) {
         console.error('[reindex] insertFile failed', file.relPath, error);
         throw error;
       }
+
+      // parser_state carries cumulative counts, so both modes rewrite the file's rows from it.
+      try {
+        const unknownEventTypes = parsed.state.unknownEventTypes ?? {};
+        const indexedAt = new Date().toISOString();
+        deleteFileEventTypes.run(file.relPath);
+        for (const [typeKey, count] of Object.entries(parsed.state.eventTypes ?? {})) {
+          insertFileEventType.run(file.relPath, typeKey, count);
+          const sample = parsed.eventTypeSamples[typeKey];
+          if (sample !== undefined) {
+            upsertEventType.run(typeKey, typeKey in unknownEventTypes ? 0 : 1, file.relPath, indexedAt, sample);
+          }
+        }
+      } catch (error) {
+        console.error('[reindex] event type catalogue failed', file.relPath, error);
+        throw error;
+      }
     },
   );
 
-  for (const file of files) {
-    scanned += 1;
+  const indexFile = async (file: FileEntry) => {
     const existing = existingMap.get(file.relPath);
     const sameFile = existing && existing.size === file.size && existing.mtime === Math.floor(file.mtimeMs);
     if (sameFile && existing?.has_session && existing.session_id_checked) {
       skipped += 1;
-      continue;
+      unchanged += 1;
+      return;
     }
     if (sameFile && existing?.has_session && !existing.session_id_checked) {
       metadataChecked += 1;
@@ -563,31 +592,170 @@ export const indexSessions = async (root: string) => {
       } else {
         markSessionChecked.run(file.relPath);
       }
-      continue;
+      return;
+    }
+    if (getSessionCompression(file.absPath)) {
+      // Archives are rewritten rather than appended to: compare the whole compressed file, then re-parse it in full.
+      const { hash } = await hashFilePrefix(file.absPath, file.size);
+      if (existing?.has_session && existing.hash === hash) {
+        unchanged += 1;
+        touchFile.run(file.size, Math.floor(file.mtimeMs), new Date().toISOString(), file.relPath);
+        return;
+      }
+      updated += 1;
+      if (existing?.hash) rewritten += 1;
+      const parsed = await parseSessionFile(file.absPath);
+      parsedBytes += file.size;
+      parsed.sessionMeta.timestamp =
+        parsed.sessionMeta.timestamp ?? parseTimestampFromFilename(path.basename(file.relPath)) ?? undefined;
+      // parsed.offset counts decompressed bytes; store the on-disk size so files.hash still covers [0, indexed_offset).
+      indexTransaction(file, { ...parsed, offset: file.size }, hash, 'replace');
+      return;
+    }
+    // files.hash covers bytes [0, indexed_offset); re-hashing that prefix tells an append apart from a rewrite.
+    const previousState = existing?.has_session ? parseParserState(existing.parser_state) : null;
+    const previousOffset = existing?.indexed_offset ?? null;
+    const previousHash = existing?.hash ?? null;
+    let currentHash: string | null = null;
+    let prefixMatches = false;
+    if (previousState && previousHash && previousOffset !== null && previousOffset > 0 && file.size >= previousOffset) {
+      const hashed = await hashFilePrefix(file.absPath, file.size, previousOffset);
+      currentHash = hashed.hash;
+      prefixMatches = hashed.checkpointHash === previousHash;
+    }
+    if (prefixMatches && file.size === previousOffset) {
+      unchanged += 1;
+      touchFile.run(file.size, Math.floor(file.mtimeMs), new Date().toISOString(), file.relPath);
+      return;
     }
     updated += 1;
-
-    const parsed = await parseJsonlFile(file.absPath);
+    if (previousHash && !prefixMatches) rewritten += 1;
+
+    // Codex only ever appends; when the verified prefix ended on a clean line boundary, parse just the new tail.
+    const canAppend = prefixMatches && previousState !== null && !previousState.partialTail;
+    const parsed = canAppend
+      ? await parseSessionFile(file.absPath, {
+          startOffset: previousOffset ?? 0,
+          endOffset: file.size,
+          lineCount: existing?.line_count ?? 0,
+          state: previousState,
+        })
+      : await parseSessionFile(file.absPath, { endOffset: file.size });
+    parsedBytes += canAppend ? file.size - (previousOffset ?? 0) : file.size;
     const filename = path.basename(file.relPath);
     parsed.sessionMeta.timestamp = parsed.sessionMeta.timestamp ?? parseTimestampFromFilename(filename) ?? undefined;
+    const indexedHash =
+      currentHash !== null && parsed.offset === file.size
+        ? currentHash
+        : (await hashFilePrefix(file.absPath, parsed.offset)).hash;
 
-    indexTransaction(file, parsed);
-  }
+    if (canAppend) appended += 1;
+    indexTransaction(file, parsed, indexedHash, canAppend ? 'append' : 'replace');
+  };
 
+  const reportProgress = (currentFile: string | null) => {
+    options.onProgress?.({
+      filesScanned: scanned,
+      filesTotal: files.length,
+      currentFile,
+      messagesInserted: messageCount,
+    });
+  };
+
+  // One lane per parse worker keeps every worker busy; SQLite writes stay on this thread and never interleave.
+  let nextFile = 0;
+  const runLane = async () => {
+    while (nextFile < files.length && !options.signal?.aborted) {
+      const file = files[nextFile];
+      nextFile += 1;
+      scanned += 1;
+      reportProgress(file.relPath);
+      try {
+        await indexFile(file);
+      } catch (error) {
+        // One unreadable or vanished file should not sink the whole pass; its files row is left for the next run.
+        failed += 1;
+        console.error('[reindex] file failed', file.relPath, error);
+        const message = error instanceof Error ? error.message : String(error);
+        try {
+          recordFileError.run(file.relPath, new Date().toISOString(), message);
+        } catch (recordError) {
+          console.error('[reindex] recordFileError failed', file.relPath, recordError);
+        }
+        options.onFileError?.({ path: file.relPath, message });
+      }
+    }
+  };
+  const lanes = Math.min(Math.max(parseWorkers, 1), files.length);
+  await Promise.all(Array.from({ length: lanes }, runLane));
+  const cancelled = options.signal?.aborted ?? false;
+  reportProgress(null);
+
+  const deleteSessionRows = (sessionPath: string) => {
+    deleteMessages.run(sessionPath);
+    deleteTurns.run(sessionPath);
+    deleteToolCalls.run(sessionPath);
+    deleteSessionFiles.run(sessionPath);
+    deleteSessionLink.run(sessionPath);
+    deleteSession.run(sessionPath);
+  };
+  const indexedRoots = new Set(roots.map((root) => root.id));
+  const archivedAt = new Date().toISOString();
   for (const existing of existingFiles) {
+    // An unmounted or not-yet-synced root should not wipe its sessions; only disabling or removing it does.
+    const rootId = splitSessionPath(existing.path).rootId;
+    if (rootId && missingRoots.has(rootId)) continue;
     if (!currentPaths.has(existing.path)) {
       removed += 1;
-      deleteMessages.run(existing.path);
-      deleteSession.run(existing.path);
+      deleteFileEventTypes.run(existing.path);
       deleteFile.run(existing.path);
+      // Only a file deleted from a root that is still indexed is archived; excluded files and dropped roots go for good.
+      const deletedFromDisk = rootId && indexedRoots.has(rootId) && !excludedPaths.has(existing.path);
+      if (keepDeletedSessions && existing.has_session && deletedFromDisk) {
+        archived += 1;
+        archiveSession.run(archivedAt, existing.path);
+        continue;
+      }
+      deleteSessionRows(existing.path);
     }
   }
-
-  const summary = { scanned, updated, removed, messageCount, skipped, metadataChecked };
-  logDebug('index complete', {
-    root,
+  // Archived sessions have no files row, so a removed or disabled root's archive is dropped here.
+  const archivedSessions = database
+    .prepare('SELECT id, root FROM sessions WHERE archived_at IS NOT NULL')
+    .all() as Array<{ id: string; root: string | null }>;
+  for (const session of archivedSessions) {
+    if (!session.root || indexedRoots.has(session.root) || missingRoots.has(session.root)) continue;
+    removed += 1;
+    deleteSessionRows(session.id);
+  }
+  // Every file was re-parsed, so any re-parse requested by a schema migration is now done. A failed file or a missing
+  // root (none of its files were read) leaves the flag for a later pass.
+  if (!cancelled && failed === 0 && missingRoots.size === 0) markRebuildComplete();
+
+  const durationMs = Date.now() - startedAt;
+  const seconds = Math.max(durationMs, 1) / 1000;
+  const summary: IndexSummary = {
+    scanned,
+    updated,
+    appended,
+    rewritten,
+    unchanged,
+    removed,
+    archived,
+    excluded: excludedPaths.size,
+    messageCount,
+    skipped,
+    metadataChecked,
+    failed,
+    durationMs,
+    parseWorkers,
+    parsedBytes,
+    filesPerSecond: roundRate(updated / seconds),
+    megabytesPerSecond: roundRate(parsedBytes / (1024 * 1024) / seconds),
+  };
+  logDebug(cancelled ? 'index cancelled' : 'index complete', {
+    roots: roots.map((root) => root.id),
     ...summary,
-    durationMs: Date.now() - startedAt,
   });
   return summary;
 };
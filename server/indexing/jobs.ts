@@ -0,0 +1,100 @@
+import { randomUUID } from 'node:crypto';
+import type { IndexJob, IndexJobKind, IndexJobStatus, SessionRoot } from '../../shared/apiTypes';
+import { logDebug } from '../logging';
+import { runIndex } from './watcher';
+
+// Finished jobs are kept in memory so a client polling after completion still sees the final state.
+const MAX_FINISHED_JOBS = 20;
+// Errors beyond this are still counted in `summary.failed`, just not listed.
+const MAX_JOB_ERRORS = 50;
+
+interface JobRecord {
+  job: IndexJob;
+  controller: AbortController;
+}
+
+const jobs = new Map<string, JobRecord>();
+
+const isFinished = (status: IndexJobStatus) => status === 'done' || status === 'cancelled' || status === 'error';
+
+const pruneFinishedJobs = () => {
+  const finished = Array.from(jobs.values()).filter((record) => isFinished(record.job.status));
+  const excess = finished.length - MAX_FINISHED_JOBS;
+  // Map iteration follows insertion order, so the oldest jobs go first.
+  for (const record of finished.slice(0, Math.max(excess, 0))) {
+    jobs.delete(record.job.id);
+  }
+};
+
+const finishJob = (record: JobRecord, status: IndexJobStatus, error: string | null = null) => {
+  record.job.status = status;
+  record.job.error = error;
+  record.job.finishedAt = new Date().toISOString();
+  record.job.progress.currentFile = null;
+  logDebug('index job finished', { id: record.job.id, status, error });
+  pruneFinishedJobs();
+};
+
+export const startIndexJob = (roots: SessionRoot[], kind: IndexJobKind) => {
+  const controller = new AbortController();
+  const job: IndexJob = {
+    id: randomUUID(),
+    kind,
+    status: 'queued',
+    roots: roots.map((root) => root.id),
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    progress: { filesScanned: 0, filesTotal: null, currentFile: null, messagesInserted: 0, errors: [] },
+    summary: null,
+    error: null,
+  };
+  const record: JobRecord = { job, controller };
+  jobs.set(job.id, record);
+  logDebug('index job queued', { id: job.id, kind, roots: job.roots });
+
+  runIndex(roots, {
+    reset: kind === 'clear-index',
+    signal: controller.signal,
+    onStart: () => {
+      if (controller.signal.aborted) return;
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+    },
+    onProgress: (progress) => {
+      Object.assign(job.progress, progress);
+    },
+    onFileError: (error) => {
+      if (job.progress.errors.length < MAX_JOB_ERRORS) job.progress.errors.push(error);
+    },
+  })
+    .then((summary) => {
+      if (isFinished(job.status)) return;
+      job.summary = summary;
+      finishJob(record, controller.signal.aborted ? 'cancelled' : 'done');
+    })
+    .catch((error: unknown) => {
+      if (isFinished(job.status)) return;
+      console.error('[index job] failed', job.id, error);
+      finishJob(record, 'error', error instanceof Error ? error.message : 'Index job failed.');
+    });
+
+  return job;
+};
+
+export const getIndexJob = (id: string) => jobs.get(id)?.job ?? null;
+
+export const getActiveIndexJob = () =>
+  Array.from(jobs.values()).find((record) => !isFinished(record.job.status))?.job ?? null;
+
+export const cancelIndexJob = (id: string) => {
+  const record = jobs.get(id);
+  if (!record) return null;
+  if (!isFinished(record.job.status) && !record.controller.signal.aborted) {
+    record.controller.abort();
+    logDebug('index job cancel requested', { id });
+    // A queued job never touched the index, so it can be reported as cancelled right away.
+    if (record.job.status === 'queued') finishJob(record, 'cancelled');
+  }
+  return record.job;
+};
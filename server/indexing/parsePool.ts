@@ -0,0 +1,137 @@
+import os from 'node:os';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { logDebug } from '../logging';
+import { type ParsedSessionFile, type ParseJsonlOptions, parseJsonlFile } from './parser';
+
+export interface ParseRequest {
+  id: number;
+  filePath: string;
+  options: ParseJsonlOptions;
+}
+
+export type ParseResponse = { id: number; parsed: ParsedSessionFile } | { id: number; error: string };
+
+interface ParseTask {
+  request: ParseRequest;
+  resolve: (parsed: ParsedSessionFile) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ParseTask | null;
+}
+
+const WORKER_ENTRY = fileURLToPath(new URL('./parseWorker.ts', import.meta.url));
+const IDLE_SHUTDOWN_MS = 30_000;
+
+const workers: PoolWorker[] = [];
+const queue: ParseTask[] = [];
+let nextTaskId = 1;
+let idleTimer: NodeJS.Timeout | null = null;
+let workerSource: Promise<string | null> | null = null;
+
+// CODEX_PARSE_WORKERS overrides the CPU count; 0 parses on the main thread.
+export const getParsePoolSize = () => {
+  const configured = Number.parseInt(process.env.CODEX_PARSE_WORKERS ?? '', 10);
+  if (Number.isInteger(configured) && configured >= 0) return configured;
+  return os.availableParallelism();
+};
+
+// Server code runs from Vite's bundled config, not from files a worker could import,
+// so the worker entry is bundled once with esbuild and started as an eval worker.
+const loadWorkerSource = () => {
+  workerSource ??= (async () => {
+    try {
+      const { build } = await import('esbuild');
+      const result = await build({
+        entryPoints: [WORKER_ENTRY],
+        bundle: true,
+        platform: 'node',
+        format: 'cjs',
+        target: 'node20',
+        write: false,
+        logLevel: 'silent',
+      });
+      return result.outputFiles[0].text;
+    } catch (error) {
+      console.error('[parse-pool] failed to bundle worker, parsing on the main thread', error);
+      return null;
+    }
+  })();
+  return workerSource;
+};
+
+const shutdownIdleWorkers = () => {
+  idleTimer = null;
+  if (queue.length || workers.some((entry) => entry.task)) return;
+  logDebug('parse pool idle shutdown', { workers: workers.length });
+  for (const entry of workers.splice(0)) {
+    void entry.worker.terminate();
+  }
+};
+
+const dispatch = () => {
+  for (const entry of workers) {
+    if (entry.task) continue;
+    const task = queue.shift();
+    if (!task) break;
+    entry.task = task;
+    entry.worker.postMessage(task.request);
+  }
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  if (!queue.length && !workers.some((entry) => entry.task)) {
+    idleTimer = setTimeout(shutdownIdleWorkers, IDLE_SHUTDOWN_MS);
+    idleTimer.unref();
+  }
+};
+
+const removeWorker = (entry: PoolWorker, error: Error) => {
+  workers.splice(workers.indexOf(entry), 1);
+  entry.task?.reject(error);
+  entry.task = null;
+};
+
+const spawnWorker = (source: string) => {
+  const entry: PoolWorker = { worker: new Worker(source, { eval: true }), task: null };
+  entry.worker.unref();
+  entry.worker.on('message', (response: ParseResponse) => {
+    const task = entry.task;
+    entry.task = null;
+    if (task && task.request.id === response.id) {
+      if ('error' in response) task.reject(new Error(response.error));
+      else task.resolve(response.parsed);
+    }
+    dispatch();
+  });
+  entry.worker.on('error', (error) => {
+    console.error('[parse-pool] worker crashed', error);
+    entry.task?.reject(error);
+    entry.task = null;
+  });
+  entry.worker.on('exit', (code) => {
+    if (!workers.includes(entry)) return;
+    removeWorker(entry, new Error(`Parse worker exited with code ${code}.`));
+    // Replace a crashed worker so queued files are not stranded.
+    if (queue.length) {
+      spawnWorker(source);
+      dispatch();
+    }
+  });
+  workers.push(entry);
+};
+
+// Parses off the main thread so the dev server stays responsive; callers run up to getParsePoolSize() at once.
+export const parseSessionFile = async (filePath: string, options: ParseJsonlOptions = {}) => {
+  const size = getParsePoolSize();
+  if (size === 0) return parseJsonlFile(filePath, options);
+  const source = await loadWorkerSource();
+  if (!source) return parseJsonlFile(filePath, options);
+  while (workers.length < size) spawnWorker(source);
+  return new Promise<ParsedSessionFile>((resolve, reject) => {
+    queue.push({ request: { id: nextTaskId++, filePath, options }, resolve, reject });
+    dispatch();
+  });
+};
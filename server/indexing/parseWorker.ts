@@ -0,0 +1,14 @@
+import { parentPort } from 'node:worker_threads';
+import type { ParseRequest, ParseResponse } from './parsePool';
+import { parseJsonlFile } from './parser';
+
+// Entry point for parse pool workers; bundled by parsePool.ts, never imported by the server itself.
+parentPort?.on('message', async (request: ParseRequest) => {
+  let response: ParseResponse;
+  try {
+    response = { id: request.id, parsed: await parseJsonlFile(request.filePath, request.options) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
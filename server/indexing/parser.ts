@@ -0,0 +1,327 @@
+import path from 'node:path';
+import readline from 'node:readline';
+import { extractFileChanges, type FileChange } from '../../shared/fileChanges';
+import {
+  createSessionParser,
+  extractSessionIdFromObject,
+  getEventTypeKey,
+  type SessionEvent,
+  type SessionParserState,
+  type TurnSettings,
+} from '../../shared/sessionParser';
+import { logDebug } from '../logging';
+import { openSessionStream } from '../sessionFiles';
+import { extractShellCommand, extractShellResult } from './shellCommands';
+
+const normalizeCwd = (value?: string | null) => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  try {
+    const normalized = path.normalize(trimmed);
+    return path.isAbsolute(normalized) ? path.resolve(normalized) : normalized;
+  } catch (_error) {
+    return trimmed;
+  }
+};
+
+// Everything parseJsonlFile needs to resume at a byte offset; persisted as JSON in files.parser_state.
+export type ParserState = SessionParserState & {
+  malformedLines: number;
+  // Lines with an event type the parser does not recognise, keyed by getEventTypeKey.
+  unknownEventTypes?: Record<string, number>;
+  // Every parsed line, keyed by getEventTypeKey (recognised types included).
+  eventTypes?: Record<string, number>;
+  // The first MAX_PARSE_ERROR_SAMPLES malformed-line messages (`Line N: ...`).
+  parseErrors?: string[];
+  // True when the last consumed line had no trailing newline, so appends may have extended it.
+  partialTail: boolean;
+};
+
+const MAX_PARSE_ERROR_SAMPLES = 5;
+// Sample lines kept for the event type catalogue are cut to this many characters.
+const MAX_EVENT_SAMPLE_CHARS = 2000;
+
+export type ParseJsonlOptions = {
+  startOffset?: number;
+  endOffset?: number;
+  lineCount?: number;
+  state?: ParserState | null;
+};
+
+const MESSAGE_ROLES: Partial<Record<SessionEvent['type'], string>> = {
+  user_message: 'user',
+  assistant_message: 'assistant',
+  thought: 'thought',
+  tool_call: 'tool_call',
+  tool_output: 'tool_output',
+};
+
+export type TurnStatus = 'completed' | 'aborted';
+
+export type ParsedTurn = TurnSettings & {
+  turnId: number;
+  status: TurnStatus;
+  startedAt?: string;
+  abortReason?: string;
+};
+
+export type ParsedToolCall = {
+  turnId: number;
+  name: string;
+  callId?: string;
+  // JSON text; arguments that are not valid JSON are stored as a JSON string.
+  arguments: string | null;
+  calledAt?: string;
+  // Set for shell-style calls (see shellCommands.ts).
+  command?: string;
+  workdir?: string;
+};
+
+export type ParsedToolOutput = {
+  callId: string;
+  output: string;
+  completedAt?: string;
+  // Only stored when the paired call is a shell command.
+  exitCode?: number;
+  wallTimeMs?: number;
+};
+
+export type ParsedFileChange = FileChange & {
+  turnId: number;
+  callId?: string;
+  changedAt?: string;
+};
+
+const toArgumentsJson = (value: unknown) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') {
+    try {
+      JSON.parse(value);
+      return value;
+    } catch (_error) {
+      return JSON.stringify(value);
+    }
+  }
+  try {
+    return JSON.stringify(value);
+  } catch (_error) {
+    return JSON.stringify(String(value));
+  }
+};
+
+type JsonlLine = {
+  text: string;
+  endOffset: number;
+  terminated: boolean;
+};
+
+async function* readJsonlLines(filePath: string, startOffset: number, endOffset?: number): AsyncGenerator<JsonlLine> {
+  if (endOffset !== undefined && endOffset <= startOffset) return;
+  const stream = openSessionStream(filePath, {
+    start: startOffset,
+    end: endOffset !== undefined ? endOffset - 1 : undefined,
+  });
+  let pending: Buffer = Buffer.alloc(0);
+  let offset = startOffset;
+  try {
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      let buffer = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+      let newlineIndex = buffer.indexOf(0x0a);
+      while (newlineIndex !== -1) {
+        offset += newlineIndex + 1;
+        yield {
+          text: buffer.subarray(0, newlineIndex).toString('utf-8').replace(/\r$/, ''),
+          endOffset: offset,
+          terminated: true,
+        };
+        buffer = buffer.subarray(newlineIndex + 1);
+        newlineIndex = buffer.indexOf(0x0a);
+      }
+      pending = buffer;
+    }
+  } finally {
+    stream.destroy();
+  }
+  if (pending.length) {
+    yield { text: pending.toString('utf-8'), endOffset: offset + pending.length, terminated: false };
+  }
+}
+
+export const parseJsonlFile = async (filePath: string, options: ParseJsonlOptions = {}) => {
+  const { startOffset = 0, endOffset, state } = options;
+  const messages: Array<{
+    turnId: number;
+    role: string;
+    timestamp?: string;
+    content: string;
+  }> = [];
+  // Keyed by turn id; an append pass may only see the abort of a turn started in an earlier pass.
+  const turns = new Map<number, ParsedTurn>();
+  const toolCalls: ParsedToolCall[] = [];
+  // Paired with their call by call_id when stored, so an output can match a call indexed in an earlier pass.
+  const toolOutputs: ParsedToolOutput[] = [];
+  const fileChanges: ParsedFileChange[] = [];
+  const parser = createSessionParser({ initialState: state });
+  let malformedLines = state?.malformedLines ?? 0;
+  const unknownEventTypes: Record<string, number> = { ...state?.unknownEventTypes };
+  const eventTypes: Record<string, number> = { ...state?.eventTypes };
+  // First line of each type this file had not shown before (earlier passes already reported theirs).
+  const eventTypeSamples: Record<string, string> = {};
+  const parseErrors = [...(state?.parseErrors ?? [])];
+  let partialTail = false;
+  let offset = startOffset;
+  let lineCount = options.lineCount ?? 0;
+
+  for await (const { text: line, endOffset: lineEnd, terminated } of readJsonlLines(filePath, startOffset, endOffset)) {
+    if (!terminated) {
+      // An unterminated tail is usually a line Codex is still writing; leave it for the next pass unless it parses.
+      try {
+        JSON.parse(line);
+      } catch (_error) {
+        break;
+      }
+      partialTail = true;
+    }
+    offset = lineEnd;
+    lineCount += 1;
+    try {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line);
+      const event = parser.parseEntry(entry);
+      const typeKey = getEventTypeKey(entry);
+      if (!eventTypes[typeKey]) eventTypeSamples[typeKey] = line.slice(0, MAX_EVENT_SAMPLE_CHARS);
+      eventTypes[typeKey] = (eventTypes[typeKey] ?? 0) + 1;
+      if (event?.type === 'user_message') {
+        // A turn starts with the settings in effect; a turn_context inside the turn overrides them below.
+        turns.set(event.turnId, {
+          ...parser.getSettings().last,
+          turnId: event.turnId,
+          status: 'completed',
+          startedAt: event.timestamp,
+        });
+      } else if (event?.type === 'meta' && event.settings && event.turnId > 0) {
+        const turn = turns.get(event.turnId) ?? { turnId: event.turnId, status: 'completed' };
+        turns.set(event.turnId, { ...turn, ...event.settings });
+      } else if (event?.type === 'turn_aborted' && event.turnId > 0) {
+        const turn = turns.get(event.turnId) ?? { turnId: event.turnId, status: 'completed' };
+        turns.set(event.turnId, { ...turn, status: 'aborted', abortReason: event.reason });
+      } else if (event?.type === 'tool_call') {
+        const shell = extractShellCommand(event.name, event.arguments);
+        toolCalls.push({
+          turnId: event.turnId,
+          name: event.name,
+          callId: event.callId,
+          arguments: toArgumentsJson(event.arguments),
+          calledAt: event.timestamp,
+          command: shell?.command,
+          workdir: shell?.workdir,
+        });
+        for (const change of extractFileChanges(event.name, event.arguments)) {
+          fileChanges.push({ ...change, turnId: event.turnId, callId: event.callId, changedAt: event.timestamp });
+        }
+      } else if (event?.type === 'unknown') {
+        unknownEventTypes[event.eventType] = (unknownEventTypes[event.eventType] ?? 0) + 1;
+      } else if (event?.type === 'tool_output' && event.callId) {
+        toolOutputs.push({
+          callId: event.callId,
+          output: event.output,
+          completedAt: event.timestamp,
+          ...extractShellResult(event.output),
+        });
+      }
+      const role = event && MESSAGE_ROLES[event.type];
+      if (!event || !role || !('content' in event)) continue;
+      messages.push({ turnId: event.turnId, role, timestamp: event.timestamp, content: event.content });
+    } catch (error) {
+      if (parseErrors.length < MAX_PARSE_ERROR_SAMPLES) {
+        parseErrors.push(`Line ${lineCount}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (malformedLines < 3) {
+        logDebug('parseJsonlFile: malformed line', { filePath, error });
+      } else if (malformedLines === 3) {
+        logDebug('parseJsonlFile: further malformed lines suppressed', { filePath });
+      }
+      malformedLines += 1;
+    }
+  }
+
+  const nextState: ParserState = {
+    ...parser.snapshot(),
+    malformedLines,
+    unknownEventTypes,
+    eventTypes,
+    parseErrors,
+    partialTail,
+  };
+  const sessionMeta = parser.getSessionMeta();
+  sessionMeta.cwd = normalizeCwd(sessionMeta.cwd);
+  const { firstUserMessage, ...metricValues } = parser.finalize();
+
+  return {
+    messages,
+    turns: Array.from(turns.values()),
+    toolCalls,
+    toolOutputs,
+    fileChanges,
+    firstUserMessage: firstUserMessage || '',
+    sessionMeta,
+    settings: parser.getSettings(),
+    parentLink: parser.getParentLink(),
+    eventTypeSamples,
+    metrics: metricValues,
+    state: nextState,
+    offset,
+    lineCount,
+  };
+};
+
+export const readSessionIdFromFile = async (filePath: string) => {
+  let sessionId: string | null = null;
+  let sessionIdRank = 0;
+  let malformedLines = 0;
+
+  const updateSessionId = (value: unknown, rank: number) => {
+    const extracted = extractSessionIdFromObject(value);
+    if (extracted && rank > sessionIdRank) {
+      sessionId = extracted;
+      sessionIdRank = rank;
+    }
+  };
+
+  const stream = openSessionStream(filePath);
+  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (entry.type === 'session_meta') {
+          const payload = entry.payload ?? entry;
+          updateSessionId(payload, 2);
+          if (sessionId && sessionIdRank >= 2) break;
+          continue;
+        }
+        if (entry.type === 'turn_context') {
+          const payload = entry.payload ?? entry;
+          updateSessionId(payload, 1);
+        }
+      } catch (error) {
+        if (malformedLines < 3) {
+          logDebug('readSessionIdFromFile: malformed line', { filePath, error });
+        } else if (malformedLines === 3) {
+          logDebug('readSessionIdFromFile: further malformed lines suppressed', { filePath });
+        }
+        malformedLines += 1;
+      }
+    }
+  } finally {
+    rl.close();
+    stream.destroy();
+  }
+
+  return sessionId;
+};
+
+export type ParsedSessionFile = Awaited<ReturnType<typeof parseJsonlFile>>;
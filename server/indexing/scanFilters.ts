@@ -0,0 +1,53 @@
+import type { ScanFilters } from '../../shared/apiTypes';
+
+const escapeRegex = (value: string) => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Gitignore-flavoured globs on the path relative to the root: `*` and `?` stay inside one segment, `**` spans
+// segments, `{a,b}` alternates. A pattern without `/` matches a file or directory name at any depth; a trailing
+// `/` matches everything under a directory.
+export const compileGlob = (pattern: string) => {
+  let source = pattern.trim().replace(/^\.?\//, '');
+  if (source.endsWith('/')) source = `${source}**`;
+  if (!source.includes('/')) source = `**/${source}`;
+  let regex = '';
+  let braceDepth = 0;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '*') {
+      if (source[index + 1] === '*') {
+        const atSegmentEnd = source[index + 2] === '/';
+        regex += atSegmentEnd ? '(?:.*/)?' : '.*';
+        index += atSegmentEnd ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      braceDepth += 1;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  regex += ')'.repeat(braceDepth);
+  // A name or directory pattern also covers everything below a matching directory.
+  return new RegExp(`^${regex}(?:/.*)?$`);
+};
+
+// True when a file is left out of the index. Exclude patterns win; with no include patterns every path is included.
+export const createScanFilter = (filters: ScanFilters) => {
+  const include = filters.include.map(compileGlob);
+  const exclude = filters.exclude.map(compileGlob);
+  const maxBytes = filters.maxFileSizeMb ? filters.maxFileSizeMb * 1024 * 1024 : null;
+  return (relPath: string, size: number) => {
+    if (exclude.some((regex) => regex.test(relPath))) return true;
+    if (include.length && !include.some((regex) => regex.test(relPath))) return true;
+    return maxBytes !== null && size > maxBytes;
+  };
+};
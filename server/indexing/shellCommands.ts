@@ -0,0 +1,83 @@
+// Recognises shell-style tool calls and pulls the command line, working directory, exit code and
+// wall time out of their arguments/outputs for the command history (tool_calls.command & co).
+
+const SHELL_TOOL_NAMES = new Set(['shell', 'local_shell', 'shell_command', 'exec_command', 'container.exec']);
+const SHELL_BINARIES = new Set(['bash', 'sh', 'zsh', 'dash']);
+
+export type ShellCommand = {
+  // Display string: the script for `bash -lc <script>`, otherwise the argv joined with shell quoting.
+  command: string;
+  workdir?: string;
+};
+
+export type ShellResult = {
+  exitCode?: number;
+  wallTimeMs?: number;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const getString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const getNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (_error) {
+    return undefined;
+  }
+};
+
+const quoteArg = (arg: string) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`);
+
+export const formatArgv = (argv: string[]) => {
+  const binary = argv[0]?.split('/').pop() ?? '';
+  if (argv.length === 3 && SHELL_BINARIES.has(binary) && (argv[1] === '-lc' || argv[1] === '-c')) {
+    return argv[2];
+  }
+  return argv.map(quoteArg).join(' ');
+};
+
+export const isShellToolName = (name: string) => SHELL_TOOL_NAMES.has(name);
+
+// `args` is the raw arguments value from the tool call item (usually a JSON-encoded string).
+export const extractShellCommand = (name: string, args: unknown): ShellCommand | null => {
+  if (!isShellToolName(name)) return null;
+  const parsed = asRecord(parseJson(args));
+  const raw = parsed.command ?? parsed.cmd ?? parsed.argv;
+  let command: string | undefined;
+  if (Array.isArray(raw) && raw.every((part) => typeof part === 'string')) {
+    command = raw.length ? formatArgv(raw) : undefined;
+  } else {
+    command = getString(raw);
+  }
+  if (!command) return null;
+  const workdir = getString(parsed.workdir) ?? getString(parsed.working_directory) ?? getString(parsed.cwd);
+  return { command, workdir };
+};
+
+// Handles both the JSON envelope (`{ output, metadata: { exit_code, duration_seconds } }`) and the
+// plain-text form (`Exit code: 0` / `Process exited with code 0`, `Wall time: 1.2 seconds`).
+export const extractShellResult = (output: string): ShellResult => {
+  const parsed = asRecord(parseJson(output));
+  const metadata = asRecord(parsed.metadata);
+  const exitCode = getNumber(metadata.exit_code) ?? getNumber(parsed.exit_code);
+  const durationSeconds = getNumber(metadata.duration_seconds) ?? getNumber(parsed.duration_seconds);
+  if (exitCode !== undefined || durationSeconds !== undefined) {
+    return {
+      exitCode,
+      wallTimeMs: durationSeconds !== undefined ? Math.round(durationSeconds * 1000) : undefined,
+    };
+  }
+  const exitMatch = output.match(/^(?:Exit code:|Process exited with code)\s*(-?\d+)/m);
+  const wallMatch = output.match(/^Wall time:\s*([\d.]+)\s*seconds?/m);
+  return {
+    exitCode: exitMatch ? Number(exitMatch[1]) : undefined,
+    wallTimeMs: wallMatch ? Math.round(Number(wallMatch[1]) * 1000) : undefined,
+  };
+};
@@ -1,5 +1,8 @@
 import path from 'node:path';
 import type Database from 'better-sqlite3';
+import type { SessionRoot } from '../../shared/apiTypes';
+import { splitSessionPath } from '../../shared/sessionPaths';
+import { buildSettingsConditions, type SessionSettingsFilters } from '../sessionSettings';
 import type { SessionTreeEntry } from '../types';
 
 type SessionFileInfo = SessionTreeEntry;
@@ -20,13 +23,37 @@ export const truncatePreview = (value?: string | null) => {
   return truncated;
 };
 
-export const getSessionsForTree = (database: Database.Database, workspace?: string | null): SessionTreeEntry[] => {
-  const whereClause = workspace ? 'WHERE sessions.cwd = ?' : '';
+export type SessionTreeFilters = SessionSettingsFilters & {
+  workspace?: string | null;
+  // Only sessions with at least one interrupted turn.
+  abortedOnly?: boolean;
+};
+
+export const buildSessionsWhere = (filters: SessionTreeFilters) => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filters.workspace) {
+    conditions.push('sessions.cwd = ?');
+    params.push(filters.workspace);
+  }
+  if (filters.abortedOnly) conditions.push('sessions.aborted_turn_count > 0');
+  const settings = buildSettingsConditions(filters);
+  conditions.push(...settings.conditions);
+  params.push(...settings.params);
+  return { whereClause: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+export const getSessionsForTree = (
+  database: Database.Database,
+  filters: SessionTreeFilters = {},
+): SessionTreeEntry[] => {
+  const { whereClause, params } = buildSessionsWhere(filters);
   const stmt = database.prepare(
     `
       SELECT
         sessions.id AS id,
         sessions.path AS path,
+        sessions.root AS root,
         sessions.first_user_message AS first_user_message,
         sessions.timestamp AS timestamp,
         sessions.cwd AS cwd,
@@ -40,16 +67,26 @@ export const getSessionsForTree = (database: Database.Database, workspace?: stri
         sessions.tool_call_count AS tool_call_count,
         sessions.meta_count AS meta_count,
         sessions.token_count_count AS token_count_count,
+        sessions.aborted_turn_count AS aborted_turn_count,
         sessions.started_at AS started_at,
         sessions.ended_at AS ended_at,
-        sessions.active_duration_ms AS active_duration_ms
+        sessions.active_duration_ms AS active_duration_ms,
+        sessions.input_tokens AS input_tokens,
+        sessions.cached_input_tokens AS cached_input_tokens,
+        sessions.output_tokens AS output_tokens,
+        sessions.reasoning_output_tokens AS reasoning_output_tokens,
+        sessions.total_tokens AS total_tokens,
+        sessions.peak_context_percent AS peak_context_percent,
+        sessions.context_window AS context_window,
+        sessions.archived_at AS archived_at
       FROM sessions
       ${whereClause}
     `,
   );
-  const rows = (workspace ? stmt.all(workspace) : stmt.all()) as Array<{
+  const rows = stmt.all(...params) as Array<{
     id: string;
     path: string;
+    root?: string | null;
     first_user_message?: string | null;
     timestamp?: string | null;
     cwd?: string | null;
@@ -63,9 +100,18 @@ export const getSessionsForTree = (database: Database.Database, workspace?: stri
     tool_call_count?: number | null;
     meta_count?: number | null;
     token_count_count?: number | null;
+    aborted_turn_count?: number | null;
     started_at?: string | null;
     ended_at?: string | null;
     active_duration_ms?: number | null;
+    input_tokens?: number | null;
+    cached_input_tokens?: number | null;
+    output_tokens?: number | null;
+    reasoning_output_tokens?: number | null;
+    total_tokens?: number | null;
+    peak_context_percent?: number | null;
+    context_window?: number | null;
+    archived_at?: string | null;
   }>;
 
   return rows.map((row) => {
@@ -73,6 +119,9 @@ export const getSessionsForTree = (database: Database.Database, workspace?: stri
     return {
       id: row.id,
       filename,
+      root: row.root ?? null,
+      // Labels come from config, not the DB, so renaming a root needs no reindex; see buildSessionsTree.
+      rootLabel: null,
       preview: truncatePreview(row.first_user_message ?? undefined),
       timestamp: row.timestamp ?? null,
       cwd: row.cwd ?? null,
@@ -86,18 +135,29 @@ export const getSessionsForTree = (database: Database.Database, workspace?: stri
       toolCallCount: row.tool_call_count ?? null,
       metaCount: row.meta_count ?? null,
       tokenCount: row.token_count_count ?? null,
+      abortedTurnCount: row.aborted_turn_count ?? null,
       startedAt: row.started_at ?? null,
       endedAt: row.ended_at ?? null,
       activeDurationMs: row.active_duration_ms ?? null,
+      inputTokens: row.input_tokens ?? null,
+      cachedInputTokens: row.cached_input_tokens ?? null,
+      outputTokens: row.output_tokens ?? null,
+      reasoningOutputTokens: row.reasoning_output_tokens ?? null,
+      totalTokens: row.total_tokens ?? null,
+      peakContextPercent: row.peak_context_percent ?? null,
+      contextWindow: row.context_window ?? null,
+      archivedAt: row.archived_at ?? null,
     };
   });
 };
 
-export const buildSessionsTree = (root: string, entries: SessionTreeEntry[]) => {
+export const buildSessionsTree = (roots: SessionRoot[], entries: SessionTreeEntry[]) => {
   const yearsMap: YearsMap = new Map();
+  const rootLabels = new Map(roots.map((root) => [root.id, root.label]));
 
   for (const entry of entries) {
-    const parts = entry.id.split('/');
+    // Rows indexed before roots existed (root is null) have no root prefix until the migration re-parse finishes.
+    const parts = (entry.root ? splitSessionPath(entry.id).relPath : entry.id).split('/');
     const [year = 'Unknown', month = 'Unknown', day = 'Unknown'] = parts;
     const filename = entry.filename || parts[parts.length - 1];
 
@@ -122,6 +182,8 @@ export const buildSessionsTree = (root: string, entries: SessionTreeEntry[]) =>
     dayFiles.push({
       id: entry.id,
       filename,
+      root: entry.root ?? null,
+      rootLabel: (entry.root && rootLabels.get(entry.root)) || entry.root || null,
       preview: entry.preview ?? null,
       timestamp: entry.timestamp ?? null,
       cwd: entry.cwd ?? null,
@@ -135,9 +197,18 @@ export const buildSessionsTree = (root: string, entries: SessionTreeEntry[]) =>
       toolCallCount: entry.toolCallCount ?? null,
       metaCount: entry.metaCount ?? null,
       tokenCount: entry.tokenCount ?? null,
+      abortedTurnCount: entry.abortedTurnCount ?? null,
       startedAt: entry.startedAt ?? null,
       endedAt: entry.endedAt ?? null,
       activeDurationMs: entry.activeDurationMs ?? null,
+      inputTokens: entry.inputTokens ?? null,
+      cachedInputTokens: entry.cachedInputTokens ?? null,
+      outputTokens: entry.outputTokens ?? null,
+      reasoningOutputTokens: entry.reasoningOutputTokens ?? null,
+      totalTokens: entry.totalTokens ?? null,
+      peakContextPercent: entry.peakContextPercent ?? null,
+      contextWindow: entry.contextWindow ?? null,
+      archivedAt: entry.archivedAt ?? null,
     });
   }
 
@@ -167,5 +238,5 @@ export const buildSessionsTree = (root: string, entries: SessionTreeEntry[]) =>
         })),
     }));
 
-  return { root, years };
+  return { roots, years };
 };
@@ -0,0 +1,171 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IndexEventReason, IndexSummary, IndexUpdatedEvent, SessionRoot } from '../../shared/apiTypes';
+import { isSessionFilename, joinSessionPath } from '../../shared/sessionPaths';
+import { CONFIG_DIR, findExistingRoots } from '../config';
+import { resetDb } from '../db';
+import { broadcastEvent } from '../events';
+import { logDebug } from '../logging';
+import { type IndexSessionsOptions, indexSessions } from './index';
+
+const WATCH_DEBOUNCE_MS = 1200;
+
+let activeRun: Promise<IndexSummary> | null = null;
+const watchers = new Map<string, fs.FSWatcher>();
+let watchedRoots: SessionRoot[] = [];
+// Bumped on every stop so callbacks and timers from an older watcher set become no-ops.
+let watchGeneration = 0;
+let debounceTimer: NodeJS.Timeout | null = null;
+let watchRunInFlight = false;
+let watchRunQueued = false;
+const pendingPaths = new Set<string>();
+
+const toPosix = (value: string) => value.split(path.sep).join('/');
+
+// Serializes every index run (watcher, reindex, clear-index) so two passes never write the DB concurrently.
+const runExclusive = async (task: () => Promise<IndexSummary>) => {
+  while (activeRun) {
+    await activeRun.catch(() => undefined);
+  }
+  const run = task();
+  activeRun = run;
+  try {
+    return await run;
+  } finally {
+    if (activeRun === run) activeRun = null;
+  }
+};
+
+export const isIndexRunning = () => activeRun !== null;
+
+const publishIndexUpdate = (reason: IndexEventReason, summary: IndexSummary, paths: string[] | null) => {
+  const event: IndexUpdatedEvent = { reason, paths, summary, timestamp: new Date().toISOString() };
+  broadcastEvent('index-updated', event);
+};
+
+export interface RunIndexOptions extends IndexSessionsOptions {
+  reset?: boolean;
+  // Fires once the run leaves the single-flight queue and actually starts.
+  onStart?: () => void;
+}
+
+export const runIndex = async (roots: SessionRoot[], options: RunIndexOptions = {}) => {
+  const { reset, onStart, ...indexOptions } = options;
+  const reason: IndexEventReason = reset ? 'clear-index' : 'reindex';
+  const summary = await runExclusive(async () => {
+    onStart?.();
+    // A job cancelled while queued must not wipe the index it never got to rebuild.
+    if (reset && !indexOptions.signal?.aborted) resetDb();
+    return indexSessions(roots, indexOptions);
+  });
+  publishIndexUpdate(reason, summary, null);
+  return summary;
+};
+
+const flushWatchedChanges = async (generation: number) => {
+  if (generation !== watchGeneration) return;
+  if (watchRunInFlight) {
+    watchRunQueued = true;
+    return;
+  }
+  watchRunInFlight = true;
+  // An empty batch is the startup catch-up pass, which covers every root.
+  const paths = pendingPaths.size ? Array.from(pendingPaths) : null;
+  pendingPaths.clear();
+  const roots = watchedRoots;
+  try {
+    logDebug('watch reindex start', { roots: roots.map((root) => root.id), paths });
+    const summary = await runExclusive(() => indexSessions(roots));
+    logDebug('watch reindex done', summary);
+    const changed = summary.updated > 0 || summary.removed > 0 || summary.metadataChecked > 0;
+    if (changed && generation === watchGeneration) {
+      publishIndexUpdate('watch', summary, paths);
+    }
+  } catch (error) {
+    console.error('[watch] reindex failed', error);
+  } finally {
+    watchRunInFlight = false;
+    if (watchRunQueued) {
+      watchRunQueued = false;
+      scheduleWatchedReindex(watchGeneration);
+    }
+  }
+};
+
+const scheduleWatchedReindex = (generation: number) => {
+  if (generation !== watchGeneration) return;
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    void flushWatchedChanges(generation);
+  }, WATCH_DEBOUNCE_MS);
+};
+
+const isIgnoredPath = (root: string, relPath: string) => {
+  if (!isSessionFilename(path.basename(relPath))) return true;
+  if (relPath.split('/').some((segment) => segment.startsWith('.'))) return true;
+  // Never react to our own DB writes if the config dir happens to live under a sessions root.
+  const absPath = path.resolve(root, relPath);
+  return absPath.startsWith(path.resolve(CONFIG_DIR) + path.sep);
+};
+
+const rootsKey = (roots: SessionRoot[]) => JSON.stringify(roots.map((root) => [root.id, path.resolve(root.path)]));
+
+export const stopSessionsWatcher = () => {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  pendingPaths.clear();
+  for (const [rootId, watcher] of watchers) {
+    watcher.close();
+    logDebug('watch stopped', { root: rootId });
+  }
+  watchers.clear();
+  watchedRoots = [];
+  watchGeneration += 1;
+};
+
+const watchRoot = (root: SessionRoot, generation: number) => {
+  let watcher: fs.FSWatcher;
+  try {
+    // Recursive fs.watch is native on macOS/Windows and supported on Linux since Node 20.
+    watcher = fs.watch(root.path, { recursive: true, persistent: false }, (_eventType, filename) => {
+      if (!filename || generation !== watchGeneration) return;
+      const relPath = toPosix(filename.toString());
+      if (isIgnoredPath(root.path, relPath)) return;
+      pendingPaths.add(joinSessionPath(root.id, relPath));
+      scheduleWatchedReindex(generation);
+    });
+  } catch (error) {
+    console.error('[watch] unable to watch sessions root', root.path, error);
+    return;
+  }
+  watcher.on('error', (error) => {
+    console.error('[watch] watcher error', root.path, error);
+    watcher.close();
+    if (watchers.get(root.id) === watcher) watchers.delete(root.id);
+  });
+  watchers.set(root.id, watcher);
+  logDebug('watch started', { root: root.id, path: root.path });
+};
+
+// Watches every enabled root; calling again with the same roots is a no-op, different roots restart the watchers.
+export const startSessionsWatcher = async (roots: SessionRoot[]) => {
+  const enabledRoots = roots.filter((root) => root.enabled);
+  if (watchers.size && rootsKey(enabledRoots) === rootsKey(watchedRoots)) return;
+  stopSessionsWatcher();
+  const generation = watchGeneration;
+  const existingRoots = await findExistingRoots(enabledRoots);
+  if (generation !== watchGeneration) return;
+  for (const root of enabledRoots) {
+    if (!existingRoots.includes(root)) logDebug('watch skipped, root missing', { root: root.id, path: root.path });
+  }
+  // Missing roots still go to indexSessions, which keeps their rows until they come back or are disabled.
+  watchedRoots = enabledRoots;
+  for (const root of existingRoots) {
+    watchRoot(root, generation);
+  }
+  // Catch up on anything written while the server was down (or on roots just added); unchanged files are skipped by size/mtime.
+  scheduleWatchedReindex(generation);
+};
@@ -0,0 +1,76 @@
+import type Database from 'better-sqlite3';
+import type { SessionLineageEntry, SessionLineageResponse, SessionLinkKind } from '../shared/apiTypes';
+
+export type { SessionLineageEntry, SessionLineageResponse };
+
+// Guards against link cycles (two files naming each other) and runaway chains.
+const MAX_LINEAGE_DEPTH = 32;
+
+type SessionRow = {
+  id: string;
+  session_id: string | null;
+  cwd: string | null;
+  first_user_message: string | null;
+  started_at: string | null;
+};
+
+type LinkRow = { parent_session_id: string; kind: SessionLinkKind };
+
+const SESSION_COLUMNS = `
+  sessions.id AS id,
+  sessions.session_id AS session_id,
+  sessions.cwd AS cwd,
+  sessions.first_user_message AS first_user_message,
+  COALESCE(sessions.started_at, sessions.timestamp) AS started_at
+`;
+
+const toEntry = (sessionId: string, kind: SessionLinkKind, row?: SessionRow): SessionLineageEntry => ({
+  session_id: sessionId,
+  session_path: row?.id ?? null,
+  kind,
+  cwd: row?.cwd ?? null,
+  first_user_message: row?.first_user_message ?? null,
+  started_at: row?.started_at ?? null,
+});
+
+// Ancestors (via session_links, oldest first) and direct children of an indexed session; null when it is not indexed.
+export const getSessionLineage = (database: Database.Database, sessionPath: string): SessionLineageResponse | null => {
+  const selectSession = database.prepare(`SELECT ${SESSION_COLUMNS} FROM sessions WHERE sessions.id = ?`);
+  // Several files can carry one session id (e.g. a copy in a second root); the earliest one stands for it.
+  const selectSessionById = database.prepare(
+    `SELECT ${SESSION_COLUMNS} FROM sessions WHERE sessions.session_id = ? ORDER BY started_at ASC, sessions.id ASC LIMIT 1`,
+  );
+  const selectLink = database.prepare('SELECT parent_session_id, kind FROM session_links WHERE session_id = ?');
+
+  const session = selectSession.get(sessionPath) as SessionRow | undefined;
+  if (!session) return null;
+
+  const ancestors: SessionLineageEntry[] = [];
+  const visited = new Set([session.id]);
+  let link = selectLink.get(session.id) as LinkRow | undefined;
+  while (link && ancestors.length < MAX_LINEAGE_DEPTH) {
+    const parent = selectSessionById.get(link.parent_session_id) as SessionRow | undefined;
+    ancestors.unshift(toEntry(link.parent_session_id, link.kind, parent));
+    if (!parent || visited.has(parent.id)) break;
+    visited.add(parent.id);
+    link = selectLink.get(parent.id) as LinkRow | undefined;
+  }
+
+  const children = session.session_id
+    ? (
+        database
+          .prepare(
+            `
+              SELECT ${SESSION_COLUMNS}, session_links.kind AS kind
+              FROM session_links
+              JOIN sessions ON sessions.id = session_links.session_id
+              WHERE session_links.parent_session_id = ? AND sessions.id != ?
+              ORDER BY started_at ASC, sessions.id ASC
+            `,
+          )
+          .all(session.session_id, session.id) as Array<SessionRow & { kind: SessionLinkKind }>
+      ).map((row) => toEntry(row.session_id ?? row.id, row.kind, row))
+    : [];
+
+  return { session_path: session.id, ancestors, children };
+};
@@ -1,23 +1,104 @@
-import fsp from 'node:fs/promises';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import path from 'node:path';
 import { performance } from 'node:perf_hooks';
-import type { SearchGroupSort, SearchResultSort } from '../../shared/apiTypes';
-import { ensurePathSafe, ensureRootExists, resolveSessionsRoot, setSessionsRoot } from '../config';
-import { getDb, resetDb } from '../db';
+import type {
+  ArchiveConfig,
+  IndexJobResponse,
+  IndexStatusResponse,
+  SearchGroupSort,
+  SearchMatchMode,
+  SearchResultSort,
+  SessionRoot,
+  SessionRootsConfig,
+} from '../../shared/apiTypes';
+import { buildArchivedSessionJsonl, countArchivedSessions, purgeArchivedSessions } from '../archive';
+import {
+  assignRootIds,
+  ensureRootExists,
+  findExistingRoots,
+  getEnabledRoots,
+  normalizeScanFilters,
+  resolveKeepDeletedSessions,
+  resolveScanFilters,
+  resolveSessionFile,
+  resolveSessionRoots,
+  setKeepDeletedSessions,
+  setScanFilters,
+  setSessionRoots,
+} from '../config';
+import { getDb, getIndexSchemaStatus } from '../db';
+import { getEventTypeCatalogue, getIndexDiagnostics } from '../diagnostics';
+import { openEventStream } from '../events';
+import { getFileHistory } from '../files';
 import { readJsonBody, sendJson } from '../http';
-import { indexSessions } from '../indexing';
-import { buildSessionsTree, getSessionsForTree } from '../indexing/tree';
+import { cancelIndexJob, getActiveIndexJob, getIndexJob, startIndexJob } from '../indexing/jobs';
+import { buildSessionsTree, buildSessionsWhere, getSessionsForTree } from '../indexing/tree';
+import { isIndexRunning, startSessionsWatcher } from '../indexing/watcher';
+import { getSessionLineage } from '../lineage';
 import { DEBUG_ENABLED, logDebug } from '../logging';
-import { resolveSession, searchSessions, sessionMatches } from '../search/queries';
+import { parseQualifierParams } from '../search/qualifiers';
+import {
+  decodeMessageCursor,
+  type MessageSearchSort,
+  resolveSession,
+  searchMessages,
+  searchSessions,
+  sessionMatches,
+} from '../search/queries';
+import { isSearchSyntaxError } from '../search/queryParser';
+import { isRegexBudgetError } from '../search/regexRunner';
+import { getSessionCompression, isZstdSupported, readSessionText } from '../sessionFiles';
+import { parseSettingsFilters } from '../sessionSettings';
+import { DATE_PARAM_REGEX, getCommandHistory, getToolSummaries } from '../tools';
 import { getWorkspaceSummaries } from '../workspaces';
 
-type ApiHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>;
+type ApiHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  params: Record<string, string>,
+) => Promise<void>;
+
+// Returns every enabled root (missing ones keep their indexed rows), or sends 404 when none exist on disk.
+const requireExistingRoots = async (res: ServerResponse) => {
+  const roots = await getEnabledRoots();
+  const existing = await findExistingRoots(roots);
+  if (!existing.length) {
+    const paths = roots.map((root) => root.path).join(', ') || 'no roots enabled';
+    sendJson(res, 404, {
+      error: `Sessions root not found: ${paths}. Set CODEX_SESSIONS_ROOT or update ~/.codex-formatter/config.json`,
+    });
+    return null;
+  }
+  return roots;
+};
+
+// Runs a search, or sends 400 with the parse error (message + offset) when the query is malformed.
+const runSearchQuery = async <T>(res: ServerResponse, run: () => Promise<T>): Promise<T | null> => {
+  try {
+    return await run();
+  } catch (error) {
+    if (isRegexBudgetError(error)) {
+      sendJson(res, 422, { error: error.message });
+      return null;
+    }
+    if (!isSearchSyntaxError(error)) throw error;
+    sendJson(res, 400, { error: error.message, syntax: error.syntax });
+    return null;
+  }
+};
+
+// `match=literal` switches the search endpoints to substring matching on the trigram index; `mode=regex` (which
+// takes precedence) to regular expression matching.
+const parseMatchMode = (searchParams: URLSearchParams): SearchMatchMode => {
+  if (searchParams.get('mode') === 'regex') return 'regex';
+  return searchParams.get('match') === 'literal' ? 'literal' : 'word';
+};
 
 const routes: Record<string, ApiHandler> = {
   'GET /api/config': async (_req, res) => {
-    const root = await resolveSessionsRoot();
-    return sendJson(res, 200, root);
+    const config: SessionRootsConfig = await resolveSessionRoots();
+    return sendJson(res, 200, config);
   },
   'POST /api/config': async (req, res) => {
     if (process.env.CODEX_SESSIONS_ROOT) {
@@ -34,36 +115,115 @@ const routes: Record<string, ApiHandler> = {
       }
       throw error;
     }
-    const sessionsRoot = typeof body === 'object' && body ? (body as Record<string, unknown>).sessionsRoot : undefined;
-    if (!sessionsRoot || typeof sessionsRoot !== 'string') {
-      return sendJson(res, 400, { error: 'sessionsRoot is required.' });
+    const rawRoots = typeof body === 'object' && body ? (body as Record<string, unknown>).roots : undefined;
+    if (!Array.isArray(rawRoots) || rawRoots.length === 0) {
+      return sendJson(res, 400, { error: 'roots must be a non-empty list.' });
+    }
+    const seenPaths = new Set<string>();
+    const candidates: Array<Omit<SessionRoot, 'id'> & { id?: string }> = [];
+    for (const rawRoot of rawRoots) {
+      const entry = typeof rawRoot === 'object' && rawRoot ? (rawRoot as Record<string, unknown>) : {};
+      const rootPath = typeof entry.path === 'string' ? entry.path.trim() : '';
+      if (!rootPath || !path.isAbsolute(rootPath)) {
+        return sendJson(res, 400, { error: `Root path must be an absolute path: ${rootPath || '(empty)'}` });
+      }
+      if (seenPaths.has(path.resolve(rootPath))) {
+        return sendJson(res, 400, { error: `Root path is listed twice: ${rootPath}` });
+      }
+      seenPaths.add(path.resolve(rootPath));
+      const enabled = entry.enabled !== false;
+      // Disabled roots may point at folders that are not synced yet; enabled ones must be readable now.
+      if (enabled && !(await ensureRootExists(rootPath))) {
+        return sendJson(res, 400, { error: `Root does not exist or is not a directory: ${rootPath}` });
+      }
+      const label =
+        typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : path.basename(rootPath);
+      candidates.push({ id: typeof entry.id === 'string' ? entry.id : undefined, label, path: rootPath, enabled });
+    }
+    const roots = assignRootIds(candidates);
+    await setSessionRoots(roots);
+    await startSessionsWatcher(roots);
+    const config: SessionRootsConfig = await resolveSessionRoots();
+    return sendJson(res, 200, { ok: true, ...config });
+  },
+  'GET /api/events': async (req, res) => {
+    openEventStream(req, res);
+  },
+  'GET /api/config/scan-filters': async (_req, res) => {
+    return sendJson(res, 200, await resolveScanFilters());
+  },
+  // Takes effect on the next index pass (watcher or reindex); files the filters now exclude are removed then.
+  'POST /api/config/scan-filters': async (req, res) => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return sendJson(res, 400, { error: 'Invalid JSON body.' });
+      }
+      throw error;
+    }
+    const entry = typeof body === 'object' && body ? (body as Record<string, unknown>) : {};
+    for (const key of ['include', 'exclude']) {
+      const patterns = entry[key];
+      if (patterns !== undefined && !(Array.isArray(patterns) && patterns.every((item) => typeof item === 'string'))) {
+        return sendJson(res, 400, { error: `${key} must be a list of glob patterns.` });
+      }
     }
-    if (!path.isAbsolute(sessionsRoot)) {
-      return sendJson(res, 400, { error: 'sessionsRoot must be an absolute path.' });
+    const maxFileSizeMb = entry.maxFileSizeMb;
+    if (maxFileSizeMb !== undefined && maxFileSizeMb !== null) {
+      if (typeof maxFileSizeMb !== 'number' || !Number.isFinite(maxFileSizeMb) || maxFileSizeMb <= 0) {
+        return sendJson(res, 400, { error: 'maxFileSizeMb must be a positive number or null.' });
+      }
     }
-    const exists = await ensureRootExists(sessionsRoot);
-    if (!exists) {
-      return sendJson(res, 400, { error: 'sessionsRoot does not exist or is not a directory.' });
+    const filters = normalizeScanFilters(entry);
+    await setScanFilters(filters);
+    return sendJson(res, 200, filters);
+  },
+  'GET /api/config/archive': async (_req, res) => {
+    const payload: ArchiveConfig = {
+      keepDeletedSessions: await resolveKeepDeletedSessions(),
+      archivedCount: countArchivedSessions(getDb()),
+    };
+    return sendJson(res, 200, payload);
+  },
+  // Applies from the next index pass; turning it off keeps existing archives until they are purged.
+  'POST /api/config/archive': async (req, res) => {
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return sendJson(res, 400, { error: 'Invalid JSON body.' });
+      }
+      throw error;
+    }
+    const keepDeletedSessions = typeof body === 'object' && body ? (body as ArchiveConfig).keepDeletedSessions : null;
+    if (typeof keepDeletedSessions !== 'boolean') {
+      return sendJson(res, 400, { error: 'keepDeletedSessions must be true or false.' });
     }
-    await setSessionsRoot(sessionsRoot);
-    return sendJson(res, 200, { ok: true, sessionsRoot });
+    await setKeepDeletedSessions(keepDeletedSessions);
+    const payload: ArchiveConfig = { keepDeletedSessions, archivedCount: countArchivedSessions(getDb()) };
+    return sendJson(res, 200, payload);
+  },
+  'POST /api/archive/purge': async (_req, res) => {
+    return sendJson(res, 200, purgeArchivedSessions(getDb()));
   },
   'GET /api/sessions': async (_req, res, url) => {
     const startedAt = performance.now();
-    const rootInfo = await resolveSessionsRoot();
-    const rootExists = await ensureRootExists(rootInfo.value);
+    const roots = await requireExistingRoots(res);
     const afterRoot = performance.now();
-    if (!rootExists) {
-      return sendJson(res, 404, {
-        error: `Sessions root not found: ${rootInfo.value}. Set CODEX_SESSIONS_ROOT or update ~/.codex-formatter/config.json`,
-      });
-    }
+    if (!roots) return;
     const database = getDb();
     const afterDbInit = performance.now();
-    const workspace = url.searchParams.get('workspace')?.trim() || null;
-    const entries = getSessionsForTree(database, workspace);
+    const filters = {
+      workspace: url.searchParams.get('workspace')?.trim() || null,
+      abortedOnly: url.searchParams.get('aborted') === '1',
+      ...parseSettingsFilters(url.searchParams),
+    };
+    const entries = getSessionsForTree(database, filters);
     const afterQuery = performance.now();
-    const tree = buildSessionsTree(rootInfo.value, entries);
+    const tree = buildSessionsTree(roots, entries);
     const afterTree = performance.now();
     const payload = JSON.stringify(tree);
     const afterJson = performance.now();
@@ -110,7 +270,7 @@ const routes: Record<string, ApiHandler> = {
             .get() as { sessions_count: number; messages_count: number };
           logDebug('/api/sessions counts', rowCounts);
 
-          const whereClause = workspace ? 'WHERE sessions.cwd = ?' : '';
+          const { whereClause, params } = buildSessionsWhere(filters);
           const explainStmt = database.prepare(
             `
               EXPLAIN QUERY PLAN
@@ -130,6 +290,7 @@ const routes: Record<string, ApiHandler> = {
                 sessions.tool_call_count AS tool_call_count,
                 sessions.meta_count AS meta_count,
                 sessions.token_count_count AS token_count_count,
+                sessions.aborted_turn_count AS aborted_turn_count,
                 sessions.started_at AS started_at,
                 sessions.ended_at AS ended_at,
                 sessions.active_duration_ms AS active_duration_ms
@@ -137,7 +298,7 @@ const routes: Record<string, ApiHandler> = {
               ${whereClause}
             `,
           );
-          const plan = workspace ? explainStmt.all(workspace) : explainStmt.all();
+          const plan = explainStmt.all(...params);
           logDebug('/api/sessions query plan', plan);
         } catch (error) {
           logDebug('/api/sessions debug query failed', error);
@@ -168,29 +329,81 @@ const routes: Record<string, ApiHandler> = {
     });
     return sendJson(res, 200, { workspaces });
   },
-  'GET /api/session': async (_req, res, url) => {
-    const rootInfo = await resolveSessionsRoot();
-    const rootExists = await ensureRootExists(rootInfo.value);
-    if (!rootExists) {
-      return sendJson(res, 404, {
-        error: `Sessions root not found: ${rootInfo.value}. Set CODEX_SESSIONS_ROOT or update ~/.codex-formatter/config.json`,
-      });
+  'GET /api/tools': async (_req, res, url) => {
+    const workspace = url.searchParams.get('workspace')?.trim() || null;
+    const from = url.searchParams.get('from')?.trim() || null;
+    const to = url.searchParams.get('to')?.trim() || null;
+    if ((from && !DATE_PARAM_REGEX.test(from)) || (to && !DATE_PARAM_REGEX.test(to))) {
+      return sendJson(res, 400, { error: 'from and to must be YYYY-MM-DD dates.' });
+    }
+    const tools = getToolSummaries(getDb(), { workspace, from, to });
+    return sendJson(res, 200, { tools });
+  },
+  'GET /api/commands': async (_req, res, url) => {
+    const rawLimit = url.searchParams.get('limit');
+    const limitParam = rawLimit ? Number(rawLimit) : 500;
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.floor(limitParam), 1), 2000) : 500;
+    const history = getCommandHistory(getDb(), {
+      session: url.searchParams.get('session')?.trim() || null,
+      workspace: url.searchParams.get('workspace')?.trim() || null,
+      query: url.searchParams.get('q')?.trim() || null,
+      limit,
+    });
+    return sendJson(res, 200, history);
+  },
+  'GET /api/files': async (_req, res, url) => {
+    const filePath = url.searchParams.get('path')?.trim();
+    if (!filePath) {
+      return sendJson(res, 400, { error: 'Missing file path.' });
     }
-    const relativePath = url.searchParams.get('path') || '';
-    const resolvedPath = ensurePathSafe(rootInfo.value, relativePath);
-    if (!resolvedPath) {
+    const rawLimit = url.searchParams.get('limit');
+    const limitParam = rawLimit ? Number(rawLimit) : 500;
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.floor(limitParam), 1), 2000) : 500;
+    return sendJson(res, 200, getFileHistory(getDb(), { path: filePath, limit }));
+  },
+  'GET /api/lineage': async (_req, res, url) => {
+    const session = url.searchParams.get('session')?.trim();
+    if (!session) {
+      return sendJson(res, 400, { error: 'session is required.' });
+    }
+    const lineage = getSessionLineage(getDb(), session);
+    if (!lineage) {
+      return sendJson(res, 404, { error: 'Session is not indexed.' });
+    }
+    return sendJson(res, 200, lineage);
+  },
+  'GET /api/session': async (_req, res, url) => {
+    const sessionPath = url.searchParams.get('path') || '';
+    const resolved = await resolveSessionFile(sessionPath);
+    if (!resolved) {
       return sendJson(res, 400, { error: 'Invalid session path.' });
     }
+    const resolvedPath = resolved.absPath;
+    if (getSessionCompression(resolvedPath) === 'zstd' && !isZstdSupported()) {
+      return sendJson(res, 415, { error: 'Reading .jsonl.zst sessions requires Node 22.15 or newer.' });
+    }
     let raw: string;
     try {
-      raw = await fsp.readFile(resolvedPath, 'utf-8');
+      raw = await readSessionText(resolvedPath);
     } catch (error: any) {
       if (error?.code === 'ENOENT') {
+        // A deleted file kept as an archived session is rebuilt from its indexed rows.
+        const archived = buildArchivedSessionJsonl(getDb(), sessionPath);
+        if (archived !== null) {
+          res.statusCode = 200;
+          res.setHeader('Content-Type', 'text/plain');
+          res.setHeader('X-Session-Archived', '1');
+          res.end(archived);
+          return;
+        }
         return sendJson(res, 404, { error: 'Session file not found. Please reindex.' });
       }
       if (error?.code === 'EACCES') {
         return sendJson(res, 403, { error: 'Unable to read session file.' });
       }
+      if (error?.code === 'Z_DATA_ERROR' || error?.code === 'Z_BUF_ERROR') {
+        return sendJson(res, 422, { error: 'Session archive is corrupt or truncated.' });
+      }
       throw error;
     }
     res.statusCode = 200;
@@ -198,31 +411,52 @@ const routes: Record<string, ApiHandler> = {
     res.end(raw);
   },
   'POST /api/reindex': async (_req, res) => {
-    const rootInfo = await resolveSessionsRoot();
-    const rootExists = await ensureRootExists(rootInfo.value);
-    if (!rootExists) {
-      return sendJson(res, 404, {
-        error: `Sessions root not found: ${rootInfo.value}. Set CODEX_SESSIONS_ROOT or update ~/.codex-formatter/config.json`,
-      });
-    }
-    logDebug('reindex start', { root: rootInfo.value });
-    const summary = await indexSessions(rootInfo.value);
-    logDebug('reindex done', summary);
-    return sendJson(res, 200, { ok: true, summary });
+    const roots = await requireExistingRoots(res);
+    if (!roots) return;
+    const job = startIndexJob(roots, 'reindex');
+    const payload: IndexJobResponse = { job };
+    return sendJson(res, 202, payload);
   },
   'POST /api/clear-index': async (_req, res) => {
-    const rootInfo = await resolveSessionsRoot();
-    const rootExists = await ensureRootExists(rootInfo.value);
-    if (!rootExists) {
-      return sendJson(res, 404, {
-        error: `Sessions root not found: ${rootInfo.value}. Set CODEX_SESSIONS_ROOT or update ~/.codex-formatter/config.json`,
-      });
+    const roots = await requireExistingRoots(res);
+    if (!roots) return;
+    const job = startIndexJob(roots, 'clear-index');
+    const payload: IndexJobResponse = { job };
+    return sendJson(res, 202, payload);
+  },
+  'GET /api/index/jobs/:id': async (_req, res, _url, params) => {
+    const job = getIndexJob(params.id);
+    if (!job) {
+      return sendJson(res, 404, { error: 'Index job not found.' });
+    }
+    const payload: IndexJobResponse = { job };
+    return sendJson(res, 200, payload);
+  },
+  'POST /api/index/jobs/:id/cancel': async (_req, res, _url, params) => {
+    const job = cancelIndexJob(params.id);
+    if (!job) {
+      return sendJson(res, 404, { error: 'Index job not found.' });
     }
-    logDebug('clear-index start', { root: rootInfo.value });
-    resetDb();
-    const summary = await indexSessions(rootInfo.value);
-    logDebug('clear-index done', summary);
-    return sendJson(res, 200, { ok: true, summary });
+    const payload: IndexJobResponse = { job };
+    return sendJson(res, 200, payload);
+  },
+  'GET /api/index/status': async (_req, res) => {
+    const status: IndexStatusResponse = {
+      ...getIndexSchemaStatus(),
+      indexing: isIndexRunning(),
+      activeJob: getActiveIndexJob(),
+    };
+    return sendJson(res, 200, status);
+  },
+  'GET /api/index/diagnostics': async (_req, res, url) => {
+    const rawLimit = url.searchParams.get('limit');
+    const limitParam = rawLimit ? Number(rawLimit) : 200;
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.floor(limitParam), 1), 1000) : 200;
+    return sendJson(res, 200, getIndexDiagnostics(getDb(), { limit }));
+  },
+  'GET /api/index/event-types': async (_req, res, url) => {
+    const unknownOnly = url.searchParams.get('unknown') === '1';
+    return sendJson(res, 200, getEventTypeCatalogue(getDb(), { unknownOnly }));
   },
   'GET /api/resolve-session': async (_req, res, url) => {
     const id = url.searchParams.get('id')?.trim();
@@ -240,23 +474,37 @@ const routes: Record<string, ApiHandler> = {
     const limitParam = rawLimit ? Number(rawLimit) : 20;
     const limit = Number.isFinite(limitParam) ? Math.min(Math.max(limitParam, 1), 200) : 20;
     const workspace = url.searchParams.get('workspace')?.trim() || null;
+    const abortedOnly = url.searchParams.get('aborted') === '1';
     const requestId = url.searchParams.get('requestId')?.trim() || null;
     const resultSortParam = url.searchParams.get('resultSort')?.trim();
     const groupSortParam = url.searchParams.get('groupSort')?.trim();
     const resultSort: SearchResultSort =
       resultSortParam === 'matches' ? 'matches' : resultSortParam === 'recent' ? 'recent' : 'relevance';
     const groupSort: SearchGroupSort = groupSortParam === 'matches' ? 'matches' : 'last_seen';
+    const match = parseMatchMode(url.searchParams);
     if (q === null) return sendJson(res, 400, { error: 'q is required.' });
+    const qualifierParams = parseQualifierParams(url.searchParams);
+    if ('error' in qualifierParams) return sendJson(res, 400, { error: qualifierParams.error });
     const database = getDb();
-    const { response, timings } = searchSessions(database, {
-      query: q,
-      limit,
-      workspace,
-      requestId,
-      resultSort,
-      groupSort,
-      getWorkspaceSummaries,
-    });
+    const rootLabels = new Map((await resolveSessionRoots()).roots.map((root) => [root.id, root.label]));
+    const result = await runSearchQuery(res, () =>
+      searchSessions(database, {
+        query: q,
+        match,
+        limit,
+        workspace,
+        abortedOnly,
+        settings: parseSettingsFilters(url.searchParams),
+        qualifiers: qualifierParams.qualifiers,
+        requestId,
+        resultSort,
+        groupSort,
+        getWorkspaceSummaries,
+        rootLabels,
+      }),
+    );
+    if (!result) return;
+    const { response, timings } = result;
     const responsePayload = requestId ? { ...response, requestId } : response;
     const jsonStart = performance.now();
     const payload = JSON.stringify(responsePayload);
@@ -278,6 +526,51 @@ const routes: Record<string, ApiHandler> = {
     res.end(payload);
     return;
   },
+  'GET /api/search/messages': async (_req, res, url) => {
+    const q = url.searchParams.get('q');
+    const rawLimit = url.searchParams.get('limit');
+    const limitParam = rawLimit ? Number(rawLimit) : 50;
+    const limit = Number.isFinite(limitParam) ? Math.min(Math.max(Math.floor(limitParam), 1), 200) : 50;
+    const workspace = url.searchParams.get('workspace')?.trim() || null;
+    const abortedOnly = url.searchParams.get('aborted') === '1';
+    const requestId = url.searchParams.get('requestId')?.trim() || null;
+    const sort: MessageSearchSort = url.searchParams.get('resultSort')?.trim() === 'recent' ? 'recent' : 'relevance';
+    const rawCursor = url.searchParams.get('cursor')?.trim() || null;
+    const match = parseMatchMode(url.searchParams);
+    if (q === null) return sendJson(res, 400, { error: 'q is required.' });
+    const cursor = rawCursor ? decodeMessageCursor(rawCursor, sort) : null;
+    if (rawCursor && !cursor) return sendJson(res, 400, { error: 'Invalid cursor.' });
+    const qualifierParams = parseQualifierParams(url.searchParams);
+    if ('error' in qualifierParams) return sendJson(res, 400, { error: qualifierParams.error });
+    const database = getDb();
+    const rootLabels = new Map((await resolveSessionRoots()).roots.map((root) => [root.id, root.label]));
+    const result = await runSearchQuery(res, () =>
+      searchMessages(database, {
+        query: q,
+        match,
+        limit,
+        sort,
+        cursor,
+        workspace,
+        abortedOnly,
+        settings: parseSettingsFilters(url.searchParams),
+        qualifiers: qualifierParams.qualifiers,
+        requestId,
+        rootLabels,
+      }),
+    );
+    if (!result) return;
+    const { response, timings } = result;
+    res.setHeader(
+      'Server-Timing',
+      [
+        `normalize;dur=${timings.normalizeMs.toFixed(2)}`,
+        `query;dur=${timings.queryMs.toFixed(2)}`,
+        `total;dur=${timings.totalMs.toFixed(2)}`,
+      ].join(', '),
+    );
+    return sendJson(res, 200, requestId ? { ...response, requestId } : response);
+  },
   'GET /api/session-matches': async (_req, res, url) => {
     const session = url.searchParams.get('session')?.trim();
     const q = url.searchParams.get('q');
@@ -285,7 +578,10 @@ const routes: Record<string, ApiHandler> = {
     if (!session) return sendJson(res, 400, { error: 'session is required.' });
     if (q === null) return sendJson(res, 400, { error: 'q is required.' });
     const database = getDb();
-    const { response, timings } = sessionMatches(database, { session, query: q, requestId });
+    const match = parseMatchMode(url.searchParams);
+    const result = await runSearchQuery(res, () => sessionMatches(database, { session, query: q, match, requestId }));
+    if (!result) return;
+    const { response, timings } = result;
     const responsePayload = requestId ? { ...response, requestId } : response;
     const jsonStart = performance.now();
     const payload = JSON.stringify(responsePayload);
@@ -308,17 +604,51 @@ const routes: Record<string, ApiHandler> = {
   },
 };
 
+// Keys like `GET /api/index/jobs/:id` capture single path segments into `params`.
+const matchRoute = (method: string, pathname: string) => {
+  const exact = routes[`${method} ${pathname}`];
+  if (exact) return { handler: exact, params: {} };
+  const segments = pathname.split('/');
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, routePath] = key.split(' ');
+    if (routeMethod !== method || !routePath.includes(':')) continue;
+    const routeSegments = routePath.split('/');
+    if (routeSegments.length !== segments.length) continue;
+    const matches = routeSegments.every((segment, index) =>
+      segment.startsWith(':') ? Boolean(segments[index]) : segment === segments[index],
+    );
+    if (!matches) continue;
+    const params: Record<string, string> = {};
+    for (const [index, segment] of routeSegments.entries()) {
+      if (!segment.startsWith(':')) continue;
+      try {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+      } catch (error) {
+        // A stray `%` or truncated escape (`%E0%A4%A`) is the client's mistake, not a server error.
+        if (!(error instanceof URIError)) throw error;
+        return { error: `Malformed URL encoding in path segment: ${segments[index]}` };
+      }
+    }
+    return { handler, params };
+  }
+  return null;
+};
+
 export const handleApiRequest = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
   if (!req.url) return false;
   const url = new URL(req.url, 'http://localhost');
   const method = req.method ?? 'GET';
-  const handler = routes[`${method} ${url.pathname}`];
+  const route = matchRoute(method, url.pathname);
   try {
-    if (!handler) {
+    if (!route) {
       sendJson(res, 404, { error: 'Not found' });
       return true;
     }
-    await handler(req, res, url);
+    if ('error' in route) {
+      sendJson(res, 400, { error: route.error });
+      return true;
+    }
+    await route.handler(req, res, url, route.params);
     return true;
   } catch (error: unknown) {
     console.error('[api]', method, url.pathname, error);
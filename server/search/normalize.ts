@@ -1,4 +1,10 @@
+import type { SearchMatchMode, SearchQualifier } from '../../shared/apiTypes';
+import { resolveQueryQualifiers } from './qualifiers';
+import { createSearchSyntaxError, parseSearchQuery, type SearchQueryNode } from './queryParser';
+
 const MAX_FTS_TOKENS = 32;
+// The trigram tokenizer cannot match a substring shorter than three characters.
+const MIN_LITERAL_TERM_LENGTH = 3;
 const MIN_LATIN_TOKEN_LENGTH = 3;
 const MIN_NON_LATIN_TOKEN_LENGTH = 1;
 const MIN_NUMERIC_TOKEN_LENGTH = 2;
@@ -8,10 +14,16 @@ const NUMERIC_TOKEN_REGEX = /^\p{N}+$/u;
 
 type FtsQueryResult = {
   normalized: string | null;
+  // Words of the non-negated terms, for highlighting.
   tokens: string[];
   truncated: boolean;
+  // `key:value` filters taken out of the query, validated.
+  qualifiers: SearchQualifier[];
 };
 
+// A translated subtree: negated ones can only be subtracted from a sibling in an AND group.
+type FtsClause = { fts: string; negated: boolean; position: number };
+
 const isSearchableToken = (token: string) => {
   if (!token) return false;
   if (LATIN_SCRIPT_REGEX.test(token)) {
@@ -23,22 +35,85 @@ const isSearchableToken = (token: string) => {
   return token.length >= MIN_NON_LATIN_TOKEN_LENGTH;
 };
 
-export const normalizeFtsQuery = (raw: string): FtsQueryResult => {
-  const trimmed = raw.trim();
-  if (!trimmed) {
-    return { normalized: null, tokens: [], truncated: false };
-  }
-  const tokens = (trimmed.match(FTS_TOKEN_REGEX) ?? []).filter(Boolean);
-  if (tokens.length === 0) {
-    return { normalized: null, tokens: [], truncated: false };
-  }
-  const truncated = tokens.length > MAX_FTS_TOKENS;
-  const limitedTokens = tokens.slice(0, MAX_FTS_TOKENS);
-  const searchableTokens = limitedTokens.filter(isSearchableToken);
-  if (searchableTokens.length === 0) {
-    return { normalized: null, tokens: [], truncated: false };
+const quoteFtsString = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const joinClauses = (clauses: FtsClause[], operator: 'AND' | 'OR') =>
+  clauses.length === 1 ? clauses[0].fts : `(${clauses.map((clause) => clause.fts).join(` ${operator} `)})`;
+
+const getNodePosition = (node: SearchQueryNode): number =>
+  node.type === 'text' || node.type === 'not' ? node.position : getNodePosition(node.children[0]);
+
+// Translates the parsed query into an FTS5 MATCH expression. Every term is emitted as a quoted string, so no user
+// input reaches FTS5 as syntax. Terms with no searchable word (too short, punctuation only) and terms past the first
+// 32 words are dropped, as are operators left without operands. In `literal` mode (for the trigram index) each term
+// is kept verbatim as a substring, and only terms shorter than three characters are dropped.
+export const normalizeFtsQuery = (raw: string, match: SearchMatchMode = 'word'): FtsQueryResult => {
+  const literal = match === 'literal';
+  const parsed = parseSearchQuery(raw, { literal });
+  const qualifiers = resolveQueryQualifiers(parsed.qualifiers);
+  const tokens: string[] = [];
+  let wordCount = 0;
+  let truncated = false;
+
+  const translate = (node: SearchQueryNode, negated: boolean): FtsClause | null => {
+    if (node.type === 'text' && literal) {
+      if (Array.from(node.text).length < MIN_LITERAL_TERM_LENGTH) return null;
+      if (wordCount + 1 > MAX_FTS_TOKENS) {
+        truncated = true;
+        return null;
+      }
+      wordCount += 1;
+      if (!negated) tokens.push(node.text);
+      return { fts: quoteFtsString(node.text), negated: false, position: node.position };
+    }
+    if (node.type === 'text') {
+      const words = node.text.match(FTS_TOKEN_REGEX) ?? [];
+      if (!words.some(isSearchableToken)) return null;
+      if (wordCount + words.length > MAX_FTS_TOKENS) {
+        truncated = true;
+        return null;
+      }
+      wordCount += words.length;
+      if (!negated) tokens.push(...words.filter(isSearchableToken));
+      // Several words (a quoted phrase, or `foo.bar`) become one FTS5 phrase; `*` marks its last word as a prefix.
+      return {
+        fts: `${quoteFtsString(words.join(' '))}${node.prefix ? '*' : ''}`,
+        negated: false,
+        position: node.position,
+      };
+    }
+    if (node.type === 'not') {
+      const child = translate(node.child, !negated);
+      if (!child) return null;
+      if (child.negated) throw createSearchSyntaxError('A term cannot be negated twice.', node.position);
+      return { ...child, negated: true, position: node.position };
+    }
+    const children = node.children
+      .map((child) => translate(child, negated))
+      .filter((child): child is FtsClause => child !== null);
+    if (!children.length) return null;
+    const position = getNodePosition(node);
+    if (node.type === 'or') {
+      const negatedChild = children.find((child) => child.negated);
+      if (negatedChild) {
+        throw createSearchSyntaxError('A negated term cannot be an OR alternative.', negatedChild.position);
+      }
+      return { fts: joinClauses(children, 'OR'), negated: false, position };
+    }
+    const included = children.filter((child) => !child.negated);
+    const excluded = children.filter((child) => child.negated);
+    // A group of only negated terms is itself negated: `a (-b -c)` is `a` without `b` or `c`.
+    if (!included.length) {
+      return { fts: joinClauses(excluded, 'OR'), negated: true, position: excluded[0].position };
+    }
+    const includedFts = joinClauses(included, 'AND');
+    if (!excluded.length) return { fts: includedFts, negated: false, position };
+    return { fts: `(${includedFts} NOT ${joinClauses(excluded, 'OR')})`, negated: false, position };
+  };
+
+  const clause = parsed.root ? translate(parsed.root, false) : null;
+  if (clause?.negated) {
+    throw createSearchSyntaxError('Add a term to search for; negated terms only exclude matches.', clause.position);
   }
-  const escapedTokens = searchableTokens.map((token) => token.replace(/"/g, '""'));
-  const normalized = escapedTokens.map((token) => `"${token}"`).join(' AND ');
-  return { normalized, tokens: searchableTokens, truncated };
+  return { normalized: clause?.fts ?? null, tokens: Array.from(new Set(tokens)), truncated, qualifiers };
 };
@@ -0,0 +1,108 @@
+import type { SearchQualifier, SearchQualifierKey } from '../../shared/apiTypes';
+import { DATE_PARAM_REGEX } from '../tools';
+import { createSearchSyntaxError, type ParsedQualifier } from './queryParser';
+
+// Search qualifiers: `role:` filters the matching messages, the rest filter their sessions. Repeating `role`,
+// `workspace`, `branch` or `repo` matches any of the values; `after`, `before` and `turns` all have to hold.
+
+const MESSAGE_ROLES = ['user', 'assistant', 'thought', 'tool_call', 'tool_output'];
+const TURNS_REGEX = /^(>=|<=|>|<|=)?(\d+)$/;
+// Qualifiers that can also be passed as URL params; `workspace` keeps its own exact-match param.
+const PARAM_QUALIFIER_KEYS: SearchQualifierKey[] = ['role', 'branch', 'repo', 'after', 'before', 'turns'];
+const LIST_QUALIFIER_KEYS: SearchQualifierKey[] = ['role', 'workspace', 'branch', 'repo'];
+
+// Day of the session start (falling back to the file timestamp), as `YYYY-MM-DD` in UTC.
+const SESSION_DAY_SQL = 'substr(COALESCE(sessions.started_at, sessions.timestamp), 1, 10)';
+
+const isValidDate = (value: string) =>
+  DATE_PARAM_REGEX.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+// Returns the canonical value, or an error message for an invalid one.
+const normalizeQualifierValue = (key: SearchQualifierKey, raw: string): { value: string } | { error: string } => {
+  const value = raw.trim();
+  if (key === 'role') {
+    const role = value.toLowerCase();
+    return MESSAGE_ROLES.includes(role)
+      ? { value: role }
+      : { error: `role must be one of ${MESSAGE_ROLES.join(', ')}.` };
+  }
+  if (key === 'after' || key === 'before') {
+    return isValidDate(value) ? { value } : { error: `${key} must be a date (YYYY-MM-DD).` };
+  }
+  if (key === 'turns') {
+    const match = TURNS_REGEX.exec(value);
+    return match
+      ? { value: `${match[1] ?? '='}${Number(match[2])}` }
+      : { error: 'turns must be a number, optionally after >, >=, <, <= or =.' };
+  }
+  return value ? { value } : { error: `${key} must not be empty.` };
+};
+
+// Validates qualifiers taken out of `q`; an invalid value is reported like a syntax error at its position.
+export const resolveQueryQualifiers = (parsed: ParsedQualifier[]): SearchQualifier[] =>
+  parsed.map(({ key, value, position, length }) => {
+    const result = normalizeQualifierValue(key, value);
+    if ('error' in result) throw createSearchSyntaxError(result.error, position);
+    return { key, value: result.value, position, length };
+  });
+
+// Qualifiers given as URL params (`role`, `branch`, `repo`, `after`, `before`, `turns`; repeatable).
+export const parseQualifierParams = (
+  searchParams: URLSearchParams,
+): { qualifiers: SearchQualifier[] } | { error: string } => {
+  const qualifiers: SearchQualifier[] = [];
+  for (const key of PARAM_QUALIFIER_KEYS) {
+    for (const raw of searchParams.getAll(key)) {
+      if (!raw.trim()) continue;
+      const result = normalizeQualifierValue(key, raw);
+      if ('error' in result) return { error: result.error };
+      qualifiers.push({ key, value: result.value, position: null, length: null });
+    }
+  }
+  return { qualifiers };
+};
+
+const repoCondition = (value: string) => {
+  // Matches the full remote URL or its trailing `owner/name`, with or without `.git`.
+  const slug = value.toLowerCase().replace(/\.git$/, '');
+  const escaped = slug.replace(/[\\%_]/g, '\\$&');
+  const patterns = [`%/${escaped}`, `%/${escaped}.git`, `%:${escaped}`, `%:${escaped}.git`];
+  const likes = patterns.map(() => "LOWER(sessions.git_repo) LIKE ? ESCAPE '\\'");
+  return {
+    condition: `(LOWER(sessions.git_repo) = ? OR ${likes.join(' OR ')})`,
+    params: [value.toLowerCase(), ...patterns],
+  };
+};
+
+const valueCondition = (key: SearchQualifierKey, value: string, roleColumn: string) => {
+  if (key === 'role') return { condition: `${roleColumn} = ?`, params: [value] };
+  if (key === 'workspace') return { condition: 'sessions.cwd = ?', params: [value] };
+  if (key === 'branch') return { condition: 'sessions.git_branch = ?', params: [value] };
+  if (key === 'repo') return repoCondition(value);
+  if (key === 'after') return { condition: `${SESSION_DAY_SQL} >= ?`, params: [value] };
+  if (key === 'before') return { condition: `${SESSION_DAY_SQL} < ?`, params: [value] };
+  const [, operator, count] = TURNS_REGEX.exec(value) ?? [];
+  return { condition: `COALESCE(sessions.turn_count, 0) ${operator} ?`, params: [Number(count)] };
+};
+
+// SQL conditions (to be ANDed) for the qualifiers. `roleColumn` names the FTS role column in the caller's query;
+// with `rolesOnly` the session-level qualifiers are skipped (for queries already scoped to one session).
+export const buildQualifierConditions = (
+  qualifiers: SearchQualifier[],
+  options: { roleColumn: string; rolesOnly?: boolean },
+) => {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  const keys = Array.from(new Set(qualifiers.map((qualifier) => qualifier.key)));
+  for (const key of keys) {
+    if (options.rolesOnly && key !== 'role') continue;
+    const values = Array.from(
+      new Set(qualifiers.filter((qualifier) => qualifier.key === key).map((qualifier) => qualifier.value)),
+    );
+    const parts = values.map((value) => valueCondition(key, value, options.roleColumn));
+    const joiner = LIST_QUALIFIER_KEYS.includes(key) ? ' OR ' : ' AND ';
+    conditions.push(parts.length === 1 ? parts[0].condition : `(${parts.map((part) => part.condition).join(joiner)})`);
+    for (const part of parts) params.push(...part.params);
+  }
+  return { conditions, params };
+};
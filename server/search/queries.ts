@@ -1,7 +1,11 @@
 import { performance } from 'node:perf_hooks';
 import type Database from 'better-sqlite3';
 import type {
+  MessageSearchResponse,
+  MessageSearchResult,
   SearchGroupSort,
+  SearchMatchMode,
+  SearchQualifier,
   SearchResponse,
   SearchResultSort,
   SessionMatchesResponse,
@@ -9,8 +13,13 @@ import type {
   WorkspaceSearchGroup,
 } from '../../shared/apiTypes';
 import { logDebug, logSearchDebug } from '../logging';
+import { buildSettingsConditions, type SessionSettingsFilters } from '../sessionSettings';
 import { extractGithubSlug, type WorkspaceSummary } from '../workspaces';
 import { normalizeFtsQuery } from './normalize';
+import { buildQualifierConditions, resolveQueryQualifiers } from './qualifiers';
+import { parseLeadingQualifiers } from './queryParser';
+import { mergeRegexMatches, parseRegexQuery, type RegexSearchQuery } from './regex';
+import { runRegexQuery } from './regexRunner';
 
 type SearchResultRow = SessionSearchResult;
 
@@ -26,6 +35,11 @@ export type SearchQueryResult = {
   timings: SearchTimings;
 };
 
+export type MessageSearchQueryResult = {
+  response: MessageSearchResponse;
+  timings: SearchTimings;
+};
+
 export type SessionMatchTimings = {
   normalizeMs: number;
   queryMs: number;
@@ -37,22 +51,134 @@ export type SessionMatchResult = {
   timings: SessionMatchTimings;
 };
 
+// Word mode queries the porter index, literal mode the trigram index; both have the same columns.
+const getFtsTable = (match: SearchMatchMode = 'word') => (match === 'literal' ? 'messages_trigram' : 'messages_fts');
+
+// snippet() counts index tokens: words for the porter index, but single characters for the trigram one (64 is the
+// FTS5 maximum).
+const getSnippetSql = (match: SearchMatchMode = 'word') =>
+  `snippet(${getFtsTable(match)}, 0, '[[', ']]', '…', ${match === 'literal' ? 64 : 18})`;
+
+// Parses the query for its mode: FTS modes give a MATCH expression, regex mode a pattern (logged as `normalized`).
+const resolveQuery = (query: string, match: SearchMatchMode = 'word') => {
+  if (match !== 'regex') return { ...normalizeFtsQuery(query, match), regex: null };
+  const leading = parseLeadingQualifiers(query);
+  const qualifiers = resolveQueryQualifiers(leading.qualifiers);
+  const regex = parseRegexQuery(query.slice(leading.offset), leading.offset);
+  return { normalized: regex?.pattern ?? null, tokens: [] as string[], truncated: false, qualifiers, regex };
+};
+
+// Where the matching messages come from: an FTS MATCH, or a REGEXP scan of `messages` that the trigram index narrows
+// down when the pattern has substrings every match contains. Either way `messages` and `sessions` can be joined on.
+// `snippet` sits in the SELECT list, so its params are bound before the `where` ones.
+const getMatchSource = (match: SearchMatchMode = 'word', normalized: string, regex: RegexSearchQuery | null) => {
+  if (regex) {
+    const from = regex.prefilter
+      ? 'messages_trigram JOIN messages ON messages_trigram.rowid = messages.id'
+      : 'messages';
+    return {
+      from,
+      where: `${regex.prefilter ? 'messages_trigram MATCH ? AND ' : ''}messages.content REGEXP ?`,
+      whereParams: regex.prefilter ? [regex.prefilter, regex.pattern] : [regex.pattern],
+      // No relevance ranking for regex matches: relevance order falls back to the tie-breakers.
+      score: '0',
+      snippet: 'regexp_snippet(?, messages.content)',
+      snippetParams: [regex.pattern],
+    };
+  }
+  const ftsTable = getFtsTable(match);
+  return {
+    from: `${ftsTable} JOIN messages ON ${ftsTable}.rowid = messages.id`,
+    where: `${ftsTable} MATCH ?`,
+    whereParams: [normalized],
+    score: `bm25(${ftsTable})`,
+    snippet: getSnippetSql(match),
+    snippetParams: [] as string[],
+  };
+};
+
+// Regex queries call functions only the regex worker's connection has, and run there under its time budget.
+const runMatchQuery = async <T>(
+  database: Database.Database,
+  regex: RegexSearchQuery | null,
+  sql: string,
+  params: Array<string | number>,
+) => (regex ? runRegexQuery<T>(database.name, sql, params) : (database.prepare(sql).all(...params) as T[]));
+
+type MatchFilterOptions = {
+  workspace?: string | null;
+  // Only sessions with at least one interrupted turn.
+  abortedOnly?: boolean;
+  settings?: SessionSettingsFilters;
+  qualifiers: SearchQualifier[];
+};
+
+// Conditions on the matching messages (joined to their session), shared by both result modes.
+const buildMatchFilters = ({ workspace, abortedOnly, settings, qualifiers }: MatchFilterOptions) => {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (workspace) {
+    conditions.push('sessions.cwd = ?');
+    params.push(workspace);
+  }
+  if (abortedOnly) conditions.push('sessions.aborted_turn_count > 0');
+  const settingsConditions = buildSettingsConditions(settings ?? {});
+  const qualifierConditions = buildQualifierConditions(qualifiers, { roleColumn: 'messages.role' });
+  conditions.push(...settingsConditions.conditions, ...qualifierConditions.conditions);
+  params.push(...settingsConditions.params, ...qualifierConditions.params);
+  return { sql: conditions.map((condition) => `AND ${condition}`).join('\n        '), params };
+};
+
 type SearchSessionsOptions = {
   query: string;
+  match?: SearchMatchMode;
   limit: number;
   workspace?: string | null;
+  // Only sessions with at least one interrupted turn.
+  abortedOnly?: boolean;
+  settings?: SessionSettingsFilters;
+  // Qualifiers from URL params, applied along with the ones in `query`.
+  qualifiers?: SearchQualifier[];
   requestId?: string | null;
   resultSort: SearchResultSort;
   groupSort: SearchGroupSort;
   getWorkspaceSummaries: (database: Database.Database, workspaces?: string[]) => WorkspaceSummary[];
+  // Root id -> label from config; labels are not stored in the DB so renames apply without a reindex.
+  rootLabels?: Map<string, string>;
 };
 
-export const searchSessions = (database: Database.Database, options: SearchSessionsOptions): SearchQueryResult => {
-  const { query, limit, workspace, requestId, resultSort, groupSort, getWorkspaceSummaries } = options;
+export const searchSessions = async (
+  database: Database.Database,
+  options: SearchSessionsOptions,
+): Promise<SearchQueryResult> => {
+  const {
+    query,
+    match,
+    limit,
+    workspace,
+    abortedOnly,
+    settings,
+    requestId,
+    resultSort,
+    groupSort,
+    getWorkspaceSummaries,
+    rootLabels,
+  } = options;
   const totalStart = performance.now();
-  logSearchDebug('search:request', { requestId, q: query, limit, workspace, resultSort, groupSort });
+  logSearchDebug('search:request', {
+    requestId,
+    q: query,
+    match,
+    limit,
+    workspace,
+    abortedOnly,
+    settings,
+    resultSort,
+    groupSort,
+  });
   const normalizeStart = performance.now();
-  const normalized = normalizeFtsQuery(query);
+  const normalized = resolveQuery(query, match);
+  const qualifiers = [...normalized.qualifiers, ...(options.qualifiers ?? [])];
   const normalizeMs = performance.now() - normalizeStart;
   if (!normalized.normalized) {
     logSearchDebug('search:normalized:empty', {
@@ -60,12 +186,13 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
       q: query,
       tokens: normalized.tokens,
       truncated: normalized.truncated,
+      qualifiers,
       resultSort,
       groupSort,
     });
     const totalMs = performance.now() - totalStart;
     return {
-      response: { groups: [], tokens: normalized.tokens },
+      response: { groups: [], tokens: normalized.tokens, qualifiers },
       timings: { normalizeMs, queryMs: 0, groupMs: 0, totalMs },
     };
   }
@@ -75,15 +202,14 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
     normalized: normalized.normalized,
     tokens: normalized.tokens,
     truncated: normalized.truncated,
+    qualifiers,
     resultSort,
     groupSort,
     bm25_note: 'lower score means more relevant',
   });
-  const params: Array<string | number> = [normalized.normalized];
-  const workspaceFilter = workspace ? 'AND sessions.cwd = ?' : '';
-  if (workspace) {
-    params.push(workspace);
-  }
+  const source = getMatchSource(match, normalized.normalized, normalized.regex);
+  const filters = buildMatchFilters({ workspace, abortedOnly, settings, qualifiers });
+  const params: Array<string | number> = [...source.snippetParams, ...source.whereParams, ...filters.params];
   params.push(Number.isFinite(limit) ? limit : 20);
   const orderBy =
     resultSort === 'matches'
@@ -92,19 +218,18 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
         ? 'sessions.timestamp DESC, aggregated.best_score ASC, sessions.id ASC'
         : 'aggregated.best_score ASC, sessions.timestamp DESC, sessions.id ASC';
   try {
-    const stmt = database.prepare(`
+    const sql = `
       WITH matches AS (
         SELECT
-          messages_fts.session_id AS session_id,
-          messages_fts.turn_id AS turn_id,
-          bm25(messages_fts) AS score,
-          snippet(messages_fts, 0, '[[', ']]', '…', 18) AS snippet
-        FROM messages_fts
-        JOIN messages ON messages_fts.rowid = messages.id
-        JOIN sessions ON sessions.id = messages_fts.session_id
+          messages.session_id AS session_id,
+          messages.turn_id AS turn_id,
+          ${source.score} AS score,
+          ${source.snippet} AS snippet
+        FROM ${source.from}
+        JOIN sessions ON sessions.id = messages.session_id
         -- Intentionally exclude preamble (turn_id <= 0) to keep search + match navigation consistent.
-        WHERE messages_fts MATCH ? AND messages_fts.turn_id > 0
-        ${workspaceFilter}
+        WHERE ${source.where} AND messages.turn_id > 0
+        ${filters.sql}
       ),
       ranked AS (
         SELECT
@@ -132,6 +257,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
       SELECT
         sessions.id AS session_path,
         sessions.session_id AS session_id,
+        sessions.root AS root,
         sessions.first_user_message AS first_user_message,
         sessions.timestamp AS session_timestamp,
         sessions.cwd AS cwd,
@@ -142,6 +268,13 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
         sessions.started_at AS started_at,
         sessions.ended_at AS ended_at,
         sessions.active_duration_ms AS active_duration_ms,
+        sessions.input_tokens AS input_tokens,
+        sessions.cached_input_tokens AS cached_input_tokens,
+        sessions.output_tokens AS output_tokens,
+        sessions.reasoning_output_tokens AS reasoning_output_tokens,
+        sessions.total_tokens AS total_tokens,
+        sessions.peak_context_percent AS peak_context_percent,
+        sessions.context_window AS context_window,
         aggregated.match_message_count AS match_message_count,
         aggregated.match_turn_count AS match_turn_count,
         aggregated.first_match_turn_id AS first_match_turn_id,
@@ -150,9 +283,9 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
       JOIN sessions ON sessions.id = aggregated.session_id
       ORDER BY ${orderBy}
       LIMIT ?
-    `);
+    `;
     const queryStart = performance.now();
-    const results = stmt.all(...params) as SearchResultRow[];
+    const results = await runMatchQuery<SearchResultRow>(database, normalized.regex, sql, params);
     const queryMs = performance.now() - queryStart;
     if (results.length === 0) {
       const totalMs = performance.now() - totalStart;
@@ -165,7 +298,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
         limit,
         resultSort,
         groupSort,
-        workspaceFilter,
+        filters: filters.sql,
         orderBy,
         params,
         resultCount: 0,
@@ -176,7 +309,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
         durationMs: Number(totalMs.toFixed(2)),
       });
       return {
-        response: { groups: [], tokens: normalized.tokens },
+        response: { groups: [], tokens: normalized.tokens, qualifiers },
         timings: { normalizeMs, queryMs, groupMs: 0, totalMs },
       };
     }
@@ -189,6 +322,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
     const groupsMap = new Map<string, WorkspaceSearchGroup>();
 
     for (const result of results) {
+      result.root_label = (result.root && rootLabels?.get(result.root)) || result.root || null;
       const workspaceKey = result.cwd || 'Unknown workspace';
       const summary = summaryMap.get(workspaceKey);
       const workspaceSummary = summary
@@ -201,6 +335,8 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
             git_repo: result.git_repo ?? null,
             git_commit_hash: result.git_commit_hash ?? null,
             github_slug: extractGithubSlug(result.git_repo ?? undefined),
+            top_model: null,
+            top_model_turn_count: 0,
           };
       const group = groupsMap.get(workspaceKey) ?? {
         workspace: workspaceSummary,
@@ -253,7 +389,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
       limit,
       resultSort,
       groupSort,
-      workspaceFilter,
+      filters: filters.sql,
       orderBy,
       params,
       resultCount: results.length,
@@ -265,7 +401,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
     });
 
     return {
-      response: { groups, tokens: normalized.tokens },
+      response: { groups, tokens: normalized.tokens, qualifiers },
       timings: { normalizeMs, queryMs, groupMs, totalMs },
     };
   } catch (error) {
@@ -278,7 +414,7 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
       limit,
       resultSort,
       groupSort,
-      workspaceFilter,
+      filters: filters.sql,
       orderBy,
       params,
       error,
@@ -287,6 +423,147 @@ export const searchSessions = (database: Database.Database, options: SearchSessi
   }
 };
 
+// Per-message mode orders by bm25 or by message time; either way the message id breaks ties for the cursor.
+export type MessageSearchSort = 'relevance' | 'recent';
+
+type MessageSearchCursor = { sort: MessageSearchSort; key: number | string; id: number };
+
+const encodeMessageCursor = (cursor: MessageSearchCursor) =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString('base64url');
+
+// Returns null for a malformed cursor or one issued for another sort order.
+export const decodeMessageCursor = (raw: string, sort: MessageSearchSort): MessageSearchCursor | null => {
+  try {
+    const [cursorSort, key, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    const validKey = cursorSort === 'relevance' ? typeof key === 'number' : typeof key === 'string';
+    if (cursorSort !== sort || !validKey || !Number.isInteger(id)) return null;
+    return { sort, key, id };
+  } catch {
+    return null;
+  }
+};
+
+type SearchMessagesOptions = MatchFilterOptions & {
+  query: string;
+  match?: SearchMatchMode;
+  limit: number;
+  sort: MessageSearchSort;
+  cursor?: MessageSearchCursor | null;
+  requestId?: string | null;
+  rootLabels?: Map<string, string>;
+};
+
+type MessageSearchRow = Omit<MessageSearchResult, 'root_label'> & { score: number; sort_time: string };
+
+// Lists every matching message (not one row per session), a page at a time. Pages are keyed on the last row's sort
+// value and id, so they stay stable while the client scrolls; bm25 scores can shift if the index changes meanwhile.
+export const searchMessages = async (
+  database: Database.Database,
+  options: SearchMessagesOptions,
+): Promise<MessageSearchQueryResult> => {
+  const { query, match, limit, sort, cursor, requestId, rootLabels } = options;
+  const totalStart = performance.now();
+  const normalized = resolveQuery(query, match);
+  const qualifiers = [...normalized.qualifiers, ...options.qualifiers];
+  const normalizeMs = performance.now() - totalStart;
+  logSearchDebug('search-messages:request', {
+    requestId,
+    q: query,
+    match,
+    normalized: normalized.normalized,
+    tokens: normalized.tokens,
+    qualifiers,
+    sort,
+    cursor,
+    limit,
+  });
+  if (!normalized.normalized) {
+    return {
+      response: { results: [], tokens: normalized.tokens, qualifiers, nextCursor: null },
+      timings: { normalizeMs, queryMs: 0, groupMs: 0, totalMs: performance.now() - totalStart },
+    };
+  }
+  const source = getMatchSource(match, normalized.normalized, normalized.regex);
+  const filters = buildMatchFilters({ ...options, qualifiers });
+  const params: Array<string | number> = [...source.snippetParams, ...source.whereParams, ...filters.params];
+  const keyColumn = sort === 'recent' ? 'sort_time' : 'score';
+  const direction = sort === 'recent' ? 'DESC' : 'ASC';
+  let cursorFilter = '';
+  if (cursor) {
+    const comparison = sort === 'recent' ? '<' : '>';
+    cursorFilter = `WHERE (${keyColumn} ${comparison} ? OR (${keyColumn} = ? AND message_id ${comparison} ?))`;
+    params.push(cursor.key, cursor.key, cursor.id);
+  }
+  // One extra row tells whether another page exists.
+  params.push(limit + 1);
+  try {
+    const queryStart = performance.now();
+    const sql = `
+          SELECT * FROM (
+            SELECT
+              messages.id AS message_id,
+              sessions.id AS session_path,
+              sessions.session_id AS session_id,
+              sessions.root AS root,
+              messages.turn_id AS turn_id,
+              messages.role AS role,
+              messages.timestamp AS timestamp,
+              COALESCE(messages.timestamp, '') AS sort_time,
+              ${source.score} AS score,
+              ${source.snippet} AS snippet,
+              sessions.cwd AS cwd,
+              sessions.git_branch AS git_branch,
+              sessions.first_user_message AS first_user_message
+            FROM ${source.from}
+            JOIN sessions ON sessions.id = messages.session_id
+            -- Same preamble exclusion as session results and match navigation.
+            WHERE ${source.where} AND messages.turn_id > 0
+            ${filters.sql}
+          )
+          ${cursorFilter}
+          ORDER BY ${keyColumn} ${direction}, message_id ${direction}
+          LIMIT ?
+        `;
+    const rows = await runMatchQuery<MessageSearchRow>(database, normalized.regex, sql, params);
+    const queryMs = performance.now() - queryStart;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? encodeMessageCursor({ sort, key: sort === 'recent' ? last.sort_time : last.score, id: last.message_id })
+        : null;
+    const results: MessageSearchResult[] = page.map(({ score: _score, sort_time: _sortTime, ...row }) => ({
+      ...row,
+      root_label: (row.root && rootLabels?.get(row.root)) || row.root || null,
+    }));
+    const totalMs = performance.now() - totalStart;
+    logSearchDebug('search-messages:results', {
+      requestId,
+      q: query,
+      normalized: normalized.normalized,
+      filters: filters.sql,
+      params,
+      resultCount: results.length,
+      hasMore: Boolean(nextCursor),
+      durationMs: Number(totalMs.toFixed(2)),
+    });
+    return {
+      response: { results, tokens: normalized.tokens, qualifiers, nextCursor },
+      timings: { normalizeMs, queryMs, groupMs: 0, totalMs },
+    };
+  } catch (error) {
+    logSearchDebug('search-messages:error', {
+      requestId,
+      q: query,
+      normalized: normalized.normalized,
+      filters: filters.sql,
+      params,
+      error,
+    });
+    throw error;
+  }
+};
+
 type ResolveSessionOptions = {
   id: string;
   workspace?: string | null;
@@ -347,19 +624,24 @@ export const resolveSession = (database: Database.Database, options: ResolveSess
 type SessionMatchesOptions = {
   session: string;
   query: string;
+  match?: SearchMatchMode;
   requestId?: string | null;
 };
 
-export const sessionMatches = (database: Database.Database, options: SessionMatchesOptions): SessionMatchResult => {
-  const { session, query, requestId } = options;
+export const sessionMatches = async (
+  database: Database.Database,
+  options: SessionMatchesOptions,
+): Promise<SessionMatchResult> => {
+  const { session, query, match, requestId } = options;
   const totalStart = performance.now();
   const normalizeStart = performance.now();
-  const normalized = normalizeFtsQuery(query);
+  const normalized = resolveQuery(query, match);
   const normalizeMs = performance.now() - normalizeStart;
   logSearchDebug('session-matches:request', {
     requestId,
     session,
     q: query,
+    match,
     normalized: normalized.normalized,
     tokens: normalized.tokens,
     truncated: normalized.truncated,
@@ -371,34 +653,50 @@ export const sessionMatches = (database: Database.Database, options: SessionMatc
       timings: { normalizeMs, queryMs: 0, totalMs },
     };
   }
+  // Session-level qualifiers already held for the session to be listed; only `role:` narrows its matches.
+  const roleConditions = buildQualifierConditions(normalized.qualifiers, {
+    roleColumn: 'messages.role',
+    rolesOnly: true,
+  });
+  const roleFilter = roleConditions.conditions.map((condition) => `AND ${condition}`).join(' ');
+  const { regex } = normalized;
+  const source = getMatchSource(match, normalized.normalized, regex);
   try {
     const queryStart = performance.now();
-    const rows = database
-      .prepare(
-        `
-          SELECT DISTINCT turn_id AS turn_id
-          FROM messages_fts
-          -- Keep match navigation aligned with search results by excluding preamble entries.
-          WHERE messages_fts MATCH ? AND session_id = ? AND turn_id > 0
-          ORDER BY turn_id ASC
-        `,
-      )
-      .all(normalized.normalized, session) as Array<{ turn_id: number | null }>;
+    // Regex matches have no FTS tokens; the matched strings are highlighted instead.
+    const sql = `
+        SELECT DISTINCT messages.turn_id AS turn_id${regex ? ', regexp_matches(?, messages.content) AS matches' : ''}
+        FROM ${source.from}
+        -- Keep match navigation aligned with search results by excluding preamble entries.
+        WHERE ${source.where} AND messages.session_id = ? AND messages.turn_id > 0 ${roleFilter}
+        ORDER BY messages.turn_id ASC
+      `;
+    const rows = await runMatchQuery<{ turn_id: number | null; matches?: string | null }>(database, regex, sql, [
+      ...(regex ? [regex.pattern] : []),
+      ...source.whereParams,
+      session,
+      ...roleConditions.params,
+    ]);
+    const tokens = regex ? mergeRegexMatches(rows.map((row) => row.matches ?? null)) : normalized.tokens;
     const queryMs = performance.now() - queryStart;
-    const turnIds = rows
-      .map((row) => row.turn_id)
-      .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+    const turnIds = Array.from(
+      new Set(
+        rows
+          .map((row) => row.turn_id)
+          .filter((value): value is number => typeof value === 'number' && Number.isFinite(value)),
+      ),
+    );
     const totalMs = performance.now() - totalStart;
     logSearchDebug('session-matches:results', {
       requestId,
       session,
       q: query,
       normalized: normalized.normalized,
-      tokens: normalized.tokens,
+      tokens,
       turnCount: turnIds.length,
     });
     return {
-      response: { session, tokens: normalized.tokens, turn_ids: turnIds },
+      response: { session, tokens, turn_ids: turnIds },
       timings: { normalizeMs, queryMs, totalMs },
     };
   } catch (error) {
@@ -0,0 +1,223 @@
+import type { SearchQualifierKey, SearchSyntaxError } from '../../shared/apiTypes';
+
+// Search query syntax: words are ANDed, `"exact phrase"`, `a OR b`, `-term` / `NOT term`, `prefix*` and parentheses.
+// Operators are upper-case only, so `or` and `not` stay ordinary words. `key:value` qualifiers (lower-case keys)
+// filter the whole query and are returned apart from the tree. In literal mode (substring search) `-`, `*` and
+// parentheses are ordinary characters, so only quotes, `OR`, `NOT` and qualifiers remain syntax.
+export type SearchQueryNode =
+  // A bare word or a quoted phrase; `prefix` marks a trailing `*`.
+  | { type: 'text'; text: string; quoted: boolean; prefix: boolean; position: number }
+  | { type: 'and'; children: SearchQueryNode[] }
+  | { type: 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode; position: number };
+
+// A qualifier as written; its value is validated by the search module.
+export type ParsedQualifier = { key: SearchQualifierKey; value: string; position: number; length: number };
+
+export type ParsedSearchQuery = { root: SearchQueryNode | null; qualifiers: ParsedQualifier[] };
+
+type QueryToken =
+  | { kind: 'text'; text: string; quoted: boolean; prefix: boolean; position: number }
+  | ({ kind: 'qualifier' } & ParsedQualifier)
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'open' | 'close'; position: number };
+
+export type SearchQuerySyntaxError = Error & { syntax: SearchSyntaxError };
+
+export const createSearchSyntaxError = (message: string, position: number): SearchQuerySyntaxError =>
+  Object.assign(new Error(message), { syntax: { message, position } });
+
+export const isSearchSyntaxError = (error: unknown): error is SearchQuerySyntaxError =>
+  error instanceof Error && 'syntax' in error;
+
+const OPERATOR_WORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+const WORD_END_REGEX = /[\s()"]/;
+const LITERAL_WORD_END_REGEX = /[\s"]/;
+const QUALIFIER_REGEX = /^(role|workspace|branch|repo|after|before|turns):/;
+// A whole qualifier (`key:value` or `key:"a value"`) followed by whitespace or the end of the query.
+const LEADING_QUALIFIER_REGEX = new RegExp(`${QUALIFIER_REGEX.source}("[^"]*"|[^\\s"]+)(?:\\s+|$)`);
+
+const tokenize = (query: string, literal: boolean) => {
+  const tokens: QueryToken[] = [];
+  const wordEndRegex = literal ? LITERAL_WORD_END_REGEX : WORD_END_REGEX;
+  let index = 0;
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (!literal && (char === '(' || char === ')')) {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: index });
+      index += 1;
+    } else if (char === '"') {
+      const end = query.indexOf('"', index + 1);
+      if (end === -1) throw createSearchSyntaxError('Unclosed quote.', index);
+      const prefix = !literal && query[end + 1] === '*';
+      tokens.push({ kind: 'text', text: query.slice(index + 1, end), quoted: true, prefix, position: index });
+      index = end + (prefix ? 2 : 1);
+    } else if (!literal && char === '-' && index + 1 < query.length && !/[\s)]/.test(query[index + 1])) {
+      // Only a leading `-` negates; one inside a word (`foo-bar`) is punctuation.
+      tokens.push({ kind: 'minus', position: index });
+      index += 1;
+    } else if (QUALIFIER_REGEX.test(query.slice(index))) {
+      const key = query.slice(index, query.indexOf(':', index)) as SearchQualifierKey;
+      const valueStart = index + key.length + 1;
+      let end = valueStart;
+      let value: string;
+      if (query[valueStart] === '"') {
+        end = query.indexOf('"', valueStart + 1);
+        if (end === -1) throw createSearchSyntaxError('Unclosed quote.', valueStart);
+        value = query.slice(valueStart + 1, end);
+        end += 1;
+      } else {
+        while (end < query.length && !wordEndRegex.test(query[end])) end += 1;
+        value = query.slice(valueStart, end);
+      }
+      if (!value.trim()) throw createSearchSyntaxError(`Expected a value after ${key}:.`, index);
+      tokens.push({ kind: 'qualifier', key, value: value.trim(), position: index, length: end - index });
+      index = end;
+    } else {
+      let end = index;
+      while (end < query.length && !wordEndRegex.test(query[end])) end += 1;
+      const word = query.slice(index, end);
+      const operator = OPERATOR_WORDS[word];
+      if (operator) {
+        tokens.push({ kind: operator, position: index });
+      } else if (literal) {
+        tokens.push({ kind: 'text', text: word, quoted: false, prefix: false, position: index });
+      } else {
+        const prefix = word.endsWith('*');
+        tokens.push({ kind: 'text', text: word.replace(/\*+$/, ''), quoted: false, prefix, position: index });
+      }
+      index = end;
+    }
+  }
+  return tokens;
+};
+
+// Parses a search box query into a tree plus its qualifiers; throws a SearchQuerySyntaxError (message + offset) on
+// malformed input. The tree is null for a blank or qualifier-only query. Qualifiers must sit at the top level: they
+// cannot be negated, grouped or used as an OR alternative.
+export const parseSearchQuery = (query: string, options: { literal?: boolean } = {}): ParsedSearchQuery => {
+  const tokens = tokenize(query, Boolean(options.literal));
+  const qualifiers: ParsedQualifier[] = [];
+  let cursor = 0;
+  let depth = 0;
+  const peek = () => tokens[cursor];
+  const endPosition = () => peek()?.position ?? query.length;
+  const atGroupEnd = () => !peek() || peek().kind === 'close' || peek().kind === 'or';
+
+  const parseOr = (): SearchQueryNode | null => {
+    const firstQualifier = qualifiers.length;
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[cursor];
+      cursor += 1;
+      if (atGroupEnd()) throw createSearchSyntaxError('Expected a term after OR.', operator.position);
+      children.push(parseAnd());
+    }
+    if (children.length > 1 && qualifiers.length > firstQualifier) {
+      throw createSearchSyntaxError(
+        'A qualifier cannot be an OR alternative; put the OR in parentheses.',
+        qualifiers[firstQualifier].position,
+      );
+    }
+    const terms = children.filter((child): child is SearchQueryNode => child !== null);
+    if (!terms.length) return null;
+    return terms.length === 1 ? terms[0] : { type: 'or', children: terms };
+  };
+
+  const parseAnd = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    let itemCount = 0;
+    while (!atGroupEnd()) {
+      const token = tokens[cursor];
+      if (token.kind === 'and') {
+        cursor += 1;
+        if (!itemCount) throw createSearchSyntaxError('Expected a term before AND.', token.position);
+        if (atGroupEnd()) throw createSearchSyntaxError('Expected a term after AND.', token.position);
+        continue;
+      }
+      itemCount += 1;
+      if (token.kind === 'qualifier') {
+        if (depth > 0) {
+          throw createSearchSyntaxError('Qualifiers apply to the whole query and cannot be grouped.', token.position);
+        }
+        cursor += 1;
+        const { key, value, position, length } = token;
+        qualifiers.push({ key, value, position, length });
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    if (!itemCount) {
+      const token = peek();
+      const message =
+        token?.kind === 'or' ? 'Expected a term before OR.' : token ? "Unexpected ')'." : 'Expected a search term.';
+      throw createSearchSyntaxError(message, endPosition());
+    }
+    if (!children.length) return null;
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchQueryNode => {
+    const token = tokens[cursor];
+    if (token.kind !== 'minus' && token.kind !== 'not') return parsePrimary();
+    cursor += 1;
+    if (atGroupEnd() || peek().kind === 'and') {
+      throw createSearchSyntaxError(`Expected a term after ${token.kind === 'not' ? 'NOT' : '-'}.`, token.position);
+    }
+    if (peek().kind === 'qualifier') throw createSearchSyntaxError('A qualifier cannot be negated.', token.position);
+    return { type: 'not', child: parseUnary(), position: token.position };
+  };
+
+  const parsePrimary = (): SearchQueryNode => {
+    const token = tokens[cursor];
+    cursor += 1;
+    if (token.kind === 'text') {
+      const { text, quoted, prefix, position } = token;
+      return { type: 'text', text, quoted, prefix, position };
+    }
+    if (token.kind === 'open') {
+      if (!peek()) throw createSearchSyntaxError('Missing closing parenthesis.', token.position);
+      if (peek().kind === 'close') throw createSearchSyntaxError('Empty parentheses.', token.position);
+      depth += 1;
+      const node = parseOr();
+      depth -= 1;
+      if (peek()?.kind !== 'close') throw createSearchSyntaxError('Missing closing parenthesis.', token.position);
+      cursor += 1;
+      // Unreachable in practice: a group holding only qualifiers is rejected above.
+      if (!node) throw createSearchSyntaxError('Empty parentheses.', token.position);
+      return node;
+    }
+    // `and`/`or`/`close` never reach here: parseAnd stops or reports them first.
+    throw createSearchSyntaxError('Unexpected token.', token.position);
+  };
+
+  if (!tokens.length) return { root: null, qualifiers };
+  const root = parseOr();
+  const rest = peek();
+  if (rest)
+    throw createSearchSyntaxError(rest.kind === 'close' ? "Unexpected ')'." : 'Unexpected token.', rest.position);
+  return { root, qualifiers };
+};
+
+// Regex mode takes the rest of `q` verbatim, so only qualifiers in front of the pattern are taken out: in
+// `role:user foo.*bar` the qualifier filters, in `foo role:user` the whole text is the pattern. Returns them with the
+// offset the pattern starts at.
+export const parseLeadingQualifiers = (query: string) => {
+  const qualifiers: ParsedQualifier[] = [];
+  let offset = query.length - query.trimStart().length;
+  let match = LEADING_QUALIFIER_REGEX.exec(query.slice(offset));
+  while (match) {
+    const [text, key, rawValue] = match;
+    const value = rawValue.startsWith('"') ? rawValue.slice(1, -1) : rawValue;
+    qualifiers.push({
+      key: key as SearchQualifierKey,
+      value: value.trim(),
+      position: offset,
+      length: key.length + 1 + rawValue.length,
+    });
+    offset += text.length;
+    match = LEADING_QUALIFIER_REGEX.exec(query.slice(offset));
+  }
+  return { qualifiers, offset };
+};
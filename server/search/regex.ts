@@ -0,0 +1,231 @@
+import type Database from 'better-sqlite3';
+import { createSearchSyntaxError } from './queryParser';
+
+// Regex search (`mode=regex`): `q` is a JavaScript regular expression, bare or as `/source/flags`. SQLite has no
+// REGEXP implementation of its own, so the functions below are registered on a separate connection in the regex
+// worker. A backtracking pattern can spend unbounded time inside one RegExp call, which nothing on the same thread can
+// interrupt, so these never run on the server's main thread: regexRunner.ts terminates the worker when the budget ends.
+
+const MAX_PATTERN_LENGTH = 256;
+const ALLOWED_FLAGS = 'imsu';
+// Substrings every match must contain need three characters to be looked up in the trigram index.
+const MIN_PREFILTER_LITERAL_LENGTH = 3;
+const SNIPPET_CONTEXT_CHARS = 60;
+const MAX_CACHED_PATTERNS = 32;
+const MAX_MATCH_TOKENS = 100;
+
+export type RegexSearchQuery = {
+  // `/source/flags`, the argument passed to the SQL functions.
+  pattern: string;
+  // Trigram MATCH expression for substrings every match contains; null when none can be derived.
+  prefilter: string | null;
+};
+
+type RegexAtom =
+  | { kind: 'literal'; char: string }
+  | { kind: 'other' }
+  | { kind: 'open' }
+  | { kind: 'close' }
+  | { kind: 'alternation' }
+  | { kind: 'quantifier'; min: number };
+
+const BOUNDED_QUANTIFIER_REGEX = /^\{(\d+)(,(\d*))?\}/;
+
+const skipBraced = (source: string, index: number, open: string, close: string) => {
+  if (source[index] !== open) return index;
+  const end = source.indexOf(close, index);
+  return end === -1 ? index : end + 1;
+};
+
+// Index just past the escape starting at `index` (the backslash), or the escaped character for a literal one.
+const readEscape = (source: string, index: number): { atom: RegexAtom; end: number } => {
+  const char = source[index + 1] ?? '';
+  const next = index + 2;
+  if (!/[0-9A-Za-z]/.test(char)) return { atom: { kind: 'literal', char }, end: next };
+  if (char === 'x') return { atom: { kind: 'other' }, end: next + 2 };
+  if (char === 'u')
+    return { atom: { kind: 'other' }, end: source[next] === '{' ? skipBraced(source, next, '{', '}') : next + 4 };
+  if (char === 'p' || char === 'P') return { atom: { kind: 'other' }, end: skipBraced(source, next, '{', '}') };
+  if (char === 'k') return { atom: { kind: 'other' }, end: skipBraced(source, next, '<', '>') };
+  if (char === 'c') return { atom: { kind: 'other' }, end: next + 1 };
+  if (/\d/.test(char)) {
+    let end = next;
+    while (/\d/.test(source[end] ?? '')) end += 1;
+    return { atom: { kind: 'other' }, end };
+  }
+  return { atom: { kind: 'other' }, end: next };
+};
+
+// Splits an already-compiled pattern into the pieces the checks below need; it does not validate anything.
+const scanRegexSource = (source: string) => {
+  const atoms: RegexAtom[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    const bounded = char === '{' ? BOUNDED_QUANTIFIER_REGEX.exec(source.slice(index)) : null;
+    if (char === '\\') {
+      const { atom, end } = readEscape(source, index);
+      atoms.push(atom);
+      index = end;
+    } else if (char === '[') {
+      let end = index + 1;
+      while (end < source.length && source[end] !== ']') end += source[end] === '\\' ? 2 : 1;
+      atoms.push({ kind: 'other' });
+      index = end + 1;
+    } else if (char === '(') {
+      atoms.push({ kind: 'open' });
+      index += 1;
+      if (source[index] === '?') {
+        // Group prefixes: `(?:`, `(?=`, `(?!`, `(?<=`, `(?<!` and `(?<name>`.
+        const prefix = /^\?(?::|=|!|<=|<!|<[^>]*>)/.exec(source.slice(index));
+        index += prefix ? prefix[0].length : 1;
+      }
+    } else if (char === ')') {
+      atoms.push({ kind: 'close' });
+      index += 1;
+    } else if (char === '|') {
+      atoms.push({ kind: 'alternation' });
+      index += 1;
+    } else if (char === '*' || char === '+' || char === '?') {
+      atoms.push({ kind: 'quantifier', min: char === '+' ? 1 : 0 });
+      index += source[index + 1] === '?' ? 2 : 1;
+    } else if (bounded) {
+      const [quantifier, min] = bounded;
+      atoms.push({ kind: 'quantifier', min: Number(min) });
+      index += quantifier.length;
+      if (source[index] === '?') index += 1;
+    } else if (char === '.' || char === '^' || char === '$') {
+      atoms.push({ kind: 'other' });
+      index += 1;
+    } else {
+      atoms.push({ kind: 'literal', char });
+      index += 1;
+    }
+  }
+  return atoms;
+};
+
+// Literal runs outside groups and classes that every match must contain; none when the top level has an alternation.
+const getRequiredLiterals = (atoms: RegexAtom[]) => {
+  const literals: string[] = [];
+  let run = '';
+  let depth = 0;
+  const flush = () => {
+    if (Array.from(run).length >= MIN_PREFILTER_LITERAL_LENGTH) literals.push(run);
+    run = '';
+  };
+  for (const atom of atoms) {
+    if (atom.kind === 'alternation' && depth === 0) return [];
+    if (atom.kind === 'open') depth += 1;
+    if (atom.kind === 'close') depth = Math.max(depth - 1, 0);
+    if (atom.kind === 'literal' && depth === 0) {
+      run += atom.char;
+    } else if (atom.kind === 'quantifier' && depth === 0) {
+      // The repeated character may be absent (`?`, `*`, `{0,n}`); either way the run ends here.
+      if (atom.min === 0) run = run.slice(0, -1);
+      flush();
+    } else if (atom.kind !== 'literal') {
+      flush();
+    }
+  }
+  flush();
+  return literals;
+};
+
+const quoteFtsString = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Parses the pattern part of `q` (starting at `offset`, after any qualifiers); throws a SearchQuerySyntaxError for an
+// invalid pattern. Null for a blank pattern.
+export const parseRegexQuery = (raw: string, offset = 0): RegexSearchQuery | null => {
+  if (!raw.trim()) return null;
+  const delimited = /^\/([\s\S]+)\/([A-Za-z]*)$/.exec(raw);
+  const source = delimited ? delimited[1] : raw;
+  const flags = delimited ? delimited[2] : '';
+  if (source.length > MAX_PATTERN_LENGTH) {
+    throw createSearchSyntaxError(`Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters.`, offset);
+  }
+  for (const [index, flag] of Array.from(flags).entries()) {
+    if (!ALLOWED_FLAGS.includes(flag) || flags.indexOf(flag) !== index) {
+      throw createSearchSyntaxError(
+        `Unsupported regex flag '${flag}'; use i, m, s or u.`,
+        offset + raw.length - flags.length + index,
+      );
+    }
+  }
+  try {
+    new RegExp(source, flags);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split(': ').pop() : null;
+    throw createSearchSyntaxError(`Invalid regular expression: ${message || 'syntax error'}.`, offset);
+  }
+  const literals = Array.from(new Set(getRequiredLiterals(scanRegexSource(source))));
+  return {
+    pattern: `/${source}/${flags}`,
+    prefilter: literals.length ? literals.map(quoteFtsString).join(' AND ') : null,
+  };
+};
+
+const compiledPatterns = new Map<string, RegExp>();
+
+const compilePattern = (pattern: string) => {
+  let regex = compiledPatterns.get(pattern);
+  if (regex) return regex;
+  const slash = pattern.lastIndexOf('/');
+  regex = new RegExp(pattern.slice(1, slash), pattern.slice(slash + 1));
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) compiledPatterns.clear();
+  compiledPatterns.set(pattern, regex);
+  return regex;
+};
+
+// Like the FTS snippet(): the first match marked with `[[`/`]]`, with some context and `…` where text was cut.
+const buildRegexSnippet = (regex: RegExp, content: string) => {
+  const match = regex.exec(content);
+  if (!match) return null;
+  const start = Math.max(match.index - SNIPPET_CONTEXT_CHARS, 0);
+  const end = Math.min(match.index + match[0].length + SNIPPET_CONTEXT_CHARS, content.length);
+  return [
+    start > 0 ? '…' : '',
+    content.slice(start, match.index),
+    `[[${match[0]}]]`,
+    content.slice(match.index + match[0].length, end),
+    end < content.length ? '…' : '',
+  ].join('');
+};
+
+const collectMatches = (regex: RegExp, content: string) => {
+  const matches = new Set<string>();
+  for (const match of content.matchAll(new RegExp(regex.source, `${regex.flags}g`))) {
+    if (match[0]) matches.add(match[0]);
+    if (matches.size >= MAX_MATCH_TOKENS) break;
+  }
+  return Array.from(matches);
+};
+
+// Registered by regexWorker.ts only. `X REGEXP Y` calls regexp(Y, X), so the pattern comes first.
+export const registerRegexFunctions = (database: Database.Database) => {
+  database.function('regexp', (pattern: unknown, value: unknown) => {
+    if (typeof pattern !== 'string' || typeof value !== 'string') return 0;
+    return compilePattern(pattern).test(value) ? 1 : 0;
+  });
+  database.function('regexp_snippet', (pattern: unknown, value: unknown) => {
+    if (typeof pattern !== 'string' || typeof value !== 'string') return null;
+    return buildRegexSnippet(compilePattern(pattern), value);
+  });
+  // JSON array of the distinct matched strings in one message; see mergeRegexMatches.
+  database.function('regexp_matches', (pattern: unknown, value: unknown) => {
+    if (typeof pattern !== 'string' || typeof value !== 'string') return '[]';
+    return JSON.stringify(collectMatches(compilePattern(pattern), value));
+  });
+};
+
+// Distinct matched strings across messages, for highlighting them in the session view like FTS tokens.
+export const mergeRegexMatches = (perMessage: Array<string | null>) => {
+  const matches = new Set<string>();
+  for (const json of perMessage) {
+    for (const match of JSON.parse(json ?? '[]') as string[]) {
+      matches.add(match);
+      if (matches.size >= MAX_MATCH_TOKENS) return Array.from(matches);
+    }
+  }
+  return Array.from(matches);
+};
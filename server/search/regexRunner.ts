@@ -0,0 +1,178 @@
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { logDebug } from '../logging';
+
+export interface RegexWorkerData {
+  dbPath: string;
+}
+
+export interface RegexQueryRequest {
+  id: number;
+  sql: string;
+  params: Array<string | number>;
+}
+
+export type RegexQueryResponse = { id: number; rows: unknown[] } | { id: number; error: string };
+
+// The worker posts `ready` once its connection is open, then one response per request.
+export type RegexWorkerMessage = { ready: true } | RegexQueryResponse;
+
+export type RegexBudgetError = Error & { regexBudgetExceeded: true };
+
+interface RegexWorker {
+  worker: Worker;
+  dbPath: string;
+  ready: Promise<void>;
+}
+
+const WORKER_ENTRY = fileURLToPath(new URL('./regexWorker.ts', import.meta.url));
+const REGEX_TIME_BUDGET_MS = 2000;
+const IDLE_SHUTDOWN_MS = 30_000;
+
+let current: RegexWorker | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let nextQueryId = 1;
+let idleTimer: NodeJS.Timeout | null = null;
+let workerSource: Promise<string> | null = null;
+
+export const isRegexBudgetError = (error: unknown): error is RegexBudgetError =>
+  error instanceof Error && 'regexBudgetExceeded' in error;
+
+const createRegexBudgetError = (): RegexBudgetError =>
+  Object.assign(
+    new Error(`Regex search took longer than ${REGEX_TIME_BUDGET_MS} ms; use a more specific pattern or add filters.`),
+    { regexBudgetExceeded: true as const },
+  );
+
+// Bundled like the parse pool's worker. better-sqlite3 is a native module, so it stays external and is required by
+// absolute path: an eval worker has no file of its own to resolve packages from.
+const loadWorkerSource = () => {
+  workerSource ??= (async () => {
+    const { build } = await import('esbuild');
+    const sqlitePath = createRequire(WORKER_ENTRY).resolve('better-sqlite3');
+    const result = await build({
+      entryPoints: [WORKER_ENTRY],
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      target: 'node20',
+      write: false,
+      logLevel: 'silent',
+      plugins: [
+        {
+          name: 'external-better-sqlite3',
+          setup: (pluginBuild) => {
+            pluginBuild.onResolve({ filter: /^better-sqlite3$/ }, () => ({ path: sqlitePath, external: true }));
+          },
+        },
+      ],
+    });
+    return result.outputFiles[0].text;
+  })();
+  // A failed bundle is retried on the next query instead of being cached.
+  workerSource.catch(() => {
+    workerSource = null;
+  });
+  return workerSource;
+};
+
+const stopWorker = () => {
+  if (!current) return;
+  void current.worker.terminate();
+  current = null;
+};
+
+const getWorker = (source: string, dbPath: string) => {
+  if (current?.dbPath === dbPath) return current;
+  stopWorker();
+  const workerData: RegexWorkerData = { dbPath };
+  const worker = new Worker(source, { eval: true, workerData });
+  worker.unref();
+  const ready = new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+    };
+    const onMessage = (message: RegexWorkerMessage) => {
+      if (!('ready' in message)) return;
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      if (current?.worker === worker) stopWorker();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      if (current?.worker === worker) current = null;
+      reject(new Error(`Regex worker exited with code ${code}.`));
+    };
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+  });
+  current = { worker, dbPath, ready };
+  return current;
+};
+
+const runQuery = async (dbPath: string, sql: string, params: Array<string | number>) => {
+  const source = await loadWorkerSource();
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  const { worker, ready } = getWorker(source, dbPath);
+  const id = nextQueryId++;
+  try {
+    // Starting the thread and opening the DB happen before the budget starts, so a cold start cannot use it up.
+    await ready;
+    return await new Promise<unknown[]>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+      };
+      const onMessage = (response: RegexWorkerMessage) => {
+        if (!('id' in response) || response.id !== id) return;
+        cleanup();
+        if ('error' in response) reject(new Error(response.error));
+        else resolve(response.rows);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        stopWorker();
+        reject(error);
+      };
+      const onExit = (code: number) => {
+        cleanup();
+        if (current?.worker === worker) current = null;
+        reject(new Error(`Regex worker exited with code ${code}.`));
+      };
+      // Terminating the worker is the only way to stop a RegExp call that is still backtracking.
+      const timer = setTimeout(() => {
+        cleanup();
+        logDebug('regex worker terminated after time budget', { sql });
+        stopWorker();
+        reject(createRegexBudgetError());
+      }, REGEX_TIME_BUDGET_MS);
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      const request: RegexQueryRequest = { id, sql, params };
+      worker.postMessage(request);
+    });
+  } finally {
+    idleTimer = setTimeout(stopWorker, IDLE_SHUTDOWN_MS);
+    idleTimer.unref();
+  }
+};
+
+// Runs a query that uses regexp(), regexp_snippet() or regexp_matches() on the regex worker's read-only connection
+// to `dbPath`, one query at a time. Rejects with a RegexBudgetError once the time budget is spent.
+export const runRegexQuery = <T>(dbPath: string, sql: string, params: Array<string | number>) => {
+  const run = queue.then(() => runQuery(dbPath, sql, params));
+  queue = run.catch(() => undefined);
+  return run as Promise<T[]>;
+};
@@ -0,0 +1,23 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import Database from 'better-sqlite3';
+import { registerRegexFunctions } from './regex';
+import type { RegexQueryRequest, RegexQueryResponse, RegexWorkerData, RegexWorkerMessage } from './regexRunner';
+
+// Entry point for the regex search worker; bundled by regexRunner.ts, never imported by the server itself. It reads
+// the index through its own connection, so only this thread is blocked while a pattern backtracks.
+const { dbPath } = workerData as RegexWorkerData;
+const database = new Database(dbPath, { readonly: true, fileMustExist: true });
+database.pragma('trusted_schema = ON');
+registerRegexFunctions(database);
+const ready: RegexWorkerMessage = { ready: true };
+parentPort?.postMessage(ready);
+
+parentPort?.on('message', (request: RegexQueryRequest) => {
+  let response: RegexQueryResponse;
+  try {
+    response = { id: request.id, rows: database.prepare(request.sql).all(...request.params) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,43 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import { pipeline, type Readable } from 'node:stream';
+import zlib from 'node:zlib';
+
+export type SessionCompression = 'gzip' | 'zstd';
+
+export const getSessionCompression = (filePath: string): SessionCompression | null => {
+  const lower = filePath.toLowerCase();
+  if (lower.endsWith('.jsonl.gz')) return 'gzip';
+  if (lower.endsWith('.jsonl.zst')) return 'zstd';
+  return null;
+};
+
+// zlib only ships zstd from Node 22.15 / 23.8; older runtimes report .zst files as unreadable instead of crashing.
+export const isZstdSupported = () => typeof zlib.createZstdDecompress === 'function';
+
+const createDecompressor = (compression: SessionCompression) => {
+  if (compression === 'gzip') return zlib.createGunzip();
+  if (!isZstdSupported()) {
+    throw new Error(`Reading .jsonl.zst sessions requires Node 22.15 or newer (running ${process.version}).`);
+  }
+  return zlib.createZstdDecompress();
+};
+
+// Streams decompressed session bytes. Byte ranges only apply to plain files: compressed archives are
+// never appended to, so callers always read them whole.
+export const openSessionStream = (filePath: string, range: { start?: number; end?: number } = {}): Readable => {
+  const compression = getSessionCompression(filePath);
+  if (!compression) return fs.createReadStream(filePath, range);
+  const decompressor = createDecompressor(compression);
+  // pipeline forwards read errors (ENOENT, EACCES, corrupt data) to the decompressor, so consumers see them.
+  return pipeline(fs.createReadStream(filePath), decompressor, () => {});
+};
+
+export const readSessionText = async (filePath: string) => {
+  if (!getSessionCompression(filePath)) return fsp.readFile(filePath, 'utf-8');
+  const chunks: Buffer[] = [];
+  for await (const chunk of openSessionStream(filePath) as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+};
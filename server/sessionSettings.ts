@@ -0,0 +1,48 @@
+// Filters on the model/policy settings captured from turn_context (`model`, `effort`, `approval`,
+// `sandbox` and `provider` query params on /api/sessions and /api/search).
+
+export type SessionSettingsFilters = {
+  model?: string | null;
+  reasoningEffort?: string | null;
+  approvalPolicy?: string | null;
+  sandboxMode?: string | null;
+  provider?: string | null;
+};
+
+// filter key -> [query param, sessions column holding the last value, turns column].
+const TURN_SETTING_FILTERS = [
+  ['model', 'model', 'last_model', 'model'],
+  ['reasoningEffort', 'effort', 'reasoning_effort', 'reasoning_effort'],
+  ['approvalPolicy', 'approval', 'approval_policy', 'approval_policy'],
+  ['sandboxMode', 'sandbox', 'sandbox_mode', 'sandbox_mode'],
+] as const;
+
+export const parseSettingsFilters = (searchParams: URLSearchParams): SessionSettingsFilters => {
+  const filters: SessionSettingsFilters = {
+    provider: searchParams.get('provider')?.trim() || null,
+  };
+  for (const [key, param] of TURN_SETTING_FILTERS) {
+    filters[key] = searchParams.get(param)?.trim() || null;
+  }
+  return filters;
+};
+
+// A session matches a turn setting when any of its turns used it; sessions without turn rows
+// (no user message yet) fall back to the last recorded value.
+export const buildSettingsConditions = (filters: SessionSettingsFilters) => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  for (const [key, , sessionColumn, turnColumn] of TURN_SETTING_FILTERS) {
+    const value = filters[key];
+    if (!value) continue;
+    conditions.push(
+      `(sessions.${sessionColumn} = ? OR EXISTS (SELECT 1 FROM turns WHERE turns.session_id = sessions.id AND turns.${turnColumn} = ?))`,
+    );
+    params.push(value, value);
+  }
+  if (filters.provider) {
+    conditions.push('sessions.model_provider = ?');
+    params.push(filters.provider);
+  }
+  return { conditions, params };
+};
@@ -0,0 +1,122 @@
+import type Database from 'better-sqlite3';
+import type { CommandEntry, ToolSummary } from '../shared/apiTypes';
+
+export type { CommandEntry, ToolSummary };
+
+export type ToolSummaryFilters = {
+  workspace?: string | null;
+  // Inclusive YYYY-MM-DD bounds on the call time (the session start when a call has no timestamp).
+  from?: string | null;
+  to?: string | null;
+};
+
+export const DATE_PARAM_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const getToolSummaries = (database: Database.Database, filters: ToolSummaryFilters = {}): ToolSummary[] => {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filters.workspace) {
+    conditions.push('sessions.cwd = ?');
+    params.push(filters.workspace);
+  }
+  const calledAt = 'COALESCE(tool_calls.called_at, sessions.started_at, sessions.timestamp)';
+  if (filters.from) {
+    conditions.push(`${calledAt} >= ?`);
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push(`${calledAt} < date(?, '+1 day')`);
+    params.push(filters.to);
+  }
+  const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = database
+    .prepare(
+      `
+        SELECT
+          tool_calls.name AS name,
+          COUNT(*) AS call_count,
+          COUNT(DISTINCT tool_calls.session_id) AS session_count,
+          COUNT(tool_calls.completed_at) AS completed_count,
+          AVG(tool_calls.duration_ms) AS avg_duration_ms,
+          COALESCE(SUM(tool_calls.output_bytes), 0) AS total_output_bytes,
+          MAX(${calledAt}) AS last_used
+        FROM tool_calls
+        JOIN sessions ON sessions.id = tool_calls.session_id
+        ${whereClause}
+        GROUP BY tool_calls.name
+        ORDER BY call_count DESC, tool_calls.name ASC
+      `,
+    )
+    .all(...params) as Array<{
+    name: string;
+    call_count: number;
+    session_count: number;
+    completed_count: number;
+    avg_duration_ms?: number | null;
+    total_output_bytes: number;
+    last_used?: string | null;
+  }>;
+  return rows.map((row) => ({
+    name: row.name,
+    call_count: row.call_count,
+    session_count: row.session_count,
+    completed_count: row.completed_count,
+    avg_duration_ms:
+      row.avg_duration_ms === null || row.avg_duration_ms === undefined ? null : Math.round(row.avg_duration_ms),
+    total_output_bytes: row.total_output_bytes,
+    last_used: row.last_used ?? null,
+  }));
+};
+
+export type CommandHistoryOptions = {
+  session?: string | null;
+  workspace?: string | null;
+  // Case-insensitive substring of the command line.
+  query?: string | null;
+  limit: number;
+};
+
+// Chronological within one session; newest first across a workspace or the whole index.
+export const getCommandHistory = (database: Database.Database, options: CommandHistoryOptions) => {
+  const conditions = ['tool_calls.command IS NOT NULL'];
+  const params: Array<string | number> = [];
+  if (options.session) {
+    conditions.push('tool_calls.session_id = ?');
+    params.push(options.session);
+  }
+  if (options.workspace) {
+    conditions.push('sessions.cwd = ?');
+    params.push(options.workspace);
+  }
+  if (options.query) {
+    conditions.push("tool_calls.command LIKE ? ESCAPE '\\'");
+    params.push(`%${options.query.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+  const orderBy = options.session
+    ? 'tool_calls.id ASC'
+    : 'COALESCE(tool_calls.called_at, sessions.started_at, sessions.timestamp) DESC, tool_calls.id DESC';
+  params.push(options.limit + 1);
+  const rows = database
+    .prepare(
+      `
+        SELECT
+          tool_calls.id AS id,
+          tool_calls.session_id AS session_path,
+          sessions.session_id AS session_id,
+          tool_calls.turn_id AS turn_id,
+          tool_calls.command AS command,
+          COALESCE(tool_calls.workdir, sessions.cwd) AS workdir,
+          tool_calls.exit_code AS exit_code,
+          COALESCE(tool_calls.wall_time_ms, tool_calls.duration_ms) AS wall_time_ms,
+          tool_calls.called_at AS called_at
+        FROM tool_calls
+        JOIN sessions ON sessions.id = tool_calls.session_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY ${orderBy}
+        LIMIT ?
+      `,
+    )
+    .all(...params) as CommandEntry[];
+  const truncated = rows.length > options.limit;
+  return { commands: truncated ? rows.slice(0, options.limit) : rows, truncated };
+};
@@ -1,6 +1,8 @@
 export interface FileEntry {
   absPath: string;
+  // Session path: `<rootId>/<path relative to the root>`.
   relPath: string;
+  root: string;
   size: number;
   mtimeMs: number;
 }
@@ -8,6 +10,8 @@ export interface FileEntry {
 export interface SessionTreeEntry {
   id: string;
   filename: string;
+  root: string | null;
+  rootLabel: string | null;
   preview: string | null;
   timestamp: string | null;
   cwd: string | null;
@@ -21,7 +25,18 @@ export interface SessionTreeEntry {
   toolCallCount: number | null;
   metaCount: number | null;
   tokenCount: number | null;
+  abortedTurnCount: number | null;
   startedAt: string | null;
   endedAt: string | null;
   activeDurationMs: number | null;
+  // Final cumulative token usage from the last token_count event.
+  inputTokens: number | null;
+  cachedInputTokens: number | null;
+  outputTokens: number | null;
+  reasoningOutputTokens: number | null;
+  totalTokens: number | null;
+  peakContextPercent: number | null;
+  contextWindow: number | null;
+  // Set when the session file was deleted and its indexed rows were kept (keepDeletedSessions).
+  archivedAt: string | null;
 }
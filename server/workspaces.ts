@@ -22,7 +22,7 @@ export const getWorkspaceSummaries = (database: Database.Database, workspaces?:
   if (hasFilter && filters.length === 0) return [];
   const placeholder = filters.length ? ` AND cwd IN (${filters.map(() => '?').join(', ')})` : '';
   const whereClause = `WHERE cwd IS NOT NULL AND cwd != ''${placeholder}`;
-  const params = filters.length ? [...filters, ...filters] : [];
+  const params = filters.length ? [...filters, ...filters, ...filters] : [];
   const rows = database
     .prepare(
       `
@@ -42,6 +42,18 @@ export const getWorkspaceSummaries = (database: Database.Database, workspaces?:
             ROW_NUMBER() OVER (PARTITION BY cwd ORDER BY timestamp DESC) AS rn
           FROM sessions
           ${whereClause}
+        ),
+        -- Most-used model = the model of the most turns (from turn_context) across the workspace.
+        model_usage AS (
+          SELECT
+            sessions.cwd AS cwd,
+            turns.model AS model,
+            COUNT(*) AS turn_count,
+            ROW_NUMBER() OVER (PARTITION BY sessions.cwd ORDER BY COUNT(*) DESC, turns.model ASC) AS rn
+          FROM turns
+          JOIN sessions ON sessions.id = turns.session_id
+          ${whereClause} AND turns.model IS NOT NULL
+          GROUP BY sessions.cwd, turns.model
         )
         SELECT
           summary.cwd AS cwd,
@@ -49,9 +61,12 @@ export const getWorkspaceSummaries = (database: Database.Database, workspaces?:
           summary.last_seen AS last_seen,
           ranked.git_branch AS git_branch,
           ranked.git_repo AS git_repo,
-          ranked.git_commit_hash AS git_commit_hash
+          ranked.git_commit_hash AS git_commit_hash,
+          model_usage.model AS top_model,
+          model_usage.turn_count AS top_model_turn_count
         FROM summary
         LEFT JOIN ranked ON ranked.cwd = summary.cwd AND ranked.rn = 1
+        LEFT JOIN model_usage ON model_usage.cwd = summary.cwd AND model_usage.rn = 1
       `,
     )
     .all(...params) as Array<{
@@ -61,6 +76,8 @@ export const getWorkspaceSummaries = (database: Database.Database, workspaces?:
     git_branch?: string | null;
     git_repo?: string | null;
     git_commit_hash?: string | null;
+    top_model?: string | null;
+    top_model_turn_count?: number | null;
   }>;
   return rows.map((row) => ({
     cwd: row.cwd,
@@ -70,5 +87,7 @@ export const getWorkspaceSummaries = (database: Database.Database, workspaces?:
     git_repo: row.git_repo ?? null,
     git_commit_hash: row.git_commit_hash ?? null,
     github_slug: extractGithubSlug(row.git_repo ?? undefined),
+    top_model: row.top_model ?? null,
+    top_model_turn_count: row.top_model_turn_count ?? 0,
   }));
 };
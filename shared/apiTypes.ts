@@ -9,11 +9,51 @@ export interface WorkspaceSummary {
   git_repo: string | null;
   git_commit_hash: string | null;
   github_slug: string | null;
+  // Model used by the most turns in this workspace (from turn_context).
+  top_model: string | null;
+  top_model_turn_count: number;
+}
+
+export interface SessionRoot {
+  // Stable slug used as the first segment of every session path under this root.
+  id: string;
+  label: string;
+  path: string;
+  enabled: boolean;
+}
+
+export type SessionRootsSource = 'env' | 'config' | 'default';
+
+// Which files under every root the scanner indexes; patterns are globs on the path relative to the root.
+export interface ScanFilters {
+  // Empty means every session file.
+  include: string[];
+  // Wins over `include`.
+  exclude: string[];
+  // Files larger than this (on disk) are skipped; null for no limit.
+  maxFileSizeMb: number | null;
+}
+
+export interface SessionRootsConfig {
+  roots: SessionRoot[];
+  source: SessionRootsSource;
+}
+
+export interface ArchiveConfig {
+  // Keep the indexed rows of deleted session files as archived sessions instead of dropping them.
+  keepDeletedSessions: boolean;
+  archivedCount: number;
+}
+
+export interface ArchivePurgeResponse {
+  purged: number;
 }
 
 export interface SessionSearchResult {
   session_path: string;
   session_id: string | null;
+  root: string | null;
+  root_label: string | null;
   first_user_message?: string | null;
   session_timestamp?: string | null;
   cwd?: string | null;
@@ -28,6 +68,14 @@ export interface SessionSearchResult {
   started_at?: string | null;
   ended_at?: string | null;
   active_duration_ms?: number | null;
+  // Final cumulative token usage from the session's last token_count event.
+  input_tokens?: number | null;
+  cached_input_tokens?: number | null;
+  output_tokens?: number | null;
+  reasoning_output_tokens?: number | null;
+  total_tokens?: number | null;
+  peak_context_percent?: number | null;
+  context_window?: number | null;
 }
 
 export interface WorkspaceSearchGroup {
@@ -36,9 +84,60 @@ export interface WorkspaceSearchGroup {
   match_count: number;
 }
 
+// Why a search query could not be parsed; sent as `syntax` next to `error` in a 400 response.
+export interface SearchSyntaxError {
+  message: string;
+  // 0-based offset into `q` of the offending token.
+  position: number;
+}
+
+// `word` searches the porter-stemmed word index; `literal` matches substrings (code, paths, partial identifiers)
+// through the trigram index; `regex` treats the query as a JavaScript regular expression.
+export type SearchMatchMode = 'word' | 'literal' | 'regex';
+
+export type SearchQualifierKey = 'role' | 'workspace' | 'branch' | 'repo' | 'after' | 'before' | 'turns';
+
+// A `key:value` filter taken out of the query (or given as the matching URL param).
+export interface SearchQualifier {
+  key: SearchQualifierKey;
+  // Normalized value: `role` lower-cased, `turns` as `>=20` style comparison.
+  value: string;
+  // 0-based offset and length of `key:value` in `q`; null for URL params.
+  position: number | null;
+  length: number | null;
+}
+
 export interface SearchResponse {
   groups: WorkspaceSearchGroup[];
   tokens: string[];
+  // Qualifiers applied to the search, in query order.
+  qualifiers: SearchQualifier[];
+  requestId?: string | null;
+}
+
+// One matching message, for the per-message search mode (`/api/search/messages`).
+export interface MessageSearchResult {
+  message_id: number;
+  session_path: string;
+  session_id: string | null;
+  root: string | null;
+  root_label: string | null;
+  turn_id: number;
+  // user, assistant, thought, tool_call or tool_output.
+  role: string;
+  timestamp: string | null;
+  snippet: string | null;
+  cwd: string | null;
+  git_branch: string | null;
+  first_user_message: string | null;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  tokens: string[];
+  qualifiers: SearchQualifier[];
+  // Opaque; pass back as `cursor` for the next page. Null on the last page.
+  nextCursor: string | null;
   requestId?: string | null;
 }
 
@@ -48,3 +147,221 @@ export interface SessionMatchesResponse {
   turn_ids: number[];
   requestId?: string | null;
 }
+
+export interface ToolSummary {
+  name: string;
+  call_count: number;
+  session_count: number;
+  // Calls paired with an output by call_id.
+  completed_count: number;
+  avg_duration_ms: number | null;
+  total_output_bytes: number;
+  last_used: string | null;
+}
+
+export interface ToolsResponse {
+  tools: ToolSummary[];
+}
+
+export interface CommandEntry {
+  id: number;
+  session_path: string;
+  session_id: string | null;
+  turn_id: number | null;
+  command: string;
+  // Working directory from the call arguments, falling back to the session cwd.
+  workdir: string | null;
+  exit_code: number | null;
+  // Wall time reported by the tool output, falling back to call → output time.
+  wall_time_ms: number | null;
+  called_at: string | null;
+}
+
+export interface CommandsResponse {
+  commands: CommandEntry[];
+  // More commands matched than `limit`.
+  truncated: boolean;
+}
+
+export type FileOperation = 'add' | 'update' | 'delete';
+
+export interface FileTouchTurn {
+  turn_id: number | null;
+  // Indexed path as written in the tool call (relative paths are relative to the session cwd).
+  path: string;
+  moved_from: string | null;
+  operation: FileOperation;
+  lines_added: number | null;
+  lines_removed: number | null;
+  changed_at: string | null;
+}
+
+export interface FileTouchSession {
+  session_path: string;
+  session_id: string | null;
+  cwd: string | null;
+  first_user_message: string | null;
+  started_at: string | null;
+  turns: FileTouchTurn[];
+}
+
+export interface FilesResponse {
+  path: string;
+  sessions: FileTouchSession[];
+  // More changes matched than `limit`.
+  truncated: boolean;
+}
+
+// How a session continues its parent: `resume` picks up an earlier conversation, `fork` branches off it.
+export type SessionLinkKind = 'resume' | 'fork';
+
+export interface SessionLineageEntry {
+  session_id: string;
+  // Null when the linked session is not indexed (e.g. its file was deleted or lives in a disabled root).
+  session_path: string | null;
+  // Ancestors: how the next session down the chain continues this one. Children: how the child continues it.
+  kind: SessionLinkKind;
+  cwd: string | null;
+  first_user_message: string | null;
+  started_at: string | null;
+}
+
+export interface SessionLineageResponse {
+  session_path: string;
+  // Oldest first; the last entry is the direct parent.
+  ancestors: SessionLineageEntry[];
+  children: SessionLineageEntry[];
+}
+
+export interface FileDiagnostics {
+  path: string;
+  size: number | null;
+  indexed_at: string | null;
+  malformed_lines: number;
+  unknown_event_count: number;
+  // Count per getEventTypeKey (e.g. `event_msg:task_started`).
+  unknown_event_types: Record<string, number>;
+  // The first few malformed-line messages, as `Line N: ...`.
+  parse_errors: string[];
+  // Bytes past the last complete line: a truncated file, or one Codex is still writing.
+  unread_bytes: number;
+  // Set when the last attempt to index the file failed (e.g. a corrupt archive); the file is retried next run.
+  index_error: string | null;
+}
+
+export interface IndexDiagnosticsResponse {
+  // Files with at least one problem, failed files first, then by malformed and unknown line counts.
+  files: FileDiagnostics[];
+  totals: {
+    files_indexed: number;
+    files_with_issues: number;
+    malformed_lines: number;
+    unknown_events: number;
+  };
+  // More files had problems than `limit`.
+  truncated: boolean;
+}
+
+export interface EventTypeSummary {
+  // getEventTypeKey of the entry: `type`, `payload.type` and the item type joined with `:`.
+  type_key: string;
+  // False when the session parser has no rule for it (the viewer shows these as raw events).
+  known: boolean;
+  event_count: number;
+  file_count: number;
+  // The file and time the type was first indexed; the file may since have been deleted.
+  first_seen_path: string | null;
+  first_seen_at: string | null;
+  // The first line of that type, cut to 2000 characters.
+  sample_line: string | null;
+}
+
+export interface EventTypesResponse {
+  // Unknown types first, then by event count.
+  event_types: EventTypeSummary[];
+}
+
+export interface IndexSummary {
+  scanned: number;
+  updated: number;
+  // Subset of `updated` indexed by parsing only the appended tail.
+  appended: number;
+  // Subset of `updated` whose previously indexed bytes no longer match the stored hash.
+  rewritten: number;
+  // Files needing no work: `skipped` plus touched files whose content hash still matches.
+  unchanged: number;
+  removed: number;
+  // Subset of `removed` whose sessions were kept as archived (keepDeletedSessions).
+  archived: number;
+  // Session files on disk left out by the scan filters (previously indexed ones are also counted in `removed`).
+  excluded: number;
+  messageCount: number;
+  skipped: number;
+  metadataChecked: number;
+  // Files that threw while indexing; they are retried on the next run.
+  failed: number;
+  durationMs: number;
+  // Worker threads used for parsing (0 = parsed on the main thread).
+  parseWorkers: number;
+  // Bytes handed to the parser (only the new tail for appended files; decompressed size is not counted).
+  parsedBytes: number;
+  // Parsed (updated) files and bytes per second of wall time for the whole pass.
+  filesPerSecond: number;
+  megabytesPerSecond: number;
+}
+
+export interface IndexFileError {
+  path: string;
+  message: string;
+}
+
+export interface IndexProgress {
+  filesScanned: number;
+  filesTotal: number | null;
+  currentFile: string | null;
+  messagesInserted: number;
+  errors: IndexFileError[];
+}
+
+export type IndexJobKind = 'reindex' | 'clear-index';
+
+export type IndexJobStatus = 'queued' | 'running' | 'done' | 'cancelled' | 'error';
+
+export interface IndexJob {
+  id: string;
+  kind: IndexJobKind;
+  status: IndexJobStatus;
+  // Ids of the roots the job indexes.
+  roots: string[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  progress: IndexProgress;
+  summary: IndexSummary | null;
+  error: string | null;
+}
+
+export interface IndexJobResponse {
+  job: IndexJob;
+}
+
+export interface IndexStatusResponse {
+  schemaVersion: number;
+  latestSchemaVersion: number;
+  // True while a migration's background re-parse has not finished a full pass yet.
+  rebuildPending: boolean;
+  rebuildReasons: string[];
+  indexing: boolean;
+  // Latest reindex/clear-index job still queued or running, so a reloaded UI can resume its progress view.
+  activeJob: IndexJob | null;
+}
+
+export type IndexEventReason = 'watch' | 'reindex' | 'clear-index';
+
+export interface IndexUpdatedEvent {
+  reason: IndexEventReason;
+  // Relative session paths reported by the watcher; null when the whole root was reindexed.
+  paths: string[] | null;
+  summary: IndexSummary;
+  timestamp: string;
+}
@@ -0,0 +1,140 @@
+// Files touched by a tool call: apply_patch envelopes (as custom tool input, function arguments or a
+// shell heredoc) and single-file edit tools. Shared so the index and the viewer list the same files.
+
+import type { FileOperation } from './apiTypes';
+
+export type { FileOperation };
+
+export type FileChange = {
+  path: string;
+  operation: FileOperation;
+  // null when the call does not say (e.g. a deleted file's previous contents).
+  linesAdded: number | null;
+  linesRemoved: number | null;
+  // Previous path of an `*** Update File` with `*** Move to`.
+  movedFrom?: string;
+};
+
+const PATCH_BEGIN = '*** Begin Patch';
+const PATCH_END = '*** End Patch';
+const EDIT_TOOL_NAMES = new Set([
+  'edit',
+  'edit_file',
+  'str_replace_editor',
+  'str_replace_based_edit_tool',
+  'write_file',
+]);
+// The str_replace editors also `view` files and `undo_edit`; only these commands write.
+const EDITOR_TOOL_NAMES = new Set(['str_replace_editor', 'str_replace_based_edit_tool']);
+const EDITOR_WRITE_COMMANDS = new Set(['create', 'str_replace', 'insert']);
+const MAX_ARGUMENT_DEPTH = 4;
+
+export const normalizeChangedPath = (value: string) => value.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+
+const countLines = (value: unknown) => {
+  if (typeof value !== 'string' || !value) return 0;
+  return value.replace(/\n$/, '').split('\n').length;
+};
+
+// Parses every `*** Begin Patch` … `*** End Patch` block in `text`.
+export const parsePatchText = (text: string): FileChange[] => {
+  const changes: FileChange[] = [];
+  let current: FileChange | null = null;
+  let inPatch = false;
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!inPatch) {
+      if (line.trim() === PATCH_BEGIN) inPatch = true;
+      continue;
+    }
+    if (line.trim() === PATCH_END) {
+      inPatch = false;
+      current = null;
+      continue;
+    }
+    const header = line.match(/^\*\*\* (Add|Update|Delete) File: (.+)$/);
+    if (header) {
+      const operation = header[1].toLowerCase() as FileOperation;
+      current = {
+        path: normalizeChangedPath(header[2]),
+        operation,
+        linesAdded: operation === 'delete' ? null : 0,
+        linesRemoved: operation === 'update' ? 0 : null,
+      };
+      changes.push(current);
+      continue;
+    }
+    const move = line.match(/^\*\*\* Move to: (.+)$/);
+    if (move && current) {
+      current.movedFrom = current.path;
+      current.path = normalizeChangedPath(move[1]);
+      continue;
+    }
+    if (!current || line.startsWith('***')) continue;
+    if (line.startsWith('+') && current.linesAdded !== null) current.linesAdded += 1;
+    if (line.startsWith('-') && current.operation === 'update' && current.linesRemoved !== null) {
+      current.linesRemoved += 1;
+    }
+  }
+  return changes;
+};
+
+const collectPatchTexts = (value: unknown, depth: number, out: string[]) => {
+  if (depth > MAX_ARGUMENT_DEPTH || value === null || value === undefined) return;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        collectPatchTexts(JSON.parse(trimmed), depth + 1, out);
+        return;
+      } catch (_error) {
+        // Not JSON; fall through and treat it as text.
+      }
+    }
+    if (value.includes(PATCH_BEGIN)) out.push(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    for (const entry of value) collectPatchTexts(entry, depth + 1, out);
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const entry of Object.values(value as Record<string, unknown>)) collectPatchTexts(entry, depth + 1, out);
+  }
+};
+
+const parseArgs = (args: unknown): Record<string, unknown> => {
+  let value = args;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (_error) {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+};
+
+const extractEditChange = (name: string, args: unknown): FileChange | null => {
+  if (!EDIT_TOOL_NAMES.has(name)) return null;
+  const obj = parseArgs(args);
+  if (EDITOR_TOOL_NAMES.has(name) && !EDITOR_WRITE_COMMANDS.has(String(obj.command))) return null;
+  const rawPath = obj.file_path ?? obj.path ?? obj.filename;
+  if (typeof rawPath !== 'string' || !rawPath.trim()) return null;
+  const isCreate = name === 'write_file' || obj.command === 'create';
+  return {
+    path: normalizeChangedPath(rawPath),
+    operation: isCreate ? 'add' : 'update',
+    linesAdded: countLines(obj.new_string ?? obj.new_str ?? obj.file_text ?? obj.content ?? obj.insert_text),
+    linesRemoved: isCreate ? null : countLines(obj.old_string ?? obj.old_str),
+  };
+};
+
+// `args` is the raw arguments value of the tool call (often a JSON-encoded string).
+export const extractFileChanges = (name: string, args: unknown): FileChange[] => {
+  const edit = extractEditChange(name, args);
+  if (edit) return [edit];
+  const texts: string[] = [];
+  collectPatchTexts(args, 0, texts);
+  return texts.flatMap(parsePatchText);
+};
@@ -1,3 +1,17 @@
+import { parseTokenCountEntry } from './tokenUsage';
+
+// Token usage as of the last token_count event (totals are cumulative in Codex logs).
+export type SessionTokenUsage = {
+  inputTokens: number | null;
+  cachedInputTokens: number | null;
+  outputTokens: number | null;
+  reasoningOutputTokens: number | null;
+  totalTokens: number | null;
+  // Highest last-request context usage seen, as a percent of the context window.
+  peakContextPercent: number | null;
+  contextWindow: number | null;
+};
+
 export type SessionMetrics = {
   startedAt: string | null;
   endedAt: string | null;
@@ -7,8 +21,10 @@ export type SessionMetrics = {
   toolCallCount: number;
   metaCount: number;
   tokenCountCount: number;
+  abortedTurnCount: number;
   activeDurationMs: number | null;
   firstUserMessage: string | null;
+  tokenUsage: SessionTokenUsage;
 };
 
 export type TurnDurationTracker = {
@@ -20,6 +36,30 @@ export type TurnDurationTracker = {
 export type SessionMetricsOptions = {
   previewMaxChars?: number;
   previewMaxLines?: number;
+  // Resume from a snapshot taken by an earlier pass (append-only indexing).
+  initialState?: SessionMetricsState | null;
+};
+
+// Serializable accumulator state; captured before finalize() so an open turn can keep growing.
+export type SessionMetricsState = {
+  firstUserMessage: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  startedAtMs: number | null;
+  endedAtMs: number | null;
+  turnCount: number;
+  messageCount: number;
+  thoughtCount: number;
+  toolCallCount: number;
+  metaCount: number;
+  tokenCountCount: number;
+  abortedTurnCount: number;
+  tokenUsage?: SessionTokenUsage;
+  inTurn: boolean;
+  currentTurnStartMs: number | null;
+  lastAssistantActivityMs: number | null;
+  activeDurationMs: number;
+  activeDurationPairs: number;
 };
 
 export type SessionMetricsAccumulator = {
@@ -31,11 +71,23 @@ export type SessionMetricsAccumulator = {
   recordToolCall: (timestamp?: string | null) => void;
   recordToolOutput: (timestamp?: string | null) => void;
   recordMeta: (timestamp?: string | null) => void;
-  recordTokenCount: (timestamp?: string | null) => void;
+  recordTokenCount: (timestamp?: string | null, payload?: unknown) => void;
+  recordTurnAborted: (timestamp?: string | null) => void;
   closeTurn: () => void;
+  snapshot: () => SessionMetricsState;
   finalize: () => SessionMetrics;
 };
 
+const EMPTY_TOKEN_USAGE: SessionTokenUsage = {
+  inputTokens: null,
+  cachedInputTokens: null,
+  outputTokens: null,
+  reasoningOutputTokens: null,
+  totalTokens: null,
+  peakContextPercent: null,
+  contextWindow: null,
+};
+
 const parseTimestampMs = (value?: string | null) => {
   if (!value) return null;
   const parsed = Date.parse(value);
@@ -76,26 +128,28 @@ export const createTurnDurationTracker = (): TurnDurationTracker => {
 };
 
 export const createSessionMetrics = (options: SessionMetricsOptions = {}): SessionMetricsAccumulator => {
-  const { previewMaxChars = 1000, previewMaxLines = 50 } = options;
+  const { previewMaxChars = 1000, previewMaxLines = 50, initialState } = options;
 
-  let firstUserMessage: string | null = null;
-  let startedAt: string | null = null;
-  let endedAt: string | null = null;
-  let startedAtMs: number | null = null;
-  let endedAtMs: number | null = null;
+  let firstUserMessage: string | null = initialState?.firstUserMessage ?? null;
+  let startedAt: string | null = initialState?.startedAt ?? null;
+  let endedAt: string | null = initialState?.endedAt ?? null;
+  let startedAtMs: number | null = initialState?.startedAtMs ?? null;
+  let endedAtMs: number | null = initialState?.endedAtMs ?? null;
 
-  let turnCount = 0;
-  let messageCount = 0;
-  let thoughtCount = 0;
-  let toolCallCount = 0;
-  let metaCount = 0;
-  let tokenCountCount = 0;
+  let turnCount = initialState?.turnCount ?? 0;
+  let messageCount = initialState?.messageCount ?? 0;
+  let thoughtCount = initialState?.thoughtCount ?? 0;
+  let toolCallCount = initialState?.toolCallCount ?? 0;
+  let metaCount = initialState?.metaCount ?? 0;
+  let tokenCountCount = initialState?.tokenCountCount ?? 0;
+  let abortedTurnCount = initialState?.abortedTurnCount ?? 0;
+  const tokenUsage: SessionTokenUsage = { ...EMPTY_TOKEN_USAGE, ...initialState?.tokenUsage };
 
-  let inTurn = false;
-  let currentTurnStartMs: number | null = null;
-  let lastAssistantActivityMs: number | null = null;
-  let activeDurationMs = 0;
-  let activeDurationPairs = 0;
+  let inTurn = initialState?.inTurn ?? false;
+  let currentTurnStartMs: number | null = initialState?.currentTurnStartMs ?? null;
+  let lastAssistantActivityMs: number | null = initialState?.lastAssistantActivityMs ?? null;
+  let activeDurationMs = initialState?.activeDurationMs ?? 0;
+  let activeDurationPairs = initialState?.activeDurationPairs ?? 0;
 
   const updateBounds = (value?: string | null) => {
     if (!value) return;
@@ -187,13 +241,54 @@ export const createSessionMetrics = (options: SessionMetricsOptions = {}): Sessi
       updateBounds(timestamp);
     },
 
-    recordTokenCount: (timestamp) => {
+    recordTokenCount: (timestamp, payload) => {
       tokenCountCount += 1;
       updateBounds(timestamp);
+      const parsed = payload === undefined ? null : parseTokenCountEntry(payload);
+      if (!parsed) return;
+      const total = parsed.totalUsage;
+      if (total) {
+        tokenUsage.inputTokens = total.inputTokens ?? tokenUsage.inputTokens;
+        tokenUsage.cachedInputTokens = total.cachedTokens ?? tokenUsage.cachedInputTokens;
+        tokenUsage.outputTokens = total.outputTokens ?? tokenUsage.outputTokens;
+        tokenUsage.reasoningOutputTokens = total.reasoningTokens ?? tokenUsage.reasoningOutputTokens;
+        tokenUsage.totalTokens = total.totalTokens ?? tokenUsage.totalTokens;
+      }
+      tokenUsage.contextWindow = parsed.contextWindowSize ?? tokenUsage.contextWindow;
+      const percent = parsed.contextUsagePercent;
+      if (percent !== null && percent !== undefined && percent > (tokenUsage.peakContextPercent ?? -1)) {
+        tokenUsage.peakContextPercent = percent;
+      }
+    },
+
+    recordTurnAborted: (timestamp) => {
+      abortedTurnCount += 1;
+      updateBounds(timestamp);
     },
 
     closeTurn,
 
+    snapshot: () => ({
+      firstUserMessage,
+      startedAt,
+      endedAt,
+      startedAtMs,
+      endedAtMs,
+      turnCount,
+      messageCount,
+      thoughtCount,
+      toolCallCount,
+      metaCount,
+      tokenCountCount,
+      abortedTurnCount,
+      tokenUsage: { ...tokenUsage },
+      inTurn,
+      currentTurnStartMs,
+      lastAssistantActivityMs,
+      activeDurationMs,
+      activeDurationPairs,
+    }),
+
     finalize: () => {
       closeTurn();
       return {
@@ -205,8 +300,10 @@ export const createSessionMetrics = (options: SessionMetricsOptions = {}): Sessi
         toolCallCount,
         metaCount,
         tokenCountCount,
+        abortedTurnCount,
         activeDurationMs: activeDurationPairs > 0 ? activeDurationMs : null,
         firstUserMessage,
+        tokenUsage: { ...tokenUsage },
       };
     },
   };
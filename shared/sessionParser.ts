@@ -0,0 +1,400 @@
+import type { SessionLinkKind } from './apiTypes';
+import { createSessionMetrics, type SessionMetricsOptions, type SessionMetricsState } from './sessionMetrics';
+import { stripSessionFileExtension } from './sessionPaths';
+
+// One event-level reading of Codex JSONL for both the indexer and the viewer, so indexed turn ids,
+// search hits and on-screen turns always agree.
+
+export const SESSION_ID_REGEX = /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/;
+export const SESSION_ID_PREFIX_REGEX = /\b(?:sess(?:ion)?[_-])[a-zA-Z0-9_-]{6,}\b/;
+
+const TOOL_CALL_TYPES = ['function_call', 'custom_tool_call', 'web_search_call', 'local_shell_call'];
+const TOOL_OUTPUT_TYPES = ['function_call_output', 'custom_tool_call_output', 'web_search_call_output'];
+// Recognised but skipped on purpose: response_item messages and reasoning duplicate the event_msg stream.
+const SKIPPED_RESPONSE_ITEM_TYPES = ['message', 'reasoning'];
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const getString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+export const formatJsonValue = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch (_error) {
+    return String(value);
+  }
+};
+
+const getCallId = (obj: Record<string, unknown>) =>
+  getString(obj.call_id) ?? getString(obj.id) ?? getString(obj.callId);
+
+export const formatToolCall = (item: unknown) => {
+  const obj = asRecord(item);
+  const tool = asRecord(obj.tool);
+  // local_shell_call items carry no name; their command lives in `action`.
+  const isLocalShell = obj.type === 'local_shell_call';
+  const name =
+    getString(obj.name) ?? getString(obj.tool_name) ?? getString(tool.name) ?? (isLocalShell ? 'local_shell' : 'tool');
+  const callId = getCallId(obj);
+  const args = obj.arguments ?? obj.args ?? obj.input ?? obj.parameters ?? (isLocalShell ? obj.action : undefined);
+  const parts = [`name: ${name}`];
+  if (callId) parts.push(`call_id: ${callId}`);
+  const argsText = formatJsonValue(args);
+  if (argsText) parts.push(`arguments:\n${argsText}`);
+  return { name, callId, arguments: args, content: parts.join('\n') };
+};
+
+export const formatToolOutput = (item: unknown) => {
+  const obj = asRecord(item);
+  const callId = getCallId(obj);
+  const output = obj.output ?? obj.result ?? obj.content ?? obj.text ?? obj.value;
+  const parts: string[] = [];
+  if (callId) parts.push(`call_id: ${callId}`);
+  const outputText = formatJsonValue(output);
+  if (outputText) parts.push(`output:\n${outputText}`);
+  return { callId, output: outputText, content: parts.join('\n') };
+};
+
+export const normalizeSessionId = (value: string) => {
+  const trimmed = value.trim();
+  const uuidMatch = trimmed.match(SESSION_ID_REGEX);
+  if (uuidMatch) return uuidMatch[0];
+  const prefixMatch = trimmed.match(SESSION_ID_PREFIX_REGEX);
+  if (prefixMatch) return prefixMatch[0];
+  return trimmed;
+};
+
+// `type`, `payload.type` and `item.type` of a JSONL entry joined with `:` (e.g. `event_msg:task_started`).
+export const getEventTypeKey = (entry: unknown) => {
+  const obj = asRecord(entry);
+  const parts = [obj.type, asRecord(obj.payload).type, asRecord(obj.item ?? obj.response_item).type];
+  const key = parts.filter((part): part is string => typeof part === 'string' && part.length > 0).join(':');
+  return key || '(no type)';
+};
+
+export const extractSessionIdFromPath = (value?: string | null) => {
+  if (!value) return null;
+  const normalized = value.replace(/\\/g, '/');
+  const filename = normalized.split('/').pop() || normalized;
+  const withoutExt = stripSessionFileExtension(filename);
+  const uuidMatch = withoutExt.match(SESSION_ID_REGEX);
+  if (uuidMatch) return uuidMatch[0];
+  const prefixMatch = withoutExt.match(SESSION_ID_PREFIX_REGEX);
+  if (prefixMatch) return prefixMatch[0];
+  return null;
+};
+
+export const extractSessionIdFromObject = (value: unknown, depth = 0): string | null => {
+  if (!value || typeof value !== 'object' || depth > 2) return null;
+  const obj = value as Record<string, unknown>;
+  const direct =
+    obj.session_id ??
+    obj.sessionId ??
+    obj.conversation_id ??
+    obj.conversationId ??
+    obj.id ??
+    obj.resume_session_id ??
+    obj.resumeSessionId;
+  if (typeof direct === 'string' && direct.trim()) return normalizeSessionId(direct);
+  if (typeof obj.session === 'string' && obj.session.trim()) return normalizeSessionId(obj.session);
+  if (obj.session && typeof obj.session === 'object') {
+    const nestedId = (obj.session as Record<string, unknown>).id;
+    if (typeof nestedId === 'string' && nestedId.trim()) return normalizeSessionId(nestedId);
+    const nested = extractSessionIdFromObject(obj.session, depth + 1);
+    if (nested) return nested;
+  }
+  const containers = [obj.session_info, obj.sessionInfo, obj.metadata, obj.context, obj.payload];
+  for (const container of containers) {
+    const nested = extractSessionIdFromObject(container, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+export const extractCwdFromObject = (value: unknown, depth = 0): string | null => {
+  if (!value || typeof value !== 'object' || depth > 2) return null;
+  const obj = value as Record<string, unknown>;
+  const direct =
+    obj.cwd ??
+    obj.current_working_directory ??
+    obj.working_dir ??
+    obj.workingDirectory ??
+    obj.repo_root ??
+    obj.workspace_root ??
+    obj.root_dir;
+  if (typeof direct === 'string' && direct.trim()) return direct.trim();
+  if (obj.session && typeof obj.session === 'object') {
+    const nested = extractCwdFromObject(obj.session, depth + 1);
+    if (nested) return nested;
+  }
+  const containers = [obj.metadata, obj.context, obj.environment, obj.env, obj.workspace, obj.payload];
+  for (const container of containers) {
+    const nested = extractCwdFromObject(container, depth + 1);
+    if (nested) return nested;
+  }
+  return null;
+};
+
+export type SessionMetaFields = {
+  cwd?: string;
+  git_branch?: string;
+  git_repo?: string;
+  git_commit_hash?: string;
+  timestamp?: string;
+  session_id?: string;
+};
+
+// Model and policy settings Codex records in each turn_context.
+export type TurnSettings = {
+  model?: string;
+  reasoningEffort?: string;
+  approvalPolicy?: string;
+  sandboxMode?: string;
+};
+
+export type SessionSettings = {
+  // From session_meta (`model_provider`).
+  provider?: string;
+  first?: TurnSettings;
+  last?: TurnSettings;
+  // True once a turn_context differs from the previous one in any field.
+  changed: boolean;
+};
+
+const TURN_SETTING_KEYS = ['model', 'reasoningEffort', 'approvalPolicy', 'sandboxMode'] as const;
+
+export const extractTurnSettings = (payload: unknown): TurnSettings => {
+  const obj = asRecord(payload);
+  const sandbox = obj.sandbox_policy ?? obj.sandbox_mode ?? obj.sandbox;
+  const sandboxRecord = asRecord(sandbox);
+  const settings: TurnSettings = {
+    model: getString(obj.model),
+    reasoningEffort: getString(obj.effort) ?? getString(obj.reasoning_effort) ?? getString(obj.model_reasoning_effort),
+    approvalPolicy: getString(obj.approval_policy) ?? getString(obj.approval_mode),
+    sandboxMode: getString(sandbox) ?? getString(sandboxRecord.mode) ?? getString(sandboxRecord.type),
+  };
+  for (const key of TURN_SETTING_KEYS) {
+    if (!settings[key]?.trim()) delete settings[key];
+  }
+  return settings;
+};
+
+const sameTurnSettings = (a: TurnSettings, b: TurnSettings) => TURN_SETTING_KEYS.every((key) => a[key] === b[key]);
+
+// The conversation a session continues, from its first session_meta.
+export type SessionParentLink = {
+  parentSessionId: string;
+  kind: SessionLinkKind;
+};
+
+const PARENT_LINK_KEYS = [
+  ['resume', ['resume_session_id', 'resumeSessionId', 'resumed_from', 'resumedFrom']],
+  ['fork', ['forked_from_id', 'forkedFromId', 'forked_from', 'forkedFrom', 'parent_session_id', 'parentSessionId']],
+] as const;
+
+export const extractParentLink = (payload: unknown): SessionParentLink | null => {
+  const obj = asRecord(payload);
+  for (const [kind, keys] of PARENT_LINK_KEYS) {
+    for (const key of keys) {
+      const value = getString(obj[key])?.trim();
+      if (value) return { parentSessionId: normalizeSessionId(value), kind };
+    }
+  }
+  return null;
+};
+
+// Serializable parser state; the indexer persists it to resume at a byte offset.
+export type SessionParserState = {
+  currentTurn: number;
+  sessionMeta: SessionMetaFields;
+  // session_meta (2) outranks turn_context (1); within a rank the first value wins.
+  sessionIdRank: number;
+  cwdRank: number;
+  // Highest turn already counted as aborted, so repeated turn_aborted events count once.
+  lastAbortedTurn: number;
+  settings?: SessionSettings;
+  parentLink?: SessionParentLink | null;
+  metrics: SessionMetricsState;
+};
+
+type SessionEventBase = {
+  // 0 for the preamble before the first user message.
+  turnId: number;
+  timestamp?: string;
+  // The JSONL entry, or the response item for tool events.
+  raw: unknown;
+};
+
+export type SessionEvent = SessionEventBase &
+  (
+    | { type: 'user_message' | 'assistant_message' | 'thought'; content: string }
+    // settings is set for turn_context.
+    | { type: 'meta'; metaType: 'session_meta' | 'turn_context'; payload: unknown; settings?: TurnSettings }
+    | { type: 'token_count'; payload: unknown }
+    | { type: 'turn_aborted'; reason?: string }
+    // arguments is the raw value from the item (often a JSON-encoded string); output is the bare output text.
+    | { type: 'tool_call'; name: string; callId?: string; arguments?: unknown; content: string }
+    | { type: 'tool_output'; callId?: string; output: string; content: string }
+    // A line with a type the parser does not recognise; eventType is its getEventTypeKey.
+    | { type: 'unknown'; eventType: string }
+  );
+
+export type SessionParserOptions = Pick<SessionMetricsOptions, 'previewMaxChars' | 'previewMaxLines'> & {
+  initialState?: SessionParserState | null;
+};
+
+export const createSessionParser = (options: SessionParserOptions = {}) => {
+  const { initialState, ...metricsOptions } = options;
+  const metrics = createSessionMetrics({ ...metricsOptions, initialState: initialState?.metrics });
+  const sessionMeta: SessionMetaFields = { ...(initialState?.sessionMeta ?? {}) };
+  let currentTurn = initialState?.currentTurn ?? 0;
+  let sessionIdRank = initialState?.sessionIdRank ?? 0;
+  let cwdRank = initialState?.cwdRank ?? 0;
+  let lastAbortedTurn = initialState?.lastAbortedTurn ?? 0;
+  const settings: SessionSettings = { changed: false, ...initialState?.settings };
+  let parentLink = initialState?.parentLink ?? null;
+
+  const applyMeta = (payload: Record<string, unknown>, rank: number, entryTimestamp?: string) => {
+    const sessionId = extractSessionIdFromObject(payload);
+    const isFirstSessionMeta = rank === 2 && sessionIdRank < 2;
+    if (sessionId && rank > sessionIdRank) {
+      sessionMeta.session_id = sessionId;
+      sessionIdRank = rank;
+    }
+    const cwd = extractCwdFromObject(payload);
+    if (cwd && rank > cwdRank) {
+      sessionMeta.cwd = cwd;
+      cwdRank = rank;
+    }
+    if (rank < 2) return;
+    settings.provider ??= getString(payload.model_provider) ?? getString(payload.modelProvider);
+    // Branch ancestry can append older session_meta entries; the first (newest) stays canonical, later ones only fill gaps.
+    // An explicit resume/fork id on the first one names the parent; otherwise the first older entry for another id is
+    // the parent whose history this fork carries.
+    if (isFirstSessionMeta) {
+      const link = extractParentLink(payload);
+      if (link && link.parentSessionId !== sessionMeta.session_id) parentLink = link;
+    } else if (!parentLink && sessionId && sessionId !== sessionMeta.session_id) {
+      parentLink = { parentSessionId: sessionId, kind: 'fork' };
+    }
+    const git = asRecord(payload.git);
+    sessionMeta.git_branch ??= getString(payload.git_branch) ?? getString(payload.gitBranch) ?? getString(git.branch);
+    sessionMeta.git_repo ??=
+      getString(payload.git_repo) ??
+      getString(payload.gitRepo) ??
+      getString(git.repository_url) ??
+      getString(git.repositoryUrl);
+    sessionMeta.git_commit_hash ??=
+      getString(payload.git_commit_hash) ??
+      getString(payload.gitCommitHash) ??
+      getString(git.commit_hash) ??
+      getString(git.commitHash);
+    sessionMeta.timestamp ??= getString(payload.timestamp) ?? entryTimestamp;
+  };
+
+  // Returns the event for one parsed JSONL entry (null for deliberately skipped entries).
+  const parseEntry = (entry: any): SessionEvent | null => {
+    const timestamp = getString(entry?.timestamp);
+    metrics.recordTimestamp(timestamp);
+
+    if (entry.type === 'session_meta' || entry.type === 'turn_context') {
+      const payload = entry.payload ?? entry;
+      metrics.recordMeta(timestamp);
+      applyMeta(asRecord(payload), entry.type === 'session_meta' ? 2 : 1, timestamp);
+      if (entry.type === 'session_meta') {
+        return { type: 'meta', metaType: entry.type, payload, turnId: currentTurn, timestamp, raw: entry };
+      }
+      const turnSettings = extractTurnSettings(payload);
+      if (settings.last && !sameTurnSettings(settings.last, turnSettings)) settings.changed = true;
+      settings.first ??= turnSettings;
+      settings.last = turnSettings;
+      return {
+        type: 'meta',
+        metaType: entry.type,
+        payload,
+        settings: turnSettings,
+        turnId: currentTurn,
+        timestamp,
+        raw: entry,
+      };
+    }
+
+    if (entry.type === 'event_msg') {
+      const payload = entry.payload ?? {};
+      if (payload.type === 'user_message') {
+        currentTurn += 1;
+        const content = formatJsonValue(payload.message ?? '');
+        metrics.recordUserMessage(timestamp, content);
+        return { type: 'user_message', content, turnId: currentTurn, timestamp, raw: entry };
+      }
+      if (payload.type === 'agent_message') {
+        metrics.recordAssistantMessage(timestamp);
+        const content = formatJsonValue(payload.message ?? '');
+        return { type: 'assistant_message', content, turnId: currentTurn, timestamp, raw: entry };
+      }
+      if (payload.type === 'agent_reasoning' && payload.text) {
+        metrics.recordThought(timestamp);
+        return { type: 'thought', content: formatJsonValue(payload.text), turnId: currentTurn, timestamp, raw: entry };
+      }
+      if (payload.type === 'token_count') {
+        metrics.recordTokenCount(timestamp, payload);
+        return { type: 'token_count', payload, turnId: currentTurn, timestamp, raw: entry };
+      }
+      if (payload.type === 'turn_aborted') {
+        // Counted once per turn; an abort before the first user message (turn 0) has no turn to mark.
+        if (currentTurn > lastAbortedTurn) {
+          lastAbortedTurn = currentTurn;
+          metrics.recordTurnAborted(timestamp);
+        }
+        return { type: 'turn_aborted', reason: getString(payload.reason), turnId: currentTurn, timestamp, raw: entry };
+      }
+      if (payload.type === 'agent_reasoning') return null;
+      return { type: 'unknown', eventType: getEventTypeKey(entry), turnId: currentTurn, timestamp, raw: entry };
+    }
+
+    const isResponseItem = entry.type === 'response_item';
+    const item = isResponseItem ? (entry.item ?? entry.response_item ?? entry.payload ?? {}) : entry;
+    const itemType = isResponseItem ? item.type : entry.type;
+
+    if (TOOL_CALL_TYPES.includes(itemType)) {
+      metrics.recordToolCall(timestamp);
+      return { type: 'tool_call', ...formatToolCall(item), turnId: currentTurn, timestamp, raw: item };
+    }
+    if (TOOL_OUTPUT_TYPES.includes(itemType)) {
+      metrics.recordToolOutput(timestamp);
+      return { type: 'tool_output', ...formatToolOutput(item), turnId: currentTurn, timestamp, raw: item };
+    }
+    if (isResponseItem && SKIPPED_RESPONSE_ITEM_TYPES.includes(itemType)) return null;
+    return { type: 'unknown', eventType: getEventTypeKey(entry), turnId: currentTurn, timestamp, raw: entry };
+  };
+
+  // Returns the event for one JSONL line (null for blank or deliberately skipped lines); throws on malformed JSON.
+  const parseLine = (line: string): SessionEvent | null => {
+    if (!line.trim()) return null;
+    return parseEntry(JSON.parse(line));
+  };
+
+  const snapshot = (): SessionParserState => ({
+    currentTurn,
+    sessionMeta: { ...sessionMeta },
+    sessionIdRank,
+    cwdRank,
+    lastAbortedTurn,
+    settings: { ...settings },
+    parentLink,
+    metrics: metrics.snapshot(),
+  });
+
+  return {
+    parseLine,
+    parseEntry,
+    snapshot,
+    getSessionMeta: () => ({ ...sessionMeta }),
+    getSettings: (): SessionSettings => ({ ...settings }),
+    getParentLink: (): SessionParentLink | null => (parentLink ? { ...parentLink } : null),
+    finalize: () => metrics.finalize(),
+  };
+};
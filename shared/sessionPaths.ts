@@ -0,0 +1,17 @@
+// Session paths (sessions.id, URL `session` param) are `<rootId>/<path relative to that root>`,
+// so files with the same relative path under two roots never collide.
+export const joinSessionPath = (rootId: string, relPath: string) => `${rootId}/${relPath}`;
+
+export const splitSessionPath = (sessionPath: string) => {
+  const normalized = sessionPath.replace(/\\/g, '/');
+  const separator = normalized.indexOf('/');
+  if (separator <= 0) return { rootId: null, relPath: normalized };
+  return { rootId: normalized.slice(0, separator), relPath: normalized.slice(separator + 1) };
+};
+
+// Codex writes `.jsonl`; archived sessions may be gzip- or zstd-compressed in place.
+const SESSION_FILE_REGEX = /\.jsonl(?:\.gz|\.zst)?$/i;
+
+export const isSessionFilename = (name: string) => SESSION_FILE_REGEX.test(name);
+
+export const stripSessionFileExtension = (filename: string) => filename.replace(SESSION_FILE_REGEX, '');
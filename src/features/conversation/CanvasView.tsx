@@ -2,6 +2,7 @@ import { useMemo, useState } from 'react';
 import { canvasDemos } from './canvas/registry';
 import type { CanvasContext, CanvasDemoVariant } from './canvas/types';
 import { formatDate, formatTime } from './format';
+import { formatRootsSummary } from './roots';
 import type { LoadSessionOptions, SessionDetails, SessionFileEntry, SessionTree, Turn } from './types';
 
 interface CanvasViewProps {
@@ -91,13 +92,12 @@ export const CanvasView = ({
   const demoTurns = demoRequiresSession ? turns : [];
   const demoSession = demoRequiresSession ? activeSession : null;
   const demoSessionDetails = demoRequiresSession ? sessionDetails : {};
-  const resolvedSessionsRoot = sessionsTree?.root || sessionsRoot;
   const variantGridClassName =
     selectedVariants.length > 1 ? 'grid gap-6 grid-cols-1 lg:grid-cols-2 items-start' : 'grid gap-6 grid-cols-1';
   const canvasContext: CanvasContext = {
     activeSession: demoSession,
     sessionDetails: demoSessionDetails,
-    sessionsRoot: resolvedSessionsRoot,
+    sessionsRoot,
     turns: demoTurns,
     hasSessionData: Boolean(demoSession),
   };
@@ -167,8 +167,8 @@ export const CanvasView = ({
           </div>
           <div className="flex items-end justify-end text-xs text-slate-500">
             {demoRequiresSession
-              ? sessionsTree?.root
-                ? `Root: ${sessionsTree.root}`
+              ? sessionsTree?.roots.length
+                ? `Root: ${formatRootsSummary(sessionsTree.roots)}`
                 : 'No sessions root loaded yet.'
               : 'No session data needed.'}
           </div>
@@ -1,16 +1,21 @@
-import { Keyboard, Search, X } from 'lucide-react';
+import { GitFork, Keyboard, Search, X } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { fetchSessionMatches } from './api';
+import { CommandsPanel } from './components/CommandsPanel';
 import { SessionHeaderVariantB } from './components/SessionHeaderVariantB';
 import { SessionOverview, SessionToggleRow } from './components/SessionOverview';
+import { ThreadSegmentList } from './components/ThreadSegmentList';
 import { TurnJumpModal } from './components/TurnJumpModal';
 import { TurnList } from './components/TurnList';
+import { useCommands } from './hooks/useCommands';
 import { useRenderDebug } from './hooks/useRenderDebug';
-import { useSessionOverview } from './hooks/useSessionOverview';
+import { useSessionLineage } from './hooks/useSessionLineage';
+import { filterTurns, useSessionOverview } from './hooks/useSessionOverview';
+import { useSessionThread } from './hooks/useSessionThread';
 import { useTurnNavigation } from './hooks/useTurnNavigation';
 import { TURN_JUMP_EVENT } from './turnNavigation';
-import type { JumpToTurnOptions, SessionDetails, SessionFileEntry, Turn } from './types';
-import { getSessionParamsFromLocation } from './url';
+import type { CommandEntry, JumpToTurnOptions, SearchMatchMode, SessionDetails, SessionFileEntry, Turn } from './types';
+import { buildSessionUrl, getSessionParamsFromLocation } from './url';
 
 interface ConversationMainProps {
   turns: Turn[];
@@ -20,8 +25,10 @@ interface ConversationMainProps {
   sessionsRoot: string;
   loadingSession: boolean;
   activeSearchQuery?: string | null;
+  activeSearchMatch?: SearchMatchMode;
   jumpToTurn: (turnId: number | null, options?: JumpToTurnOptions) => void;
   setSessionSearchQuery: (query: string | null) => void;
+  onLoadSession: (sessionId: string) => void;
   onGoHome: () => void;
 }
 
@@ -39,8 +46,10 @@ export const ConversationMain = ({
   sessionsRoot,
   loadingSession,
   activeSearchQuery,
+  activeSearchMatch = 'word',
   jumpToTurn,
   setSessionSearchQuery,
+  onLoadSession,
   onGoHome,
 }: ConversationMainProps) => {
   const mainRef = useRef<HTMLElement | null>(null);
@@ -61,12 +70,26 @@ export const ConversationMain = ({
     filteredTurns,
     visibleItemCount,
     stats,
+    filesChanged,
   } = useSessionOverview(turns);
   const [matchTurnIds, setMatchTurnIds] = useState<number[]>([]);
   const [matchTokens, setMatchTokens] = useState<string[]>([]);
   const [matchesLoading, setMatchesLoading] = useState(false);
   const [matchesError, setMatchesError] = useState<string | null>(null);
   const matchRequestId = useRef(0);
+  const sessionCommands = useCommands({ session: activeSession?.id ?? null });
+  const { lineage } = useSessionLineage(activeSession?.id ?? null);
+  const ancestors = useMemo(() => lineage?.ancestors ?? [], [lineage]);
+  const [showFullThread, setShowFullThread] = useState(false);
+  const thread = useSessionThread({ ancestors, enabled: showFullThread });
+  const threadSegments = useMemo(
+    () =>
+      thread.segments.map((segment) => ({
+        ...segment,
+        turns: filterTurns(segment.turns, { showThoughts, showTools, showMeta, showTokenCounts }),
+      })),
+    [thread.segments, showThoughts, showTools, showMeta, showTokenCounts],
+  );
   const activeSearchQueryRef = useRef<string | null>(activeSearchQuery ?? null);
 
   useEffect(() => {
@@ -121,7 +144,7 @@ export const ConversationMain = ({
     setMatchTokens([]);
     setMatchesError(null);
     // Server intentionally excludes preamble (turn_id <= 0) from match results.
-    fetchSessionMatches(activeSession.id, activeSearchQuery, requestKey)
+    fetchSessionMatches(activeSession.id, activeSearchQuery, requestKey, activeSearchMatch)
       .then((data) => {
         if (requestId !== matchRequestId.current) return;
         if (activeSearchQueryRef.current !== requestQuery) return;
@@ -140,7 +163,7 @@ export const ConversationMain = ({
         if (activeSearchQueryRef.current !== requestQuery) return;
         setMatchesLoading(false);
       });
-  }, [activeSearchQuery, activeSession]);
+  }, [activeSearchMatch, activeSearchQuery, activeSession]);
 
   useEffect(() => {
     if (!activeSession || loadingSession) {
@@ -148,6 +171,12 @@ export const ConversationMain = ({
     }
   }, [activeSession, loadingSession]);
 
+  // Full-thread mode is per session; opening another session starts with its own turns only.
+  const activeSessionId = activeSession?.id ?? null;
+  useEffect(() => {
+    if (activeSessionId) setShowFullThread(false);
+  }, [activeSessionId]);
+
   useEffect(() => {
     if (!activeSession || loadingSession) return;
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -274,6 +303,24 @@ export const ConversationMain = ({
     jumpToTurn(targetId, { historyMode: 'replace', scroll: true });
   }, [jumpToTurn, navigableTurnIds]);
 
+  const getCommandHref = useCallback(
+    (entry: CommandEntry) => buildSessionUrl(entry.session_path, entry.turn_id, activeSearchQuery, activeSearchMatch),
+    [activeSearchMatch, activeSearchQuery],
+  );
+
+  const handleSelectCommand = useCallback(
+    (entry: CommandEntry) => {
+      if (entry.turn_id === null) return;
+      jumpToTurn(entry.turn_id, { historyMode: 'replace', scroll: true });
+    },
+    [jumpToTurn],
+  );
+
+  const handleSelectFileTurn = useCallback(
+    (turnId: number) => jumpToTurn(turnId, { historyMode: 'replace', scroll: true }),
+    [jumpToTurn],
+  );
+
   const canNavigateTurns = navigableTurnIds.length > 0;
   const canJumpPrev = canNavigateTurns && activeTurnIndex > 0;
   const canJumpNext = canNavigateTurns && activeTurnIndex >= 0 && activeTurnIndex < navigableTurnIds.length - 1;
@@ -495,6 +542,10 @@ export const ConversationMain = ({
           filteredTurns={filteredTurns}
           visibleItemCount={visibleItemCount}
           stats={stats}
+          filesChanged={filesChanged}
+          onSelectTurn={handleSelectFileTurn}
+          lineage={lineage}
+          onOpenSession={onLoadSession}
           showThoughts={showThoughts}
           showTools={showTools}
           showMeta={showMeta}
@@ -507,8 +558,49 @@ export const ConversationMain = ({
           onShowFullContentChange={setShowFullContent}
           showToggles={false}
         />
+        {ancestors.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowFullThread((value) => !value)}
+            aria-pressed={showFullThread}
+            className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-medium text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900"
+          >
+            <GitFork className="h-3.5 w-3.5" />
+            {showFullThread
+              ? 'Show this session only'
+              : `View full thread · ${ancestors.length} earlier session${ancestors.length === 1 ? '' : 's'}`}
+          </button>
+        )}
+        {sessionCommands.commands.length > 0 && (
+          <details className="group">
+            <summary className="inline-flex cursor-pointer list-none items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-medium text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900">
+              Commands · {sessionCommands.commands.length}
+              {sessionCommands.truncated ? '+' : ''}
+            </summary>
+            <CommandsPanel
+              className="mt-3"
+              description="Shell commands run in this session. Select one to jump to its turn."
+              commands={sessionCommands.commands}
+              truncated={sessionCommands.truncated}
+              loading={sessionCommands.loading}
+              error={sessionCommands.error}
+              getHref={getCommandHref}
+              onSelectCommand={handleSelectCommand}
+            />
+          </details>
+        )}
         <div className="sticky top-[calc(env(safe-area-inset-top)+0.75rem)] z-20">{renderToggleBar()}</div>
 
+        {showFullThread && (
+          <ThreadSegmentList
+            segments={threadSegments}
+            loading={thread.loading}
+            error={thread.error}
+            showFullContent={showFullContent}
+            onOpenSession={onLoadSession}
+          />
+        )}
+
         <TurnList
           filteredTurns={filteredTurns}
           loadingSession={loadingSession}
@@ -1,39 +1,54 @@
 import { Home, Settings } from 'lucide-react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { CanvasView } from './CanvasView';
 import { ConversationMain } from './ConversationMain';
+import { CommandsPanel } from './components/CommandsPanel';
 import { SearchPanel } from './components/SearchPanel';
 import { SessionsPanel } from './components/SessionsPanel';
 import { SettingsModal } from './components/SettingsModal';
 import { Sidebar } from './components/Sidebar';
 import { WorkspacesPanel } from './components/WorkspacesPanel';
+import { formatWorkspacePath } from './format';
+import { useCommands } from './hooks/useCommands';
 import { useRenderDebug } from './hooks/useRenderDebug';
 import { useSearch } from './hooks/useSearch';
 import { useSession } from './hooks/useSession';
 import { useSessions } from './hooks/useSessions';
 import { useUrlSync } from './hooks/useUrlSync';
 import { useWorkspaces } from './hooks/useWorkspaces';
+import { findSessionRoot, formatRootsSummary, hasMultipleRoots } from './roots';
 import { StickyTest } from './StickyTest';
+import type { CommandEntry, SessionRoot } from './types';
+import { buildSessionUrl } from './url';
 
 export default function ConversationViewer() {
   const [apiError, setApiError] = useState<string | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [activeWorkspace, setActiveWorkspace] = useState<string | null>(null);
+  const [abortedOnly, setAbortedOnly] = useState(false);
 
   const {
     sessionsTree,
-    sessionsRoot,
-    setSessionsRoot,
+    sessionRoots,
+    setSessionRoots,
     sessionsRootSource,
+    scanFilters,
+    setScanFilters,
+    saveScanFilters,
+    archiveConfig,
+    setKeepDeletedSessions,
+    purgeArchive,
     loadSessions,
-    saveRoot,
+    saveRoots,
     reindex,
     rebuildIndex,
+    cancelIndex,
     loadingSessions,
     reindexing,
     clearingIndex,
     indexSummary,
-  } = useSessions({ onError: setApiError, workspace: activeWorkspace });
+    indexJob,
+  } = useSessions({ onError: setApiError, workspace: activeWorkspace, abortedOnly });
 
   const {
     turns,
@@ -41,6 +56,7 @@ export default function ConversationViewer() {
     activeSession,
     sessionDetails,
     activeSearchQuery,
+    activeSearchMatch,
     loadingSession,
     loadSession,
     clearSession,
@@ -58,17 +74,29 @@ export default function ConversationViewer() {
     searchGroups,
     searchStatus,
     searchError,
+    searchSyntaxError,
+    searchQualifiers,
+    removeSearchQualifier,
     searchTooShort,
     resultSort,
     setResultSort,
     groupSort,
     setGroupSort,
+    resultMode,
+    setResultMode,
+    matchMode,
+    setMatchMode,
+    messageResults,
+    hasMoreMessages,
+    loadingMoreMessages,
+    loadMoreMessages,
     handleSearchKeyDown,
     handleSearchPasteUuid,
   } = useSearch({
     onError: setApiError,
     onLoadSession: loadSession,
     workspace: activeWorkspace,
+    abortedOnly,
   });
 
   const {
@@ -81,9 +109,19 @@ export default function ConversationViewer() {
 
   useUrlSync(loadSession, clearSession);
 
+  // Saved roots from /api/sessions win over the unsaved Settings draft.
+  const roots = useMemo(
+    () => sessionsTree?.roots ?? sessionRoots.filter((root): root is SessionRoot => Boolean(root.id)),
+    [sessionRoots, sessionsTree],
+  );
+  const rootsSummary = formatRootsSummary(roots);
+  const activeRootPath = findSessionRoot(roots, activeSession?.id)?.path ?? '';
+  const showRootLabels = hasMultipleRoots(roots);
+
   useRenderDebug('ConversationViewer', {
     activeSessionId: activeSession?.id ?? null,
     activeWorkspace,
+    abortedOnly,
     settingsOpen,
     loadingSessions,
     loadingSession,
@@ -92,7 +130,7 @@ export default function ConversationViewer() {
     searchQuery,
     resultSort,
     groupSort,
-    sessionsTreeRoot: sessionsTree?.root ?? null,
+    sessionsTreeRoots: rootsSummary,
   });
 
   useEffect(() => {
@@ -100,6 +138,11 @@ export default function ConversationViewer() {
     setActiveWorkspace(null);
   }, [activeSession, activeWorkspace]);
 
+  useEffect(() => {
+    if (!activeSession || !abortedOnly) return;
+    setAbortedOnly(false);
+  }, [activeSession, abortedOnly]);
+
   const handleClearIndex = useCallback(async () => {
     const confirmed = window.confirm('This will clear the index and rebuild it from scratch. Continue?');
     if (!confirmed) return;
@@ -107,11 +150,11 @@ export default function ConversationViewer() {
     await loadWorkspaces();
   }, [loadWorkspaces, rebuildIndex]);
 
-  const handleSaveRoot = useCallback(async () => {
-    await saveRoot();
+  const handleSaveRoots = useCallback(async () => {
+    await saveRoots();
     setActiveWorkspace(null);
     await loadWorkspaces();
-  }, [loadWorkspaces, saveRoot]);
+  }, [loadWorkspaces, saveRoots]);
 
   const handleReindex = useCallback(async () => {
     await reindex();
@@ -138,6 +181,16 @@ export default function ConversationViewer() {
   }, [clearSession, isCanvas, locationPath]);
 
   const showHome = !activeSession && !loadingSession && !isCanvas && !isStickyTest;
+  const workspaceCommands = useCommands({ workspace: showHome ? activeWorkspace : null });
+
+  const getCommandHref = useCallback((entry: CommandEntry) => buildSessionUrl(entry.session_path, entry.turn_id), []);
+
+  const handleSelectCommand = useCallback(
+    (entry: CommandEntry) => {
+      loadSession(entry.session_path, entry.turn_id ?? undefined);
+    },
+    [loadSession],
+  );
 
   const headerClassName = showHome
     ? 'flex flex-col gap-3 rounded-3xl border border-white/70 bg-white/70 px-6 py-5 shadow-soft backdrop-blur'
@@ -207,7 +260,7 @@ export default function ConversationViewer() {
         ) : isCanvas ? (
           <CanvasView
             sessionsTree={sessionsTree}
-            sessionsRoot={sessionsRoot}
+            sessionsRoot={activeRootPath}
             loadingSessions={loadingSessions}
             onRefreshSessions={loadSessions}
             onLoadSession={loadSession}
@@ -226,9 +279,23 @@ export default function ConversationViewer() {
               activeWorkspace={activeWorkspace}
               onClearWorkspace={handleClearWorkspace}
               showWorkspaceFilter
+              abortedOnly={abortedOnly}
+              onAbortedOnlyChange={setAbortedOnly}
+              showRootLabels={showRootLabels}
               searchGroups={searchGroups}
               searchStatus={searchStatus}
               searchError={searchError}
+              searchSyntaxError={searchSyntaxError}
+              searchQualifiers={searchQualifiers}
+              onRemoveSearchQualifier={removeSearchQualifier}
+              resultMode={resultMode}
+              onResultModeChange={setResultMode}
+              matchMode={matchMode}
+              onMatchModeChange={setMatchMode}
+              messageResults={messageResults}
+              hasMoreMessages={hasMoreMessages}
+              loadingMoreMessages={loadingMoreMessages}
+              onLoadMoreMessages={loadMoreMessages}
               searchTooShort={searchTooShort}
               resultSort={resultSort}
               groupSort={groupSort}
@@ -250,7 +317,7 @@ export default function ConversationViewer() {
               <SessionsPanel
                 className="min-w-0"
                 sessionsTree={sessionsTree}
-                sessionsRoot={sessionsRoot}
+                sessionsRoot={rootsSummary}
                 loading={loadingSessions}
                 onRefreshSessions={loadSessions}
                 onLoadSession={loadSession}
@@ -258,14 +325,27 @@ export default function ConversationViewer() {
                 activeWorkspace={activeWorkspace}
                 onClearWorkspace={handleClearWorkspace}
                 showWorkspaceFilter
+                abortedOnly={abortedOnly}
+                onAbortedOnlyChange={setAbortedOnly}
               />
             </div>
+            {activeWorkspace && (
+              <CommandsPanel
+                description={`Shell commands run in ${formatWorkspacePath(activeWorkspace)}, newest first.`}
+                commands={workspaceCommands.commands}
+                truncated={workspaceCommands.truncated}
+                loading={workspaceCommands.loading}
+                error={workspaceCommands.error}
+                getHref={getCommandHref}
+                onSelectCommand={handleSelectCommand}
+              />
+            )}
           </div>
         ) : (
           <div className="flex flex-col gap-6 lg:flex-row-reverse">
             <Sidebar
               sessionsTree={sessionsTree}
-              sessionsRoot={sessionsRoot}
+              sessionsRoot={rootsSummary}
               sessionsLoading={loadingSessions}
               searchQuery={searchQuery}
               onSearchQueryChange={setSearchQuery}
@@ -275,6 +355,17 @@ export default function ConversationViewer() {
               searchGroups={searchGroups}
               searchStatus={searchStatus}
               searchError={searchError}
+              searchSyntaxError={searchSyntaxError}
+              searchQualifiers={searchQualifiers}
+              onRemoveSearchQualifier={removeSearchQualifier}
+              resultMode={resultMode}
+              onResultModeChange={setResultMode}
+              matchMode={matchMode}
+              onMatchModeChange={setMatchMode}
+              messageResults={messageResults}
+              hasMoreMessages={hasMoreMessages}
+              loadingMoreMessages={loadingMoreMessages}
+              onLoadMoreMessages={loadMoreMessages}
               searchTooShort={searchTooShort}
               resultSort={resultSort}
               groupSort={groupSort}
@@ -292,11 +383,13 @@ export default function ConversationViewer() {
               parseErrors={parseErrors}
               activeSession={activeSession}
               sessionDetails={sessionDetails}
-              sessionsRoot={sessionsTree?.root || sessionsRoot}
+              sessionsRoot={activeRootPath}
               loadingSession={loadingSession}
               activeSearchQuery={activeSearchQuery}
+              activeSearchMatch={activeSearchMatch}
               jumpToTurn={jumpToTurn}
               setSessionSearchQuery={setSessionSearchQuery}
+              onLoadSession={loadSession}
               onGoHome={handleGoHome}
             />
           </div>
@@ -305,15 +398,23 @@ export default function ConversationViewer() {
 
       <SettingsModal
         open={settingsOpen}
-        sessionsRoot={sessionsRoot}
+        sessionRoots={sessionRoots}
         sessionsRootSource={sessionsRootSource}
         indexSummary={indexSummary}
         reindexing={reindexing}
         clearingIndex={clearingIndex}
-        onSessionsRootChange={setSessionsRoot}
-        onSaveRoot={handleSaveRoot}
+        indexJob={indexJob}
+        scanFilters={scanFilters}
+        onSessionRootsChange={setSessionRoots}
+        onSaveRoots={handleSaveRoots}
+        onScanFiltersChange={setScanFilters}
+        onSaveScanFilters={saveScanFilters}
+        archiveConfig={archiveConfig}
+        onKeepDeletedSessionsChange={setKeepDeletedSessions}
+        onPurgeArchive={purgeArchive}
         onReindex={handleReindex}
         onClearIndex={handleClearIndex}
+        onCancelIndex={cancelIndex}
         onClose={() => setSettingsOpen(false)}
       />
     </div>
@@ -1,23 +1,41 @@
 import type {
-  IndexSummary,
+  ArchiveConfig,
+  ArchivePurgeResponse,
+  CommandsResponse,
+  EventTypesResponse,
+  IndexDiagnosticsResponse,
+  IndexJobResponse,
+  IndexStatusResponse,
+  IndexUpdatedEvent,
+  MessageSearchResponse,
+  ScanFilters,
   SearchGroupSort,
+  SearchMatchMode,
   SearchResponse,
   SearchResultSort,
+  SearchSyntaxError,
+  SessionLineageResponse,
   SessionMatchesResponse,
+  SessionRootDraft,
+  SessionRootsConfig,
   SessionTree,
   WorkspaceSummary,
 } from './types';
 
 const parseError = async (res: Response, fallback: string): Promise<never> => {
   let message = fallback;
+  let syntax: SearchSyntaxError | undefined;
   try {
     const data = await res.json();
     if (data?.error) message = data.error;
+    syntax = data?.syntax;
   } catch (_error) {
     // ignore json parse failures
   }
-  const error = new Error(message) as Error & { status?: number };
+  const error = new Error(message) as Error & { status?: number; syntax?: SearchSyntaxError };
   error.status = res.status;
+  // Search endpoints explain a malformed query with its offset, for inline display.
+  if (syntax) error.syntax = syntax;
   throw error;
 };
 
@@ -26,12 +44,19 @@ export const fetchConfig = async () => {
   if (!res.ok) {
     throw new Error('Unable to load config.');
   }
-  return (await res.json()) as { value?: string; source?: string };
+  return (await res.json()) as SessionRootsConfig;
 };
 
-export const fetchSessions = async (workspace?: string | null) => {
-  const query = workspace ? `?workspace=${encodeURIComponent(workspace)}` : '';
-  const res = await fetch(`/api/sessions${query}`);
+export const fetchSessions = async (workspace?: string | null, abortedOnly = false) => {
+  const params = new URLSearchParams();
+  if (workspace) {
+    params.set('workspace', workspace);
+  }
+  if (abortedOnly) {
+    params.set('aborted', '1');
+  }
+  const query = params.toString();
+  const res = await fetch(`/api/sessions${query ? `?${query}` : ''}`);
   if (!res.ok) {
     await parseError(res, 'Unable to load sessions.');
   }
@@ -46,6 +71,15 @@ export const fetchSession = async (sessionId: string) => {
   return await res.text();
 };
 
+// Literal search is `match=literal`, regex search `mode=regex`; word search needs neither.
+const setMatchParam = (params: URLSearchParams, match?: SearchMatchMode) => {
+  if (match === 'literal') {
+    params.set('match', 'literal');
+  } else if (match === 'regex') {
+    params.set('mode', 'regex');
+  }
+};
+
 export const searchSessions = async (
   query: string,
   limit = 40,
@@ -53,14 +87,20 @@ export const searchSessions = async (
   requestId?: string | null,
   resultSort: SearchResultSort = 'relevance',
   groupSort: SearchGroupSort = 'last_seen',
+  abortedOnly = false,
+  match: SearchMatchMode = 'word',
 ): Promise<SearchResponse> => {
   const params = new URLSearchParams({ q: query, limit: String(limit) });
   if (workspace) {
     params.set('workspace', workspace);
   }
+  if (abortedOnly) {
+    params.set('aborted', '1');
+  }
   if (requestId) {
     params.set('requestId', requestId);
   }
+  setMatchParam(params, match);
   params.set('resultSort', resultSort);
   params.set('groupSort', groupSort);
   const res = await fetch(`/api/search?${params.toString()}`);
@@ -71,10 +111,97 @@ export const searchSessions = async (
   return {
     groups: data?.groups ?? [],
     tokens: data?.tokens ?? [],
+    qualifiers: data?.qualifiers ?? [],
     requestId: data?.requestId,
   };
 };
 
+export const searchMessages = async (
+  query: string,
+  options: {
+    limit?: number;
+    workspace?: string | null;
+    requestId?: string | null;
+    resultSort?: SearchResultSort;
+    abortedOnly?: boolean;
+    cursor?: string | null;
+    match?: SearchMatchMode;
+  } = {},
+): Promise<MessageSearchResponse> => {
+  const params = new URLSearchParams({ q: query, limit: String(options.limit ?? 50) });
+  if (options.workspace) {
+    params.set('workspace', options.workspace);
+  }
+  if (options.abortedOnly) {
+    params.set('aborted', '1');
+  }
+  if (options.requestId) {
+    params.set('requestId', options.requestId);
+  }
+  if (options.resultSort) {
+    params.set('resultSort', options.resultSort);
+  }
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
+  }
+  setMatchParam(params, options.match);
+  const res = await fetch(`/api/search/messages?${params.toString()}`);
+  if (!res.ok) {
+    await parseError(res, 'Search failed.');
+  }
+  const data = (await res.json()) as MessageSearchResponse | null;
+  return {
+    results: data?.results ?? [],
+    tokens: data?.tokens ?? [],
+    qualifiers: data?.qualifiers ?? [],
+    nextCursor: data?.nextCursor ?? null,
+    requestId: data?.requestId,
+  };
+};
+
+export const fetchCommands = async (filters: { session?: string | null; workspace?: string | null }) => {
+  const params = new URLSearchParams();
+  if (filters.session) {
+    params.set('session', filters.session);
+  }
+  if (filters.workspace) {
+    params.set('workspace', filters.workspace);
+  }
+  const res = await fetch(`/api/commands?${params.toString()}`);
+  if (!res.ok) {
+    await parseError(res, 'Unable to load commands.');
+  }
+  const data = (await res.json()) as CommandsResponse | null;
+  return { commands: data?.commands ?? [], truncated: data?.truncated ?? false };
+};
+
+export const fetchIndexDiagnostics = async () => {
+  const res = await fetch('/api/index/diagnostics');
+  if (!res.ok) {
+    await parseError(res, 'Unable to load index diagnostics.');
+  }
+  return (await res.json()) as IndexDiagnosticsResponse;
+};
+
+export const fetchEventTypes = async () => {
+  const res = await fetch('/api/index/event-types');
+  if (!res.ok) {
+    await parseError(res, 'Unable to load event types.');
+  }
+  const data = (await res.json()) as EventTypesResponse | null;
+  return data?.event_types ?? [];
+};
+
+export const fetchLineage = async (sessionId: string) => {
+  const res = await fetch(`/api/lineage?session=${encodeURIComponent(sessionId)}`);
+  if (!res.ok) {
+    // Sessions that are not indexed yet have no lineage to show.
+    if (res.status === 404) return null;
+    await parseError(res, 'Unable to load session lineage.');
+  }
+  return (await res.json()) as SessionLineageResponse;
+};
+
 export const fetchWorkspaces = async (sort: 'last_seen' | 'session_count' = 'last_seen') => {
   const res = await fetch(`/api/workspaces?sort=${encodeURIComponent(sort)}`);
   if (!res.ok) {
@@ -84,17 +211,64 @@ export const fetchWorkspaces = async (sort: 'last_seen' | 'session_count' = 'las
   return (data?.workspaces || []) as WorkspaceSummary[];
 };
 
-export const saveConfig = async (sessionsRoot: string) => {
+export const saveConfig = async (roots: SessionRootDraft[]) => {
   const res = await fetch('/api/config', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ sessionsRoot }),
+    body: JSON.stringify({ roots }),
   });
   if (!res.ok) {
     await parseError(res, 'Unable to update config.');
   }
-  const data = await res.json();
-  return data as { value?: string; source?: string };
+  return (await res.json()) as SessionRootsConfig;
+};
+
+export const fetchScanFilters = async () => {
+  const res = await fetch('/api/config/scan-filters');
+  if (!res.ok) {
+    await parseError(res, 'Unable to load scan filters.');
+  }
+  return (await res.json()) as ScanFilters;
+};
+
+export const saveScanFilters = async (filters: ScanFilters) => {
+  const res = await fetch('/api/config/scan-filters', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(filters),
+  });
+  if (!res.ok) {
+    await parseError(res, 'Unable to update scan filters.');
+  }
+  return (await res.json()) as ScanFilters;
+};
+
+export const fetchArchiveConfig = async () => {
+  const res = await fetch('/api/config/archive');
+  if (!res.ok) {
+    await parseError(res, 'Unable to load archive settings.');
+  }
+  return (await res.json()) as ArchiveConfig;
+};
+
+export const saveArchiveConfig = async (keepDeletedSessions: boolean) => {
+  const res = await fetch('/api/config/archive', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ keepDeletedSessions }),
+  });
+  if (!res.ok) {
+    await parseError(res, 'Unable to update archive settings.');
+  }
+  return (await res.json()) as ArchiveConfig;
+};
+
+export const purgeArchivedSessions = async () => {
+  const res = await fetch('/api/archive/purge', { method: 'POST' });
+  if (!res.ok) {
+    await parseError(res, 'Unable to purge archived sessions.');
+  }
+  return (await res.json()) as ArchivePurgeResponse;
 };
 
 export const reindexSessions = async () => {
@@ -102,8 +276,8 @@ export const reindexSessions = async () => {
   if (!res.ok) {
     await parseError(res, 'Reindex failed.');
   }
-  const data = await res.json();
-  return data.summary as IndexSummary;
+  const data = (await res.json()) as IndexJobResponse;
+  return data.job;
 };
 
 export const clearIndex = async () => {
@@ -111,8 +285,34 @@ export const clearIndex = async () => {
   if (!res.ok) {
     await parseError(res, 'Clear index failed.');
   }
-  const data = await res.json();
-  return data.summary as IndexSummary;
+  const data = (await res.json()) as IndexJobResponse;
+  return data.job;
+};
+
+export const fetchIndexJob = async (jobId: string) => {
+  const res = await fetch(`/api/index/jobs/${encodeURIComponent(jobId)}`);
+  if (!res.ok) {
+    await parseError(res, 'Unable to load index progress.');
+  }
+  const data = (await res.json()) as IndexJobResponse;
+  return data.job;
+};
+
+export const cancelIndexJob = async (jobId: string) => {
+  const res = await fetch(`/api/index/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' });
+  if (!res.ok) {
+    await parseError(res, 'Unable to cancel indexing.');
+  }
+  const data = (await res.json()) as IndexJobResponse;
+  return data.job;
+};
+
+export const fetchIndexStatus = async () => {
+  const res = await fetch('/api/index/status');
+  if (!res.ok) {
+    await parseError(res, 'Unable to load index status.');
+  }
+  return (await res.json()) as IndexStatusResponse;
 };
 
 export const resolveSession = async (query: string, workspace?: string | null, requestId?: string | null) => {
@@ -132,11 +332,17 @@ export const resolveSession = async (query: string, workspace?: string | null, r
   return data?.id ? (data.id as string) : null;
 };
 
-export const fetchSessionMatches = async (sessionId: string, query: string, requestId?: string | null) => {
+export const fetchSessionMatches = async (
+  sessionId: string,
+  query: string,
+  requestId?: string | null,
+  match: SearchMatchMode = 'word',
+) => {
   const params = new URLSearchParams({ session: sessionId, q: query });
   if (requestId) {
     params.set('requestId', requestId);
   }
+  setMatchParam(params, match);
   const res = await fetch(`/api/session-matches?${params.toString()}`);
   if (!res.ok) {
     await parseError(res, 'Unable to load session matches.');
@@ -149,3 +355,36 @@ export const fetchSessionMatches = async (sessionId: string, query: string, requ
     requestId: data?.requestId,
   } as SessionMatchesResponse;
 };
+
+type IndexEventListener = (event: IndexUpdatedEvent) => void;
+
+const indexEventListeners = new Set<IndexEventListener>();
+let indexEventSource: EventSource | null = null;
+
+const handleIndexUpdated = (message: MessageEvent<string>) => {
+  let event: IndexUpdatedEvent;
+  try {
+    event = JSON.parse(message.data) as IndexUpdatedEvent;
+  } catch (_error) {
+    return;
+  }
+  for (const listener of indexEventListeners) {
+    listener(event);
+  }
+};
+
+// One shared EventSource for every subscriber; the browser handles reconnects on its own.
+export const subscribeIndexEvents = (listener: IndexEventListener) => {
+  indexEventListeners.add(listener);
+  if (!indexEventSource) {
+    indexEventSource = new EventSource('/api/events');
+    indexEventSource.addEventListener('index-updated', handleIndexUpdated);
+  }
+  return () => {
+    indexEventListeners.delete(listener);
+    if (indexEventListeners.size === 0 && indexEventSource) {
+      indexEventSource.close();
+      indexEventSource = null;
+    }
+  };
+};
@@ -35,6 +35,7 @@ const SessionHeaderVariant = ({
     filteredTurns,
     visibleItemCount,
     stats,
+    filesChanged,
   } = useSessionOverview(context.turns);
 
   return (
@@ -47,6 +48,7 @@ const SessionHeaderVariant = ({
       filteredTurns={filteredTurns}
       visibleItemCount={visibleItemCount}
       stats={stats}
+      filesChanged={filesChanged}
       HeaderComponent={HeaderComponent}
       toggleVariant={toggleVariant}
       showToggleCountsWhenOff={showToggleCountsWhenOff}
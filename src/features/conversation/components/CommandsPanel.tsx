@@ -0,0 +1,147 @@
+import { Hourglass, Repeat2, SquareTerminal } from 'lucide-react';
+import { OverlayScrollbarsComponent } from 'overlayscrollbars-react';
+import { formatDate, formatShortDurationMs, formatTime, formatWorkspacePath } from '../format';
+import type { CommandEntry } from '../types';
+import { SessionLink } from './SessionLink';
+
+interface CommandsPanelProps {
+  title?: string;
+  description?: string;
+  commands: CommandEntry[];
+  truncated?: boolean;
+  loading: boolean;
+  error?: string | null;
+  getHref: (entry: CommandEntry) => string;
+  onSelectCommand: (entry: CommandEntry) => void;
+  className?: string;
+}
+
+const ExitCodeChip = ({ exitCode }: { exitCode: number | null }) => {
+  if (exitCode === null) {
+    return (
+      <span className="chip chip-xs chip-muted font-medium text-slate-400" title="No exit code recorded">
+        —
+      </span>
+    );
+  }
+  return exitCode === 0 ? (
+    <span className="chip chip-xs font-medium bg-emerald-50 text-emerald-700" title="Exit code 0">
+      ok
+    </span>
+  ) : (
+    <span className="chip chip-xs font-medium bg-rose-50 text-rose-700" title={`Exit code ${exitCode}`}>
+      exit {exitCode}
+    </span>
+  );
+};
+
+export const CommandsPanel = ({
+  title = 'Commands',
+  description,
+  commands,
+  truncated = false,
+  loading,
+  error,
+  getHref,
+  onSelectCommand,
+  className,
+}: CommandsPanelProps) => {
+  const failedCount = commands.filter((entry) => entry.exit_code !== null && entry.exit_code !== 0).length;
+
+  return (
+    <div className={className}>
+      <div className="rounded-3xl border border-white/70 bg-white/80 p-5 shadow-card backdrop-blur">
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="flex min-w-0 flex-col gap-1">
+              <h2 className="inline-flex items-center gap-2 text-lg text-slate-900">
+                <SquareTerminal className="h-4 w-4 text-slate-500" />
+                {title}
+              </h2>
+              {description && <p className="truncate text-xs text-slate-500">{description}</p>}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              {loading && <span className="rounded-full bg-slate-100 px-2 py-1">Loading…</span>}
+              {!loading && (
+                <span className="rounded-full bg-slate-100 px-2 py-1">
+                  {commands.length}
+                  {truncated ? '+' : ''} {commands.length === 1 ? 'command' : 'commands'}
+                  {failedCount ? ` · ${failedCount} failed` : ''}
+                </span>
+              )}
+            </div>
+          </div>
+          {error ? (
+            <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+          ) : !loading && commands.length === 0 ? (
+            <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-6 text-center text-sm text-slate-500">
+              No shell commands recorded.
+            </div>
+          ) : (
+            <OverlayScrollbarsComponent
+              className="max-h-[50vh]"
+              options={{
+                overflow: { x: 'hidden', y: 'scroll' },
+                scrollbars: {
+                  theme: 'os-theme-codex',
+                  autoHide: 'scroll',
+                  autoHideDelay: 800,
+                },
+              }}
+              data-overlayscrollbars-initialize
+            >
+              <ol className="space-y-2">
+                {commands.map((entry) => {
+                  const durationLabel = formatShortDurationMs(entry.wall_time_ms);
+                  return (
+                    <li key={entry.id}>
+                      <SessionLink
+                        href={getHref(entry)}
+                        onNavigate={() => onSelectCommand(entry)}
+                        className="block rounded-2xl border border-slate-100 bg-white px-3 py-2 text-xs text-slate-600 transition hover:border-teal-200 hover:text-slate-900"
+                      >
+                        <div className="flex items-start gap-2">
+                          <ExitCodeChip exitCode={entry.exit_code} />
+                          <code
+                            className="min-w-0 flex-1 truncate font-mono text-[12px] text-slate-800"
+                            title={entry.command}
+                          >
+                            {entry.command}
+                          </code>
+                        </div>
+                        <div className="mt-1.5 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+                          {entry.turn_id !== null && (
+                            <span className="chip chip-xs chip-white chip-shadow gap-1">
+                              <Repeat2 className="h-3 w-3" />
+                              Turn {entry.turn_id}
+                            </span>
+                          )}
+                          {durationLabel && (
+                            <span className="chip chip-xs chip-white chip-shadow gap-1">
+                              <Hourglass className="h-3 w-3" />
+                              {durationLabel}
+                            </span>
+                          )}
+                          {entry.called_at && (
+                            <span>
+                              {formatDate(entry.called_at)} {formatTime(entry.called_at, true)}
+                            </span>
+                          )}
+                          {entry.workdir && (
+                            <span className="truncate" title={entry.workdir}>
+                              {formatWorkspacePath(entry.workdir)}
+                            </span>
+                          )}
+                        </div>
+                      </SessionLink>
+                    </li>
+                  );
+                })}
+              </ol>
+            </OverlayScrollbarsComponent>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { formatCompactCount, formatTimestamp } from '../format';
+import type { EventTypeSummary } from '../types';
+
+interface EventTypesPanelProps {
+  eventTypes: EventTypeSummary[];
+  loading: boolean;
+  error: string | null;
+}
+
+// Catalogue of every JSONL event type in the index; unknown ones are the parser's blind spots after a Codex update.
+export const EventTypesPanel = ({ eventTypes, loading, error }: EventTypesPanelProps) => {
+  const [unknownOnly, setUnknownOnly] = useState(true);
+  const unknownCount = eventTypes.filter((eventType) => !eventType.known).length;
+  const visible = unknownOnly ? eventTypes.filter((eventType) => !eventType.known) : eventTypes;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Event types</span>
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          <input
+            type="checkbox"
+            checked={unknownOnly}
+            onChange={(event) => setUnknownOnly(event.target.checked)}
+            className="h-3.5 w-3.5 accent-teal-600"
+          />
+          Unknown only ({unknownCount} of {eventTypes.length})
+        </label>
+      </div>
+      {error && (
+        <div className="mt-2 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+          {error}
+        </div>
+      )}
+      {!error && loading && !eventTypes.length && (
+        <div className="mt-2 text-xs text-slate-500">Loading event types…</div>
+      )}
+      {!error && !loading && !visible.length && (
+        <div className="mt-2 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600">
+          {unknownOnly ? 'The parser recognises every indexed event type.' : 'No event types indexed yet.'}
+        </div>
+      )}
+      {visible.length > 0 && (
+        <ul className="mt-2 max-h-64 divide-y divide-slate-100 overflow-auto rounded-2xl border border-slate-200">
+          {visible.map((eventType) => (
+            <li key={eventType.type_key} className="px-3 py-2 text-xs text-slate-600">
+              <details className="group">
+                <summary className="flex cursor-pointer list-none items-center gap-2">
+                  <code className="min-w-0 flex-1 truncate font-mono text-[11px] text-slate-800">
+                    {eventType.type_key}
+                  </code>
+                  {!eventType.known && <span className="chip chip-xs chip-white text-amber-700">unknown</span>}
+                  <span className="tabular-nums" title={`${eventType.event_count} events`}>
+                    {formatCompactCount(eventType.event_count)} × {eventType.file_count} files
+                  </span>
+                </summary>
+                <div className="mt-2 space-y-1">
+                  {eventType.first_seen_path && (
+                    <div className="truncate" title={eventType.first_seen_path}>
+                      First seen in <span className="font-mono">{eventType.first_seen_path}</span>
+                      {eventType.first_seen_at && ` · ${formatTimestamp(eventType.first_seen_at, false)}`}
+                    </div>
+                  )}
+                  {eventType.sample_line && (
+                    <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-xl bg-slate-50 p-2 font-mono text-[11px] text-slate-700">
+                      {eventType.sample_line}
+                    </pre>
+                  )}
+                </div>
+              </details>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
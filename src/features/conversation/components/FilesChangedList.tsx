@@ -0,0 +1,64 @@
+import { FileMinus, FilePen, FilePlus } from 'lucide-react';
+import type { SessionFileSummary } from '../types';
+
+interface FilesChangedListProps {
+  files: SessionFileSummary[];
+  onSelectTurn?: (turnId: number) => void;
+  className?: string;
+}
+
+const OPERATION_ICONS = {
+  add: { Icon: FilePlus, className: 'text-emerald-600', label: 'Added' },
+  update: { Icon: FilePen, className: 'text-slate-500', label: 'Modified' },
+  delete: { Icon: FileMinus, className: 'text-rose-600', label: 'Deleted' },
+} as const;
+
+// Collapsible list of the files a session's patch/edit tool calls touched, with links to the turns.
+export const FilesChangedList = ({ files, onSelectTurn, className }: FilesChangedListProps) => {
+  if (!files.length) return null;
+  return (
+    <details className={['group', className].filter(Boolean).join(' ')}>
+      <summary className="inline-flex cursor-pointer list-none items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-medium text-slate-600 shadow-sm transition hover:border-slate-300 hover:text-slate-900">
+        Files changed · {files.length}
+      </summary>
+      <ul className="mt-3 space-y-1.5">
+        {files.map((file) => {
+          const { Icon, className: iconClassName, label } = OPERATION_ICONS[file.operation];
+          return (
+            <li key={file.path} className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              <Icon className={`h-3.5 w-3.5 shrink-0 ${iconClassName}`} aria-label={label} />
+              <code
+                className="min-w-0 max-w-full truncate font-mono text-[12px] text-slate-800"
+                title={file.movedFrom ? `${file.movedFrom} → ${file.path}` : file.path}
+              >
+                {file.path}
+              </code>
+              {file.operation !== 'delete' && (
+                <span className="font-mono text-[11px]">
+                  <span className="text-emerald-700">+{file.linesAdded}</span>{' '}
+                  <span className="text-rose-700">−{file.linesRemoved}</span>
+                </span>
+              )}
+              {file.turnIds.map((turnId) =>
+                onSelectTurn ? (
+                  <button
+                    key={turnId}
+                    type="button"
+                    onClick={() => onSelectTurn(turnId)}
+                    className="chip chip-xs chip-white chip-shadow chip-button"
+                  >
+                    Turn {turnId}
+                  </button>
+                ) : (
+                  <span key={turnId} className="chip chip-xs chip-white chip-shadow">
+                    Turn {turnId}
+                  </span>
+                ),
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+};
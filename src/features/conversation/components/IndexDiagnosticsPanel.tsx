@@ -0,0 +1,98 @@
+import { formatBytes, formatTimestamp } from '../format';
+import type { FileDiagnostics, IndexDiagnosticsResponse } from '../types';
+
+interface IndexDiagnosticsPanelProps {
+  diagnostics: IndexDiagnosticsResponse | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const describeUnknownTypes = (file: FileDiagnostics) =>
+  Object.entries(file.unknown_event_types)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${type} × ${count}`)
+    .join('\n');
+
+const getProblem = (file: FileDiagnostics) => {
+  if (file.index_error) return file.index_error;
+  if (file.parse_errors.length) return file.parse_errors[0];
+  if (file.unread_bytes > 0) return 'Last line is incomplete';
+  return '';
+};
+
+// Per-file parse health: failed files, malformed lines, unknown event types and truncated tails.
+export const IndexDiagnosticsPanel = ({ diagnostics, loading, error }: IndexDiagnosticsPanelProps) => {
+  const totals = diagnostics?.totals;
+  const files = diagnostics?.files ?? [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Index health</span>
+        {totals && (
+          <span className="text-xs text-slate-500">
+            {totals.files_with_issues} of {totals.files_indexed} files · {totals.malformed_lines} malformed lines ·{' '}
+            {totals.unknown_events} unknown events
+          </span>
+        )}
+      </div>
+      {error && (
+        <div className="mt-2 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+          {error}
+        </div>
+      )}
+      {!error && loading && !diagnostics && <div className="mt-2 text-xs text-slate-500">Loading diagnostics…</div>}
+      {!error && diagnostics && !files.length && (
+        <div className="mt-2 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600">
+          Every indexed file parsed cleanly.
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="mt-2 max-h-64 overflow-auto rounded-2xl border border-slate-200">
+          <table className="w-full text-left text-xs text-slate-600">
+            <thead className="sticky top-0 bg-slate-50 text-[11px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-medium">File</th>
+                <th className="px-3 py-2 text-right font-medium">Malformed</th>
+                <th className="px-3 py-2 text-right font-medium">Unknown</th>
+                <th className="px-3 py-2 text-right font-medium">Unread</th>
+                <th className="px-3 py-2 font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {files.map((file) => {
+                const problem = getProblem(file);
+                return (
+                  <tr key={file.path} className={file.index_error ? 'bg-rose-50/60' : undefined}>
+                    <td
+                      className="max-w-[14rem] truncate px-3 py-2 font-mono text-[11px]"
+                      title={[file.path, formatTimestamp(file.indexed_at, false)].filter(Boolean).join('\nIndexed ')}
+                    >
+                      {file.path}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{file.malformed_lines || ''}</td>
+                    <td className="px-3 py-2 text-right tabular-nums" title={describeUnknownTypes(file) || undefined}>
+                      {file.unknown_event_count || ''}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {file.unread_bytes > 0 ? formatBytes(file.unread_bytes) : ''}
+                    </td>
+                    <td
+                      className={`max-w-[16rem] truncate px-3 py-2 ${file.index_error ? 'text-rose-700' : ''}`}
+                      title={[file.index_error, ...file.parse_errors].filter(Boolean).join('\n') || undefined}
+                    >
+                      {problem}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {diagnostics?.truncated && (
+        <p className="mt-1 text-xs text-slate-500">Showing the first {files.length} files with problems.</p>
+      )}
+    </div>
+  );
+};
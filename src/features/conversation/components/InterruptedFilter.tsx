@@ -0,0 +1,23 @@
+import { Ban } from 'lucide-react';
+
+interface InterruptedFilterProps {
+  active: boolean;
+  onChange: (active: boolean) => void;
+}
+
+// Pill that limits a list to sessions with at least one interrupted (aborted) turn.
+export const InterruptedFilter = ({ active, onChange }: InterruptedFilterProps) => (
+  <button
+    type="button"
+    aria-pressed={active}
+    onClick={() => onChange(!active)}
+    className={
+      active
+        ? 'inline-flex box-border h-6 items-center gap-1.5 rounded-full border border-amber-300 bg-amber-50 px-3 py-1 text-[11px] leading-none text-amber-800 shadow-sm'
+        : 'inline-flex box-border h-6 items-center gap-1.5 rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] leading-none text-slate-600 shadow-sm hover:text-slate-900'
+    }
+  >
+    <Ban className="h-3 w-3" aria-hidden="true" />
+    Interrupted only
+  </button>
+);
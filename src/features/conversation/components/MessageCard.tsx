@@ -4,6 +4,7 @@ import { MAX_PREVIEW_CHARS } from '../format';
 import { MarkdownBlock, markdownToPlainText } from '../markdown';
 import type { ParsedItem } from '../types';
 import { CopyButton } from './CopyButton';
+import { RawEventCard } from './RawEventCard';
 import { TokenCountCard } from './TokenCountCard';
 
 interface MessageCardProps {
@@ -20,6 +21,9 @@ export const MessageCard = ({ item, itemIndex, showFullContent, highlightTokens
   if (item.type === 'token_count') {
     return <TokenCountCard item={item} itemIndex={itemIndex} showFullContent={showFullContent} />;
   }
+  if (item.type === 'raw') {
+    return <RawEventCard item={item} itemIndex={itemIndex} showFullContent={showFullContent} />;
+  }
   const isMarkdownItem = ['user', 'assistant', 'thought'].includes(item.type);
   const displayContent = item.content;
   const truncated =
@@ -0,0 +1,51 @@
+import type { CSSProperties } from 'react';
+import { isRenderDebugEnabled } from '../debug';
+import { MAX_PREVIEW_CHARS } from '../format';
+import type { ParsedItem } from '../types';
+import { CopyButton } from './CopyButton';
+
+interface RawEventCardProps {
+  item: ParsedItem;
+  itemIndex: number;
+  showFullContent: boolean;
+}
+
+// Collapsed JSON for an entry the parser has no rule for, so new Codex event types stay visible.
+export const RawEventCard = ({ item, itemIndex, showFullContent }: RawEventCardProps) => {
+  if (isRenderDebugEnabled && itemIndex === 0) {
+    console.debug('[render] RawEventCard', { id: item.id, type: item.type });
+  }
+  const truncated =
+    !showFullContent && item.content.length > MAX_PREVIEW_CHARS
+      ? `${item.content.slice(0, MAX_PREVIEW_CHARS)}…`
+      : item.content;
+
+  return (
+    <details
+      className="animate-stagger group rounded-2xl border border-dashed border-slate-300 bg-white/60 px-4 py-3 text-sm text-slate-700 shadow-sm"
+      style={{ '--stagger-delay': `${itemIndex * 40}ms` } as CSSProperties}
+    >
+      <summary className="flex cursor-pointer list-none flex-wrap items-center justify-between gap-3">
+        <span className="flex min-w-0 items-center gap-2">
+          <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Raw event</span>
+          <code className="truncate font-mono text-xs text-slate-600">{item.eventType ?? 'unknown'}</code>
+        </span>
+        <span className="text-xs text-slate-400 group-open:hidden">Show</span>
+        <span className="hidden text-xs text-slate-400 group-open:inline">Hide</span>
+      </summary>
+      <div className="mt-3 flex justify-end">
+        <CopyButton
+          text={item.content}
+          idleLabel="Copy"
+          hoverLabel="Copy"
+          ariaLabel="Copy raw event JSON"
+          centered
+          className="chip chip-lg chip-filled chip-shadow chip-button !border-white/70 font-medium justify-center"
+        />
+      </div>
+      <pre className="mt-2 whitespace-pre-wrap break-words rounded-xl bg-slate-50 p-3 text-xs text-slate-800">
+        {truncated || '—'}
+      </pre>
+    </details>
+  );
+};
@@ -1,17 +1,33 @@
-import { ArrowDownWideNarrow, CalendarClock, Folder, GitBranch, Hourglass, Repeat2, Search, X } from 'lucide-react';
+import {
+  ArrowDownWideNarrow,
+  CalendarClock,
+  Folder,
+  GitBranch,
+  HardDrive,
+  Hourglass,
+  Repeat2,
+  Search,
+  X,
+} from 'lucide-react';
 import { type ClipboardEvent, type KeyboardEvent, useEffect, useRef } from 'react';
 import { logSearch } from '../debug';
 import { formatDate, formatDuration, formatDurationMs, formatTime, formatWorkspacePath } from '../format';
 import { renderSnippet } from '../markdown';
 import type {
   LoadSessionOptions,
+  MessageSearchResult,
   SearchGroupSort,
+  SearchMatchMode,
+  SearchQualifier,
+  SearchResultMode,
   SearchResultSort,
   SearchStatus,
+  SearchSyntaxError,
   WorkspaceSearchGroup,
 } from '../types';
 import { buildSessionUrl } from '../url';
 import { GitHubIcon } from './GitHubIcon';
+import { InterruptedFilter } from './InterruptedFilter';
 import { SessionLink } from './SessionLink';
 
 interface SearchPanelProps {
@@ -23,14 +39,28 @@ interface SearchPanelProps {
   activeWorkspace?: string | null;
   onClearWorkspace?: () => void;
   showWorkspaceFilter?: boolean;
+  abortedOnly?: boolean;
+  onAbortedOnlyChange?: (abortedOnly: boolean) => void;
+  showRootLabels?: boolean;
   searchGroups: WorkspaceSearchGroup[];
   searchStatus: SearchStatus;
   searchError?: string | null;
+  searchSyntaxError?: SearchSyntaxError | null;
+  searchQualifiers?: SearchQualifier[];
+  onRemoveSearchQualifier?: (qualifier: SearchQualifier) => void;
   searchTooShort?: boolean;
   resultSort: SearchResultSort;
   groupSort: SearchGroupSort;
   onResultSortChange: (value: SearchResultSort) => void;
   onGroupSortChange: (value: SearchGroupSort) => void;
+  resultMode?: SearchResultMode;
+  onResultModeChange?: (mode: SearchResultMode) => void;
+  matchMode?: SearchMatchMode;
+  onMatchModeChange?: (mode: SearchMatchMode) => void;
+  messageResults?: MessageSearchResult[];
+  hasMoreMessages?: boolean;
+  loadingMoreMessages?: boolean;
+  onLoadMoreMessages?: () => void;
   onLoadSession: (sessionId: string, turnId?: number, options?: LoadSessionOptions) => void;
   className?: string;
 }
@@ -56,6 +86,31 @@ const GROUP_SORT_LABELS: Record<SearchGroupSort, string> = {
   matches: 'Most matches',
 };
 
+const RESULT_MODE_LABELS: Record<SearchResultMode, string> = {
+  sessions: 'Sessions',
+  messages: 'Messages',
+};
+
+const MATCH_MODE_LABELS: Record<SearchMatchMode, string> = {
+  word: 'Words',
+  literal: 'Literal',
+  regex: 'Regex',
+};
+
+const MATCH_MODE_TITLES: Record<SearchMatchMode, string> = {
+  word: 'Match whole words, including other forms (migrate finds migrating)',
+  literal: 'Match exact substrings, including code and punctuation (useEffect(, -rf, path/to)',
+  regex: 'Match a JavaScript regular expression (ERR-\\d{4}, /todo|fixme/i)',
+};
+
+const MESSAGE_ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  thought: 'Thought',
+  tool_call: 'Tool Call',
+  tool_output: 'Tool Output',
+};
+
 export const SearchPanel = ({
   searchQuery,
   onSearchQueryChange,
@@ -65,14 +120,28 @@ export const SearchPanel = ({
   activeWorkspace,
   onClearWorkspace,
   showWorkspaceFilter = true,
+  abortedOnly = false,
+  onAbortedOnlyChange,
+  showRootLabels = false,
   searchGroups,
   searchStatus,
   searchError,
+  searchSyntaxError,
+  searchQualifiers = [],
+  onRemoveSearchQualifier,
   searchTooShort,
   resultSort,
   groupSort,
   onResultSortChange,
   onGroupSortChange,
+  resultMode = 'sessions',
+  onResultModeChange,
+  matchMode = 'word',
+  onMatchModeChange,
+  messageResults = [],
+  hasMoreMessages = false,
+  loadingMoreMessages = false,
+  onLoadMoreMessages,
   onLoadSession,
   className,
 }: SearchPanelProps) => {
@@ -82,9 +151,11 @@ export const SearchPanel = ({
   const isSearching = searchStatus === 'debouncing' || searchStatus === 'loading';
   const showTooShortState = Boolean(searchQuery) && Boolean(searchTooShort);
   const showClearButton = Boolean(searchQuery);
-  const showEmptyState =
-    Boolean(searchQuery) && !showTooShortState && searchStatus === 'success' && searchGroups.length === 0;
-  const showErrorState = searchStatus === 'error';
+  const showMessageResults = resultMode === 'messages';
+  const hasResults = showMessageResults ? messageResults.length > 0 : searchGroups.length > 0;
+  const showEmptyState = Boolean(searchQuery) && !showTooShortState && searchStatus === 'success' && !hasResults;
+  const syntaxError = searchStatus === 'error' ? searchSyntaxError : null;
+  const showErrorState = searchStatus === 'error' && !syntaxError;
   const isWorkspaceFilterActive = Boolean(activeWorkspace);
   const trimmedQuery = searchQuery.trim();
   const searchQueryParam = trimmedQuery || null;
@@ -95,6 +166,22 @@ export const SearchPanel = ({
     }
     onSearchQueryChange('');
   };
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null);
+  // Infinite scroll for message results: fetch the next page as the end of the list nears the viewport. The observer
+  // is recreated after each page (onLoadMoreMessages changes with the cursor), so a still-visible sentinel fires again.
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMoreMessages || !onLoadMoreMessages) return;
+    if (typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMoreMessages();
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreMessages, onLoadMoreMessages]);
   const lastStateRef = useRef({
     status: searchStatus,
     isSearching,
@@ -174,7 +261,11 @@ export const SearchPanel = ({
             <div className="grid gap-3 min-[900px]:grid-cols-[minmax(0,1fr)_auto] min-[900px]:items-start">
               <div className="min-w-0">
                 <h2 className="text-lg text-slate-900">Search sessions</h2>
-                <p className="text-xs text-slate-500">Full-text search across user and assistant messages.</p>
+                <p className="text-xs text-slate-500">
+                  Full-text search across user and assistant messages. Supports <code>"exact phrase"</code>,{' '}
+                  <code>OR</code>, <code>-term</code>, <code>prefix*</code> and filters like <code>role:user</code>,{' '}
+                  <code>branch:main</code> or <code>after:2026-01-01</code>.
+                </p>
               </div>
               <div className="flex flex-wrap items-center justify-start gap-2 min-[900px]:justify-end">
                 <div className="search-sort-desktop search-sort-controls">
@@ -243,6 +334,7 @@ export const SearchPanel = ({
                     Workspace filter off
                   </span>
                 )}
+                {onAbortedOnlyChange && <InterruptedFilter active={abortedOnly} onChange={onAbortedOnlyChange} />}
               </div>
             )}
             <div className="relative">
@@ -272,6 +364,81 @@ export const SearchPanel = ({
                 </button>
               )}
             </div>
+            {syntaxError && (
+              <p role="alert" className="text-xs text-rose-600">
+                {syntaxError.message}{' '}
+                <code className="whitespace-pre-wrap break-all rounded bg-rose-50 px-1 text-rose-700">
+                  {trimmedQuery.slice(0, syntaxError.position)}
+                  <mark className="rounded bg-rose-200 text-rose-900">{trimmedQuery[syntaxError.position] ?? ' '}</mark>
+                  {trimmedQuery.slice(syntaxError.position + 1)}
+                </code>
+              </p>
+            )}
+            {searchQualifiers.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                {searchQualifiers.map((qualifier) => (
+                  <span
+                    key={`${qualifier.key}:${qualifier.value}:${qualifier.position ?? 'param'}`}
+                    className="inline-flex h-6 items-center gap-1 rounded-full border border-teal-200 bg-teal-50 pl-3 pr-1 text-[11px] leading-none text-teal-800"
+                  >
+                    <span className="font-semibold">{qualifier.key}:</span>
+                    <span className="max-w-[12rem] truncate">{qualifier.value}</span>
+                    {onRemoveSearchQualifier && qualifier.position !== null && (
+                      <button
+                        type="button"
+                        onClick={() => onRemoveSearchQualifier(qualifier)}
+                        aria-label={`Remove ${qualifier.key}:${qualifier.value} filter`}
+                        title="Remove filter"
+                        className="rounded-full p-0.5 text-teal-600 transition hover:bg-teal-100 hover:text-teal-900"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+            {(onResultModeChange || onMatchModeChange) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {onResultModeChange && (
+                  <fieldset className="inline-flex w-fit items-center gap-1 rounded-full border border-slate-200 bg-white p-0.5 shadow-sm">
+                    <legend className="sr-only">Show results as</legend>
+                    {(Object.keys(RESULT_MODE_LABELS) as SearchResultMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        aria-pressed={resultMode === mode}
+                        onClick={() => onResultModeChange(mode)}
+                        className={`rounded-full px-3 py-1 text-[11px] font-semibold leading-none transition ${
+                          resultMode === mode ? 'bg-teal-600 text-white' : 'text-slate-500 hover:text-slate-800'
+                        }`}
+                      >
+                        {RESULT_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </fieldset>
+                )}
+                {onMatchModeChange && (
+                  <fieldset className="inline-flex w-fit items-center gap-1 rounded-full border border-slate-200 bg-white p-0.5 shadow-sm">
+                    <legend className="sr-only">Match terms as</legend>
+                    {(Object.keys(MATCH_MODE_LABELS) as SearchMatchMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        aria-pressed={matchMode === mode}
+                        title={MATCH_MODE_TITLES[mode]}
+                        onClick={() => onMatchModeChange(mode)}
+                        className={`rounded-full px-3 py-1 text-[11px] font-semibold leading-none transition ${
+                          matchMode === mode ? 'bg-teal-600 text-white' : 'text-slate-500 hover:text-slate-800'
+                        }`}
+                      >
+                        {MATCH_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </fieldset>
+                )}
+              </div>
+            )}
             <div className="search-sort-mobile">
               <details className="search-sort-disclosure rounded-2xl border border-slate-200 bg-white shadow-sm">
                 <summary className="search-sort-summary flex items-center justify-between px-3 py-2">
@@ -394,6 +561,7 @@ export const SearchPanel = ({
                         result.session_path,
                         result.first_match_turn_id ?? undefined,
                         searchQueryParam,
+                        matchMode,
                       );
 
                       return (
@@ -404,6 +572,7 @@ export const SearchPanel = ({
                             handleClearSearch();
                             onLoadSession(result.session_path, result.first_match_turn_id ?? undefined, {
                               searchQuery: searchQueryParam,
+                              searchMatch: matchMode,
                             });
                           }}
                           className="block w-full rounded-2xl border border-slate-100 bg-white px-4 py-3 text-left text-sm text-slate-700 transition hover:border-teal-200 hover:bg-white"
@@ -451,6 +620,12 @@ export const SearchPanel = ({
                                     <span className="truncate">{result.git_branch}</span>
                                   </span>
                                 )}
+                                {showRootLabels && result.root_label && (
+                                  <span className="search-result-chip" title={`Root: ${result.root_label}`}>
+                                    <HardDrive className="h-3 w-3" />
+                                    <span className="truncate">{result.root_label}</span>
+                                  </span>
+                                )}
                               </div>
                             )}
                             <div className="min-w-0 max-w-full text-sm text-slate-700 line-clamp-3 break-words overflow-hidden">
@@ -465,6 +640,68 @@ export const SearchPanel = ({
               ))}
             </div>
           )}
+          {showMessageResults && messageResults.length > 0 && (
+            <div className="space-y-2">
+              {messageResults.map((result) => (
+                <SessionLink
+                  key={result.message_id}
+                  href={buildSessionUrl(result.session_path, result.turn_id, searchQueryParam, matchMode)}
+                  onNavigate={() => {
+                    handleClearSearch();
+                    onLoadSession(result.session_path, result.turn_id, {
+                      searchQuery: searchQueryParam,
+                      searchMatch: matchMode,
+                    });
+                  }}
+                  className="block w-full rounded-2xl border border-slate-100 bg-white px-4 py-3 text-left text-sm text-slate-700 transition hover:border-teal-200 hover:bg-white"
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                    <span className="font-semibold text-slate-600">
+                      {MESSAGE_ROLE_LABELS[result.role] ?? result.role} · Turn {result.turn_id}
+                    </span>
+                    {result.timestamp && (
+                      <span className="shrink-0">
+                        {formatDate(result.timestamp)} {formatTime(result.timestamp)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-2 min-w-0 max-w-full text-sm text-slate-700 line-clamp-3 break-words overflow-hidden">
+                    {renderSnippet(result.snippet)}
+                  </div>
+                  <div className="search-result-metrics mt-2">
+                    <span className="search-result-chip min-w-0" title={result.cwd ?? undefined}>
+                      <Folder className="h-3 w-3" />
+                      <span className="truncate">{result.first_user_message || result.session_path}</span>
+                    </span>
+                    {result.git_branch && (
+                      <span className="search-result-chip" title={result.git_branch}>
+                        <GitBranch className="h-3 w-3" />
+                        <span className="truncate">{result.git_branch}</span>
+                      </span>
+                    )}
+                    {showRootLabels && result.root_label && (
+                      <span className="search-result-chip" title={`Root: ${result.root_label}`}>
+                        <HardDrive className="h-3 w-3" />
+                        <span className="truncate">{result.root_label}</span>
+                      </span>
+                    )}
+                  </div>
+                </SessionLink>
+              ))}
+              {hasMoreMessages && (
+                <div ref={loadMoreSentinelRef} className="flex justify-center py-2">
+                  <button
+                    type="button"
+                    onClick={onLoadMoreMessages}
+                    disabled={loadingMoreMessages}
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] text-slate-600 shadow-sm hover:text-slate-900 disabled:opacity-60"
+                  >
+                    {loadingMoreMessages ? 'Loading more…' : 'Load more'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
           {showErrorState && (
             <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
               {searchError || 'Search failed. Try again or reindex.'}
@@ -12,6 +12,7 @@ import {
   Repeat2,
   Wrench,
 } from 'lucide-react';
+import { splitSessionPath } from '../../../../shared/sessionPaths';
 import { buildConversationExport } from '../copy';
 import {
   formatCompactCount,
@@ -25,8 +26,10 @@ import {
   isSameDay,
 } from '../format';
 import { useRenderDebug } from '../hooks/useRenderDebug';
-import type { SessionDetails, SessionFileEntry, Turn } from '../types';
+import type { SessionDetails, SessionFileEntry, SessionLineageResponse, Turn } from '../types';
 import { CopyButton } from './CopyButton';
+import { SessionLineageBreadcrumb } from './SessionLineageBreadcrumb';
+import { SessionSettingsPills } from './SessionSettingsPills';
 
 interface SessionStats {
   thoughtCount: number;
@@ -42,6 +45,8 @@ interface SessionHeaderProps {
   visibleItemCount: number;
   stats: SessionStats;
   filteredTurns: Turn[];
+  lineage?: SessionLineageResponse | null;
+  onOpenSession?: (sessionPath: string) => void;
   headerClassName?: string;
   titleClassName?: string;
   metaGridClassName?: string;
@@ -56,6 +61,8 @@ export const SessionHeader = ({
   visibleItemCount,
   stats,
   filteredTurns,
+  lineage,
+  onOpenSession,
   headerClassName,
   titleClassName,
   metaGridClassName,
@@ -100,7 +107,10 @@ export const SessionHeader = ({
   const pathSeparator = sessionRoot.includes('\\') ? '\\' : sessionRoot ? '/' : fallbackId.includes('\\') ? '\\' : '/';
   const trimmedRoot = sessionRoot.replace(/[\\/]+$/, '');
   const normalizedRoot = trimmedRoot || (/^[\\/]+$/.test(sessionRoot) ? pathSeparator : '');
-  const normalizedId = activeSession?.id ? activeSession.id.replace(/[\\/]+/g, pathSeparator) : '';
+  // Session ids carry a `<rootId>/` prefix; only the part below the root is joined onto the root path.
+  const sessionRelPath =
+    activeSession?.id && sessionRoot ? splitSessionPath(activeSession.id).relPath : activeSession?.id;
+  const normalizedId = sessionRelPath ? sessionRelPath.replace(/[\\/]+/g, pathSeparator) : '';
   const rootJoiner = normalizedRoot && normalizedRoot !== pathSeparator ? pathSeparator : '';
   const filePath =
     activeSession && normalizedRoot && normalizedId ? `${normalizedRoot}${rootJoiner}${normalizedId}` : normalizedId;
@@ -151,6 +161,7 @@ export const SessionHeader = ({
   return (
     <div className={headerClassNameMerged}>
       <div className="min-w-0 space-y-3">
+        <SessionLineageBreadcrumb lineage={lineage} onOpenSession={onOpenSession} />
         <h2 className={titleClassNameMerged} title={title}>
           {title}
         </h2>
@@ -225,6 +236,7 @@ export const SessionHeader = ({
                   className="chip chip-sm chip-filled chip-button min-w-0 gap-1 leading-none"
                 />
               )}
+              <SessionSettingsPills settings={sessionDetails.settings} />
             </div>
             <div className={statsRowClassNameMerged}>
               <span className="chip chip-sm chip-filled gap-1">
@@ -11,6 +11,7 @@ import {
   Minus,
   Repeat2,
 } from 'lucide-react';
+import { splitSessionPath } from '../../../../shared/sessionPaths';
 import { buildConversationExport } from '../copy';
 import {
   formatCompactCount,
@@ -23,8 +24,10 @@ import {
   isSameDay,
 } from '../format';
 import { useRenderDebug } from '../hooks/useRenderDebug';
-import type { SessionDetails, SessionFileEntry, Turn } from '../types';
+import type { SessionDetails, SessionFileEntry, SessionLineageResponse, Turn } from '../types';
 import { CopyButton } from './CopyButton';
+import { SessionLineageBreadcrumb } from './SessionLineageBreadcrumb';
+import { SessionSettingsPills } from './SessionSettingsPills';
 
 interface SessionStats {
   thoughtCount: number;
@@ -40,6 +43,8 @@ interface SessionHeaderVariantBProps {
   visibleItemCount: number;
   stats: SessionStats;
   filteredTurns: Turn[];
+  lineage?: SessionLineageResponse | null;
+  onOpenSession?: (sessionPath: string) => void;
   headerClassName?: string;
   titleClassName?: string;
   metaGridClassName?: string;
@@ -54,6 +59,8 @@ export const SessionHeaderVariantB = ({
   visibleItemCount,
   stats,
   filteredTurns,
+  lineage,
+  onOpenSession,
   headerClassName,
   titleClassName,
   metaGridClassName,
@@ -95,7 +102,10 @@ export const SessionHeaderVariantB = ({
   const pathSeparator = sessionRoot.includes('\\') ? '\\' : sessionRoot ? '/' : fallbackId.includes('\\') ? '\\' : '/';
   const trimmedRoot = sessionRoot.replace(/[\\/]+$/, '');
   const normalizedRoot = trimmedRoot || (/^[\\/]+$/.test(sessionRoot) ? pathSeparator : '');
-  const normalizedId = activeSession?.id ? activeSession.id.replace(/[\\/]+/g, pathSeparator) : '';
+  // Session ids carry a `<rootId>/` prefix; only the part below the root is joined onto the root path.
+  const sessionRelPath =
+    activeSession?.id && sessionRoot ? splitSessionPath(activeSession.id).relPath : activeSession?.id;
+  const normalizedId = sessionRelPath ? sessionRelPath.replace(/[\\/]+/g, pathSeparator) : '';
   const rootJoiner = normalizedRoot && normalizedRoot !== pathSeparator ? pathSeparator : '';
   const filePath =
     activeSession && normalizedRoot && normalizedId ? `${normalizedRoot}${rootJoiner}${normalizedId}` : normalizedId;
@@ -202,6 +212,7 @@ export const SessionHeaderVariantB = ({
     <div className={headerClassNameMerged}>
       <div className="flex flex-wrap items-start justify-between gap-3">
         <div className="min-w-0 w-full flex flex-col gap-3">
+          <SessionLineageBreadcrumb lineage={lineage} onOpenSession={onOpenSession} />
           <h2 className={titleClassNameMerged} title={title}>
             {title}
           </h2>
@@ -248,6 +259,7 @@ export const SessionHeaderVariantB = ({
               <span>visible</span>
             </span>
           )}
+          {activeSession && <SessionSettingsPills settings={sessionDetails.settings} />}
         </div>
         <div className={actionsClassNameMerged}>
           <CopyButton
@@ -0,0 +1,90 @@
+import { ChevronRight, GitFork } from 'lucide-react';
+import { Fragment } from 'react';
+import { formatTimestamp } from '../format';
+import type { SessionLineageEntry, SessionLineageResponse, SessionLinkKind } from '../types';
+import { buildSessionUrl } from '../url';
+import { SessionLink } from './SessionLink';
+
+interface SessionLineageBreadcrumbProps {
+  lineage?: SessionLineageResponse | null;
+  onOpenSession?: (sessionPath: string) => void;
+  className?: string;
+}
+
+const KIND_LABELS: Record<SessionLinkKind, string> = { resume: 'resumed', fork: 'forked' };
+
+const MAX_LABEL_CHARS = 40;
+
+const getEntryLabel = (entry: SessionLineageEntry) => {
+  const preview = entry.first_user_message?.replace(/\s+/g, ' ').trim();
+  if (!preview) return entry.session_id.slice(0, 8);
+  return preview.length > MAX_LABEL_CHARS ? `${preview.slice(0, MAX_LABEL_CHARS - 1)}…` : preview;
+};
+
+// "Parent › resumed › This session" trail for resumed and forked sessions, plus the sessions that continue this one.
+export const SessionLineageBreadcrumb = ({ lineage, onOpenSession, className }: SessionLineageBreadcrumbProps) => {
+  if (!lineage || (!lineage.ancestors.length && !lineage.children.length)) return null;
+
+  const renderEntry = (entry: SessionLineageEntry) => {
+    const label = getEntryLabel(entry);
+    const title = [entry.first_user_message?.trim() || entry.session_id, formatTimestamp(entry.started_at, false)]
+      .filter(Boolean)
+      .join(' · ');
+    if (!entry.session_path) {
+      return (
+        <span className="chip chip-xs chip-white text-slate-400" title={`${entry.session_id} (not indexed)`}>
+          {label}
+        </span>
+      );
+    }
+    const sessionPath = entry.session_path;
+    return (
+      <SessionLink
+        href={buildSessionUrl(sessionPath)}
+        onNavigate={onOpenSession ? () => onOpenSession(sessionPath) : undefined}
+        className="chip chip-xs chip-white chip-shadow chip-button max-w-[20rem] truncate"
+      >
+        <span title={title}>{label}</span>
+      </SessionLink>
+    );
+  };
+
+  const renderKind = (kind: SessionLinkKind) => (
+    <span className="inline-flex items-center gap-1 text-slate-400">
+      <ChevronRight className="h-3 w-3" aria-hidden="true" />
+      {KIND_LABELS[kind]}
+      <ChevronRight className="h-3 w-3" aria-hidden="true" />
+    </span>
+  );
+
+  return (
+    <nav
+      aria-label="Session lineage"
+      className={['flex flex-wrap items-center gap-1.5 text-[11px] text-slate-500', className]
+        .filter(Boolean)
+        .join(' ')}
+    >
+      <GitFork className="h-3.5 w-3.5 text-slate-400" aria-hidden="true" />
+      {lineage.ancestors.map((entry) => (
+        <Fragment key={`${entry.session_id}-${entry.session_path ?? ''}`}>
+          {renderEntry(entry)}
+          {renderKind(entry.kind)}
+        </Fragment>
+      ))}
+      <span className="chip chip-xs chip-filled font-medium text-slate-700" aria-current="page">
+        This session
+      </span>
+      {lineage.children.length > 0 && (
+        <>
+          <span className="ml-1 text-slate-400">continued in</span>
+          {lineage.children.map((entry) => (
+            <Fragment key={`${entry.session_id}-${entry.session_path ?? ''}`}>
+              {renderEntry(entry)}
+              <span className="text-slate-400">({KIND_LABELS[entry.kind]})</span>
+            </Fragment>
+          ))}
+        </>
+      )}
+    </nav>
+  );
+};
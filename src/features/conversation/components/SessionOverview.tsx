@@ -1,6 +1,7 @@
 import type { ComponentType } from 'react';
 import { formatCompactCount } from '../format';
-import type { SessionDetails, SessionFileEntry, Turn } from '../types';
+import type { SessionDetails, SessionFileEntry, SessionFileSummary, SessionLineageResponse, Turn } from '../types';
+import { FilesChangedList } from './FilesChangedList';
 import { SessionHeader } from './SessionHeader';
 import { Toggle } from './Toggle';
 
@@ -18,6 +19,8 @@ type SessionHeaderComponent = ComponentType<{
   visibleItemCount: number;
   stats: SessionStats;
   filteredTurns: Turn[];
+  lineage?: SessionLineageResponse | null;
+  onOpenSession?: (sessionPath: string) => void;
   headerClassName?: string;
   titleClassName?: string;
   metaGridClassName?: string;
@@ -158,6 +161,10 @@ export interface SessionOverviewProps {
   filteredTurns: Turn[];
   visibleItemCount: number;
   stats: SessionStats;
+  filesChanged?: SessionFileSummary[];
+  onSelectTurn?: (turnId: number) => void;
+  lineage?: SessionLineageResponse | null;
+  onOpenSession?: (sessionPath: string) => void;
   showThoughts: boolean;
   showTools: boolean;
   showMeta: boolean;
@@ -190,6 +197,10 @@ export const SessionOverview = ({
   filteredTurns,
   visibleItemCount,
   stats,
+  filesChanged = [],
+  onSelectTurn,
+  lineage,
+  onOpenSession,
   showThoughts,
   showTools,
   showMeta,
@@ -242,6 +253,8 @@ export const SessionOverview = ({
           visibleItemCount={visibleItemCount}
           stats={stats}
           filteredTurns={filteredTurns}
+          lineage={lineage}
+          onOpenSession={onOpenSession}
           headerClassName={headerClassName}
           titleClassName={titleClassName}
           metaGridClassName={metaGridClassName}
@@ -249,6 +262,8 @@ export const SessionOverview = ({
           actionsClassName={actionsClassName}
         />
 
+        <FilesChangedList files={filesChanged} onSelectTurn={onSelectTurn} />
+
         {showToggles && (
           <SessionToggleRow
             stats={stats}
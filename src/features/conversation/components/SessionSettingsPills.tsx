@@ -0,0 +1,43 @@
+import { Box, Cpu, Gauge, Server, ShieldCheck } from 'lucide-react';
+import type { SessionSettings } from '../../../../shared/sessionParser';
+
+interface SessionSettingsPillsProps {
+  settings?: SessionSettings;
+  chipClassName?: string;
+}
+
+// Model, reasoning effort, approval policy, sandbox mode and provider from turn_context / session_meta.
+// Shows the latest values; a changed model reads "first → last".
+export const SessionSettingsPills = ({
+  settings,
+  chipClassName = 'chip chip-sm chip-filled gap-1',
+}: SessionSettingsPillsProps) => {
+  const last = settings?.last;
+  if (!settings || (!last && !settings.provider)) return null;
+  const firstModel = settings.first?.model;
+  const modelLabel =
+    firstModel && last?.model && firstModel !== last.model ? `${firstModel} → ${last.model}` : last?.model;
+  const pills = [
+    { key: 'model', Icon: Cpu, label: modelLabel, title: 'Model' },
+    { key: 'effort', Icon: Gauge, label: last?.reasoningEffort, title: 'Reasoning effort' },
+    { key: 'approval', Icon: ShieldCheck, label: last?.approvalPolicy, title: 'Approval policy' },
+    { key: 'sandbox', Icon: Box, label: last?.sandboxMode, title: 'Sandbox mode' },
+    { key: 'provider', Icon: Server, label: settings.provider, title: 'Model provider' },
+  ].filter((pill) => pill.label);
+  if (!pills.length) return null;
+
+  return (
+    <>
+      {pills.map(({ key, Icon, label, title }) => (
+        <span
+          key={key}
+          className={chipClassName}
+          title={settings.changed && key !== 'provider' ? `${title} (changed during the session)` : title}
+        >
+          <Icon className="h-3.5 w-3.5" />
+          <span className="chip-value">{label}</span>
+        </span>
+      ))}
+    </>
+  );
+};
@@ -1,6 +1,18 @@
-import { Calendar, Clock, Fingerprint, GitBranch, Github, Hourglass, Repeat2 } from 'lucide-react';
+import {
+  Archive,
+  Ban,
+  Calendar,
+  Clock,
+  Coins,
+  Fingerprint,
+  GitBranch,
+  Github,
+  HardDrive,
+  Hourglass,
+  Repeat2,
+} from 'lucide-react';
 import { OverlayScrollbarsComponent } from 'overlayscrollbars-react';
-import { memo, useEffect, useRef } from 'react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { isRenderDebugEnabled } from '../debug';
 import {
   formatDayLabel,
@@ -9,6 +21,7 @@ import {
   formatMonthLabel,
   formatRelativeTime,
   formatTime,
+  formatTimestamp,
   formatWorkspacePath,
   getDaysInMonth,
   getDaysInYear,
@@ -16,13 +29,40 @@ import {
 } from '../format';
 import { useRenderDebug } from '../hooks/useRenderDebug';
 import { useWhyDidYouRender } from '../hooks/useWhyDidYouRender';
+import { hasMultipleRoots } from '../roots';
+import { formatTokenValue } from '../tokenCounts';
 import type { LoadSessionOptions, SessionFileEntry, SessionTree } from '../types';
 import { buildSessionUrl } from '../url';
 import { CopyButton } from './CopyButton';
+import { InterruptedFilter } from './InterruptedFilter';
 import { SessionLink } from './SessionLink';
 
 const SESSIONS_SKELETON_KEYS = ['a', 'b', 'c', 'd', 'e'];
 
+// 'recent' keeps the year/month/day tree; 'tokens' ranks every listed session by total tokens.
+type SessionSort = 'recent' | 'tokens';
+
+const formatTokenUsageTitle = (file: SessionFileEntry) => {
+  const parts = [`${file.totalTokens?.toLocaleString() ?? '—'} total tokens`];
+  if (file.inputTokens !== null && file.inputTokens !== undefined) {
+    parts.push(`Input: ${file.inputTokens.toLocaleString()}`);
+  }
+  if (file.cachedInputTokens !== null && file.cachedInputTokens !== undefined) {
+    parts.push(`Cached: ${file.cachedInputTokens.toLocaleString()}`);
+  }
+  if (file.outputTokens !== null && file.outputTokens !== undefined) {
+    parts.push(`Output: ${file.outputTokens.toLocaleString()}`);
+  }
+  if (file.reasoningOutputTokens !== null && file.reasoningOutputTokens !== undefined) {
+    parts.push(`Reasoning: ${file.reasoningOutputTokens.toLocaleString()}`);
+  }
+  if (file.peakContextPercent !== null && file.peakContextPercent !== undefined) {
+    const windowLabel = file.contextWindow ? ` of ${formatTokenValue(file.contextWindow)}` : '';
+    parts.push(`Peak context: ${Math.round(file.peakContextPercent)}%${windowLabel}`);
+  }
+  return parts.join('\n');
+};
+
 interface SessionsPanelProps {
   sessionsTree: SessionTree | null;
   sessionsRoot: string;
@@ -33,6 +73,8 @@ interface SessionsPanelProps {
   activeWorkspace?: string | null;
   onClearWorkspace?: () => void;
   showWorkspaceFilter?: boolean;
+  abortedOnly?: boolean;
+  onAbortedOnlyChange?: (abortedOnly: boolean) => void;
   className?: string;
 }
 
@@ -46,6 +88,8 @@ const SessionsPanelComponent = ({
   activeWorkspace,
   onClearWorkspace,
   showWorkspaceFilter = true,
+  abortedOnly = false,
+  onAbortedOnlyChange,
   className,
 }: SessionsPanelProps) => {
   const formatCountLabel = (count: number, label: string) => `${count} ${count === 1 ? label : `${label}s`}`;
@@ -54,6 +98,16 @@ const SessionsPanelComponent = ({
   const listRef = useRef<HTMLDivElement | null>(null);
   const activeRowRef = useRef<HTMLDivElement | null>(null);
   const treeKey = sessionsTree?.years.length ?? 0;
+  const showRootLabels = hasMultipleRoots(sessionsTree?.roots);
+  const [sort, setSort] = useState<SessionSort>('recent');
+  const rankedFiles = useMemo(() => {
+    if (sort !== 'tokens' || !sessionsTree) return [];
+    const files = sessionsTree.years.flatMap((year) =>
+      year.months.flatMap((month) => month.days.flatMap((day) => day.files)),
+    );
+    // Stable sort: sessions without token data keep their newest-first order at the end.
+    return files.sort((a, b) => (b.totalTokens ?? -1) - (a.totalTokens ?? -1));
+  }, [sessionsTree, sort]);
 
   useRenderDebug('SessionsPanel', {
     loading,
@@ -61,6 +115,8 @@ const SessionsPanelComponent = ({
     sessionsRoot,
     activeSessionId: activeSession?.id ?? null,
     activeWorkspace: activeWorkspace ?? null,
+    abortedOnly,
+    sort,
   });
   useWhyDidYouRender(
     'SessionsPanel',
@@ -73,6 +129,7 @@ const SessionsPanelComponent = ({
       onRefreshSessions,
       onLoadSession,
       onClearWorkspace,
+      onAbortedOnlyChange,
     },
     { includeFunctions: true },
   );
@@ -160,6 +217,132 @@ const SessionsPanelComponent = ({
     });
   }, [activeSession?.id, treeKey]);
 
+  const renderSessionRow = (file: SessionFileEntry) => {
+    const title = file.preview?.trim() || 'Session';
+    const timeSource = file.startedAt ?? file.timestamp ?? '';
+    const durationLabel = formatDurationMs(file.activeDurationMs) || formatDuration(file.startedAt, file.endedAt);
+    const durationDisplay = durationLabel || (timeSource ? '-' : '');
+    const timeLabel = timeSource
+      ? isSameDay(timeSource, now)
+        ? formatRelativeTime(timeSource, now)
+        : formatTime(timeSource)
+      : '';
+    const repoLabel = getRepoLabel(file.gitRepo, file.cwd);
+    const sessionId = file.sessionId;
+    const sessionIdLabel = formatSessionId(sessionId);
+    const turnCountValue = file.turnCount ?? null;
+    const abortedTurnCount = file.abortedTurnCount ?? 0;
+    const sessionHref = buildSessionUrl(file.id);
+    const isActiveSession = activeSession?.id === file.id;
+
+    return (
+      <div
+        key={file.id}
+        ref={file.id === activeSession?.id ? activeRowRef : null}
+        className={`w-full rounded-2xl border px-3 py-2 text-left text-xs transition ${
+          isActiveSession
+            ? 'border-teal-300 bg-teal-50 text-teal-800'
+            : 'border-slate-100 bg-white text-slate-600 hover:border-teal-200 hover:text-slate-900'
+        }`}
+      >
+        <SessionLink
+          href={sessionHref}
+          ariaCurrent={isActiveSession ? 'page' : undefined}
+          onNavigate={() => onLoadSession(file.id)}
+          className="block w-full text-left"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="truncate text-sm font-semibold text-slate-800">{title}</div>
+            </div>
+          </div>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+            {timeLabel && (
+              <span className="chip chip-xs chip-white chip-shadow gap-1">
+                <Clock className="h-3 w-3" />
+                <span className="chip-value translate-y-[0.5px] inline-block min-w-[7ch] text-center">{timeLabel}</span>
+              </span>
+            )}
+            {timeSource && (
+              <span className="chip chip-xs chip-white chip-shadow gap-1">
+                <Hourglass className="h-3 w-3" />
+                <span className="chip-value translate-y-[0.5px] inline-block min-w-[6ch] text-center">
+                  {durationDisplay}
+                </span>
+              </span>
+            )}
+            <span className="chip chip-xs chip-white chip-shadow gap-1">
+              <Repeat2 className="h-3 w-3" />
+              <span className="chip-value translate-y-[0.5px] inline-block min-w-[4ch] text-center">
+                {turnCountValue ?? '—'}
+              </span>
+            </span>
+            {file.totalTokens !== null && file.totalTokens !== undefined && (
+              <span
+                className="chip chip-xs chip-white chip-shadow gap-1 leading-none"
+                title={formatTokenUsageTitle(file)}
+              >
+                <Coins className="h-3 w-3" />
+                {formatTokenValue(file.totalTokens)}
+              </span>
+            )}
+            {file.archivedAt && (
+              <span
+                className="chip chip-xs chip-white chip-shadow gap-1 leading-none text-slate-500"
+                title={`File deleted; archived ${formatTimestamp(file.archivedAt, false)}`}
+              >
+                <Archive className="h-3 w-3" />
+                Archived
+              </span>
+            )}
+            {abortedTurnCount > 0 && (
+              <span
+                className="chip chip-xs chip-white chip-shadow gap-1 leading-none text-amber-700"
+                title={formatCountLabel(abortedTurnCount, 'interrupted turn')}
+              >
+                <Ban className="h-3 w-3" />
+                {abortedTurnCount}
+              </span>
+            )}
+            {repoLabel && (
+              <span className="chip chip-xs chip-white chip-shadow gap-1 leading-none">
+                <Github className="h-3 w-3" />
+                {repoLabel}
+              </span>
+            )}
+            {file.gitBranch && (
+              <span className="chip chip-xs chip-white chip-shadow gap-1 leading-none">
+                <GitBranch className="h-3 w-3" />
+                {file.gitBranch}
+              </span>
+            )}
+            {showRootLabels && file.rootLabel && (
+              <span
+                className="chip chip-xs chip-white chip-shadow gap-1 leading-none"
+                title={`Root: ${file.rootLabel}`}
+              >
+                <HardDrive className="h-3 w-3" />
+                {file.rootLabel}
+              </span>
+            )}
+          </div>
+        </SessionLink>
+        <CopyButton
+          text={sessionId}
+          idleLabel={sessionIdLabel}
+          hoverLabel="Copy"
+          reserveLabel={sessionIdLabel}
+          ariaLabel="Copy session id"
+          title={sessionId}
+          leading={<Fingerprint className="h-3 w-3" />}
+          labelWrapperClassName="min-w-0"
+          labelClassName="min-w-0 truncate"
+          className="chip chip-xs chip-muted chip-button mt-2 min-w-0 gap-1 hover:bg-slate-200"
+        />
+      </div>
+    );
+  };
+
   return (
     <div className={className}>
       <div className="rounded-3xl border border-white/70 bg-white/80 p-5 shadow-card backdrop-blur">
@@ -167,17 +350,32 @@ const SessionsPanelComponent = ({
           <div className="flex flex-wrap items-start justify-between gap-3">
             <div className="flex min-w-0 flex-1 flex-col gap-2">
               <h2 className="text-lg text-slate-900">Sessions</h2>
-              <p className="text-xs text-slate-500">
-                Root: {formatWorkspacePath(sessionsTree?.root || sessionsRoot || '—')}
-              </p>
+              <p className="text-xs text-slate-500">Root: {formatWorkspacePath(sessionsRoot || '—')}</p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <label
+                htmlFor="sessions-sort"
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 shadow-sm"
+              >
+                <span className="text-[11px] font-semibold text-slate-400">Sort</span>
+                <select
+                  id="sessions-sort"
+                  value={sort}
+                  onChange={(event) => setSort(event.target.value as SessionSort)}
+                  className="border-0 bg-transparent p-0 text-xs text-slate-700 focus:outline-none"
+                >
+                  <option value="recent">Most recent</option>
+                  <option value="tokens">Most tokens</option>
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={onRefreshSessions}
+                className="inline-flex shrink-0 items-center rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 shadow-sm hover:text-slate-900"
+              >
+                Refresh
+              </button>
             </div>
-            <button
-              type="button"
-              onClick={onRefreshSessions}
-              className="inline-flex shrink-0 items-center rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 shadow-sm hover:text-slate-900"
-            >
-              Refresh
-            </button>
           </div>
           {showWorkspaceFilter && (
             <div className="flex flex-wrap items-center gap-2">
@@ -206,6 +404,7 @@ const SessionsPanelComponent = ({
                   Workspace filter off
                 </span>
               )}
+              {onAbortedOnlyChange && <InterruptedFilter active={abortedOnly} onChange={onAbortedOnlyChange} />}
             </div>
           )}
           <OverlayScrollbarsComponent
@@ -237,6 +436,8 @@ const SessionsPanelComponent = ({
                     </div>
                   ))}
                 </div>
+              ) : sort === 'tokens' && rankedFiles.length ? (
+                <div className="space-y-2">{rankedFiles.map(renderSessionRow)}</div>
               ) : sessionsTree?.years.length ? (
                 sessionsTree.years.map((year) => (
                   <details
@@ -340,102 +541,7 @@ const SessionsPanelComponent = ({
                                     </span>
                                   </div>
                                 </summary>
-                                <div className="mt-2 space-y-2 pl-2">
-                                  {day.files.map((file) => {
-                                    const title = file.preview?.trim() || 'Session';
-                                    const timeSource = file.startedAt ?? file.timestamp ?? '';
-                                    const durationLabel =
-                                      formatDurationMs(file.activeDurationMs) ||
-                                      formatDuration(file.startedAt, file.endedAt);
-                                    const durationDisplay = durationLabel || (timeSource ? '-' : '');
-                                    const timeLabel = timeSource
-                                      ? isSameDay(timeSource, now)
-                                        ? formatRelativeTime(timeSource, now)
-                                        : formatTime(timeSource)
-                                      : '';
-                                    const repoLabel = getRepoLabel(file.gitRepo, file.cwd);
-                                    const sessionId = file.sessionId;
-                                    const sessionIdLabel = formatSessionId(sessionId);
-                                    const turnCountValue = file.turnCount ?? null;
-                                    const sessionHref = buildSessionUrl(file.id);
-                                    const isActiveSession = activeSession?.id === file.id;
-
-                                    return (
-                                      <div
-                                        key={file.id}
-                                        ref={file.id === activeSession?.id ? activeRowRef : null}
-                                        className={`w-full rounded-2xl border px-3 py-2 text-left text-xs transition ${
-                                          isActiveSession
-                                            ? 'border-teal-300 bg-teal-50 text-teal-800'
-                                            : 'border-slate-100 bg-white text-slate-600 hover:border-teal-200 hover:text-slate-900'
-                                        }`}
-                                      >
-                                        <SessionLink
-                                          href={sessionHref}
-                                          ariaCurrent={isActiveSession ? 'page' : undefined}
-                                          onNavigate={() => onLoadSession(file.id)}
-                                          className="block w-full text-left"
-                                        >
-                                          <div className="flex items-start justify-between gap-3">
-                                            <div className="min-w-0">
-                                              <div className="truncate text-sm font-semibold text-slate-800">
-                                                {title}
-                                              </div>
-                                            </div>
-                                          </div>
-                                          <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
-                                            {timeLabel && (
-                                              <span className="chip chip-xs chip-white chip-shadow gap-1">
-                                                <Clock className="h-3 w-3" />
-                                                <span className="chip-value translate-y-[0.5px] inline-block min-w-[7ch] text-center">
-                                                  {timeLabel}
-                                                </span>
-                                              </span>
-                                            )}
-                                            {timeSource && (
-                                              <span className="chip chip-xs chip-white chip-shadow gap-1">
-                                                <Hourglass className="h-3 w-3" />
-                                                <span className="chip-value translate-y-[0.5px] inline-block min-w-[6ch] text-center">
-                                                  {durationDisplay}
-                                                </span>
-                                              </span>
-                                            )}
-                                            <span className="chip chip-xs chip-white chip-shadow gap-1">
-                                              <Repeat2 className="h-3 w-3" />
-                                              <span className="chip-value translate-y-[0.5px] inline-block min-w-[4ch] text-center">
-                                                {turnCountValue ?? '—'}
-                                              </span>
-                                            </span>
-                                            {repoLabel && (
-                                              <span className="chip chip-xs chip-white chip-shadow gap-1 leading-none">
-                                                <Github className="h-3 w-3" />
-                                                {repoLabel}
-                                              </span>
-                                            )}
-                                            {file.gitBranch && (
-                                              <span className="chip chip-xs chip-white chip-shadow gap-1 leading-none">
-                                                <GitBranch className="h-3 w-3" />
-                                                {file.gitBranch}
-                                              </span>
-                                            )}
-                                          </div>
-                                        </SessionLink>
-                                        <CopyButton
-                                          text={sessionId}
-                                          idleLabel={sessionIdLabel}
-                                          hoverLabel="Copy"
-                                          reserveLabel={sessionIdLabel}
-                                          ariaLabel="Copy session id"
-                                          title={sessionId}
-                                          leading={<Fingerprint className="h-3 w-3" />}
-                                          labelWrapperClassName="min-w-0"
-                                          labelClassName="min-w-0 truncate"
-                                          className="chip chip-xs chip-muted chip-button mt-2 min-w-0 gap-1 hover:bg-slate-200"
-                                        />
-                                      </div>
-                                    );
-                                  })}
-                                </div>
+                                <div className="mt-2 space-y-2 pl-2">{day.files.map(renderSessionRow)}</div>
                               </details>
                             ))}
                           </div>
@@ -446,7 +552,9 @@ const SessionsPanelComponent = ({
                 ))
               ) : (
                 <div className="rounded-2xl border border-dashed border-slate-200 px-4 py-6 text-center text-sm text-slate-500">
-                  No sessions found yet. Update your sessions root in settings.
+                  {abortedOnly
+                    ? 'No sessions with interrupted turns.'
+                    : 'No sessions found yet. Update your sessions root in settings.'}
                 </div>
               )}
             </div>
@@ -1,32 +1,58 @@
 import { useEffect } from 'react';
+import { useEventTypes } from '../hooks/useEventTypes';
+import { useIndexDiagnostics } from '../hooks/useIndexDiagnostics';
+import type { ArchiveConfig, IndexJob, ScanFilters, SessionRootDraft } from '../types';
+import { EventTypesPanel } from './EventTypesPanel';
+import { IndexDiagnosticsPanel } from './IndexDiagnosticsPanel';
+
+const MAX_LISTED_ERRORS = 5;
 
 interface SettingsModalProps {
   open: boolean;
-  sessionsRoot: string;
+  sessionRoots: SessionRootDraft[];
   sessionsRootSource: string;
   indexSummary: string;
   reindexing: boolean;
   clearingIndex: boolean;
-  onSessionsRootChange: (value: string) => void;
-  onSaveRoot: () => void;
+  indexJob: IndexJob | null;
+  scanFilters: ScanFilters;
+  onSessionRootsChange: (roots: SessionRootDraft[]) => void;
+  onSaveRoots: () => void;
+  onScanFiltersChange: (filters: ScanFilters) => void;
+  onSaveScanFilters: () => void;
+  archiveConfig: ArchiveConfig;
+  onKeepDeletedSessionsChange: (keepDeletedSessions: boolean) => void;
+  onPurgeArchive: () => void;
   onReindex: () => void;
   onClearIndex: () => void;
+  onCancelIndex: () => void;
   onClose: () => void;
 }
 
 export const SettingsModal = ({
   open,
-  sessionsRoot,
+  sessionRoots,
   sessionsRootSource,
   indexSummary,
   reindexing,
   clearingIndex,
-  onSessionsRootChange,
-  onSaveRoot,
+  indexJob,
+  scanFilters,
+  onSessionRootsChange,
+  onSaveRoots,
+  onScanFiltersChange,
+  onSaveScanFilters,
+  archiveConfig,
+  onKeepDeletedSessionsChange,
+  onPurgeArchive,
   onReindex,
   onClearIndex,
+  onCancelIndex,
   onClose,
 }: SettingsModalProps) => {
+  const { diagnostics, loading: diagnosticsLoading, error: diagnosticsError } = useIndexDiagnostics(open);
+  const { eventTypes, loading: eventTypesLoading, error: eventTypesError } = useEventTypes(open);
+
   useEffect(() => {
     if (!open) return;
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -40,20 +66,47 @@ export const SettingsModal = ({
 
   if (!open) return null;
 
+  const jobActive = indexJob?.status === 'queued' || indexJob?.status === 'running';
+  const progress = indexJob?.progress;
+  const progressPercent =
+    progress?.filesTotal && progress.filesTotal > 0
+      ? Math.min(100, Math.round((progress.filesScanned / progress.filesTotal) * 100))
+      : 0;
+  const jobErrors = progress?.errors ?? [];
+  const rootsLocked = sessionsRootSource === 'env';
+
+  const updateRoot = (index: number, patch: Partial<SessionRootDraft>) => {
+    onSessionRootsChange(sessionRoots.map((root, rootIndex) => (rootIndex === index ? { ...root, ...patch } : root)));
+  };
+  const removeRoot = (index: number) => {
+    onSessionRootsChange(sessionRoots.filter((_root, rootIndex) => rootIndex !== index));
+  };
+  const addRoot = () => {
+    onSessionRootsChange([...sessionRoots, { label: '', path: '', enabled: true }]);
+  };
+  // One pattern per line; blank lines are dropped when the filters are saved.
+  const updatePatterns = (key: 'include' | 'exclude', value: string) => {
+    onScanFiltersChange({ ...scanFilters, [key]: value.split('\n') });
+  };
+  const updateMaxFileSize = (value: string) => {
+    const parsed = Number(value);
+    onScanFiltersChange({ ...scanFilters, maxFileSizeMb: value && Number.isFinite(parsed) ? parsed : null });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 px-4">
       <div
         role="dialog"
         aria-modal="true"
         aria-labelledby="settings-modal-title"
-        className="w-full max-w-lg rounded-3xl border border-white/70 bg-white p-6 shadow-soft"
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-3xl border border-white/70 bg-white p-6 shadow-soft"
       >
         <div className="flex items-center justify-between">
           <div>
             <h3 id="settings-modal-title" className="text-xl text-slate-900">
               Settings
             </h3>
-            <p className="text-xs text-slate-500">Manage session root and indexing.</p>
+            <p className="text-xs text-slate-500">Manage session roots and indexing.</p>
           </div>
           <button
             type="button"
@@ -66,25 +119,151 @@ export const SettingsModal = ({
 
         <div className="mt-5 space-y-4">
           <div>
-            <label htmlFor="sessions-root" className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
-              Sessions root ({sessionsRootSource || 'custom'})
-            </label>
-            <input
-              id="sessions-root"
-              value={sessionsRoot}
-              onChange={(event) => onSessionsRootChange(event.target.value)}
-              disabled={sessionsRootSource === 'env'}
-              className="mt-2 w-full rounded-2xl border border-slate-200 bg-slate-50 px-4 py-2 text-sm text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200 disabled:cursor-not-allowed disabled:opacity-60"
-            />
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
+                Sessions roots ({sessionsRootSource || 'custom'})
+              </span>
+              <button
+                type="button"
+                onClick={addRoot}
+                disabled={rootsLocked}
+                className="rounded-full border border-slate-200 px-3 py-1 text-xs text-slate-600 hover:text-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Add root
+              </button>
+            </div>
+            <div className="mt-2 space-y-2">
+              {sessionRoots.map((root, index) => {
+                const rowLabel = root.label || root.path || `root ${index + 1}`;
+                return (
+                  <div
+                    key={root.id ?? `draft-${index}`}
+                    className="flex flex-wrap items-center gap-2 rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={root.enabled}
+                      onChange={(event) => updateRoot(index, { enabled: event.target.checked })}
+                      disabled={rootsLocked}
+                      aria-label={`Enable ${rowLabel}`}
+                      className="h-4 w-4 accent-teal-600"
+                    />
+                    <input
+                      value={root.label}
+                      onChange={(event) => updateRoot(index, { label: event.target.value })}
+                      disabled={rootsLocked}
+                      placeholder="Label"
+                      aria-label={`Label for ${rowLabel}`}
+                      className="w-28 rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200 disabled:cursor-not-allowed disabled:opacity-60"
+                    />
+                    <input
+                      value={root.path}
+                      onChange={(event) => updateRoot(index, { path: event.target.value })}
+                      disabled={rootsLocked}
+                      placeholder="/absolute/path/to/sessions"
+                      aria-label={`Path for ${rowLabel}`}
+                      className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200 disabled:cursor-not-allowed disabled:opacity-60"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeRoot(index)}
+                      disabled={rootsLocked || sessionRoots.length <= 1}
+                      aria-label={`Remove ${rowLabel}`}
+                      className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-500 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              Disabled or removed roots drop out of the index; files stay on disk.
+            </p>
+          </div>
+          <div>
+            <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Scan filters</span>
+            <div className="mt-2 grid gap-2 sm:grid-cols-2">
+              <label className="text-xs text-slate-500">
+                Include (empty = all)
+                <textarea
+                  value={scanFilters.include.join('\n')}
+                  onChange={(event) => updatePatterns('include', event.target.value)}
+                  rows={3}
+                  placeholder="2026/**"
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-1.5 font-mono text-xs text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200"
+                />
+              </label>
+              <label className="text-xs text-slate-500">
+                Exclude
+                <textarea
+                  value={scanFilters.exclude.join('\n')}
+                  onChange={(event) => updatePatterns('exclude', event.target.value)}
+                  rows={3}
+                  placeholder={'scratch/\n*-copy.jsonl'}
+                  className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-1.5 font-mono text-xs text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200"
+                />
+              </label>
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                Max file size (MB)
+                <input
+                  type="number"
+                  min={1}
+                  value={scanFilters.maxFileSizeMb ?? ''}
+                  onChange={(event) => updateMaxFileSize(event.target.value)}
+                  placeholder="No limit"
+                  className="w-28 rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-700 focus:border-teal-300 focus:outline-none focus:ring-2 focus:ring-teal-200"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={onSaveScanFilters}
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 hover:text-slate-800"
+              >
+                Save filters
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              Globs match the path inside each root; a pattern without <code>/</code> matches a file or folder name
+              anywhere. Excluded files leave the index on the next reindex.
+            </p>
+          </div>
+          <div>
+            <span className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">Deleted sessions</span>
+            <div className="mt-2 flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={archiveConfig.keepDeletedSessions}
+                  onChange={(event) => onKeepDeletedSessionsChange(event.target.checked)}
+                  className="h-3.5 w-3.5 accent-teal-600"
+                />
+                Keep deleted sessions as archived
+              </label>
+              <button
+                type="button"
+                onClick={onPurgeArchive}
+                disabled={archiveConfig.archivedCount === 0}
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Purge archived ({archiveConfig.archivedCount})
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+              Archived sessions stay searchable and open from the index after their file is gone. Clearing the index or
+              removing their root drops them.
+            </p>
           </div>
           <div className="flex flex-wrap gap-3">
             <button
               type="button"
-              onClick={onSaveRoot}
-              disabled={sessionsRootSource === 'env'}
+              onClick={onSaveRoots}
+              disabled={rootsLocked}
               className="rounded-full border border-teal-200 bg-teal-600 px-4 py-2 text-sm font-medium text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-60"
             >
-              Save root
+              Save roots
             </button>
             <button
               type="button"
@@ -103,12 +282,75 @@ export const SettingsModal = ({
               {clearingIndex ? 'Clearing…' : 'Clear & rebuild'}
             </button>
           </div>
+          {jobActive && progress && (
+            <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-medium text-slate-700">
+                  {indexJob?.status === 'queued'
+                    ? 'Waiting for current index run…'
+                    : indexJob?.kind === 'clear-index'
+                      ? 'Rebuilding index…'
+                      : 'Reindexing…'}
+                </span>
+                <span>
+                  {progress.filesScanned} / {progress.filesTotal ?? '…'} files
+                </span>
+              </div>
+              <div
+                role="progressbar"
+                aria-label="Index progress"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={progressPercent}
+                className="mt-2 h-2 overflow-hidden rounded-full bg-slate-200"
+              >
+                <div
+                  className="h-full rounded-full bg-teal-500 transition-all"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+              {progress.currentFile && (
+                <div className="mt-2 truncate font-mono text-[11px] text-slate-500" title={progress.currentFile}>
+                  {progress.currentFile}
+                </div>
+              )}
+              <div className="mt-2 flex items-center justify-between gap-3">
+                <span>
+                  {progress.messagesInserted} messages · {jobErrors.length} errors
+                </span>
+                <button
+                  type="button"
+                  onClick={onCancelIndex}
+                  className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs text-slate-600 hover:text-slate-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+          {jobErrors.length > 0 && (
+            <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+              <div className="font-medium">Files that failed to index</div>
+              <ul className="mt-1 space-y-1">
+                {jobErrors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                  <li key={error.path} className="truncate" title={`${error.path}: ${error.message}`}>
+                    <span className="font-mono">{error.path}</span> — {error.message}
+                  </li>
+                ))}
+              </ul>
+              {jobErrors.length > MAX_LISTED_ERRORS && (
+                <div className="mt-1">+{jobErrors.length - MAX_LISTED_ERRORS} more</div>
+              )}
+            </div>
+          )}
           {indexSummary && (
             <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600">
               {indexSummary}
             </div>
           )}
-          {sessionsRootSource === 'env' && (
+          <IndexDiagnosticsPanel diagnostics={diagnostics} loading={diagnosticsLoading} error={diagnosticsError} />
+          <EventTypesPanel eventTypes={eventTypes} loading={eventTypesLoading} error={eventTypesError} />
+          {rootsLocked && (
             <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-700">
               CODEX_SESSIONS_ROOT is set via environment variable. Update it in your shell to change the root.
             </div>
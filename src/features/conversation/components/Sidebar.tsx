@@ -2,11 +2,17 @@ import { type ClipboardEvent, type KeyboardEvent, memo } from 'react';
 import { isRenderDebugEnabled } from '../debug';
 import { useRenderDebug } from '../hooks/useRenderDebug';
 import { useWhyDidYouRender } from '../hooks/useWhyDidYouRender';
+import { hasMultipleRoots } from '../roots';
 import type {
   LoadSessionOptions,
+  MessageSearchResult,
   SearchGroupSort,
+  SearchMatchMode,
+  SearchQualifier,
+  SearchResultMode,
   SearchResultSort,
   SearchStatus,
+  SearchSyntaxError,
   SessionFileEntry,
   SessionTree,
   WorkspaceSearchGroup,
@@ -26,6 +32,17 @@ interface SidebarProps {
   searchGroups: WorkspaceSearchGroup[];
   searchStatus: SearchStatus;
   searchError?: string | null;
+  searchSyntaxError?: SearchSyntaxError | null;
+  searchQualifiers?: SearchQualifier[];
+  onRemoveSearchQualifier?: (qualifier: SearchQualifier) => void;
+  resultMode?: SearchResultMode;
+  onResultModeChange?: (mode: SearchResultMode) => void;
+  matchMode?: SearchMatchMode;
+  onMatchModeChange?: (mode: SearchMatchMode) => void;
+  messageResults?: MessageSearchResult[];
+  hasMoreMessages?: boolean;
+  loadingMoreMessages?: boolean;
+  onLoadMoreMessages?: () => void;
   searchTooShort?: boolean;
   resultSort: SearchResultSort;
   groupSort: SearchGroupSort;
@@ -50,6 +67,17 @@ const SidebarComponent = ({
   searchGroups,
   searchStatus,
   searchError,
+  searchSyntaxError,
+  searchQualifiers,
+  onRemoveSearchQualifier,
+  resultMode,
+  onResultModeChange,
+  matchMode,
+  onMatchModeChange,
+  messageResults,
+  hasMoreMessages,
+  loadingMoreMessages,
+  onLoadMoreMessages,
   searchTooShort,
   resultSort,
   groupSort,
@@ -82,6 +110,13 @@ const SidebarComponent = ({
       searchGroups,
       searchStatus,
       searchError,
+      searchSyntaxError,
+      searchQualifiers,
+      resultMode,
+      matchMode,
+      messageResults,
+      hasMoreMessages,
+      loadingMoreMessages,
       searchTooShort,
       resultSort,
       groupSort,
@@ -89,6 +124,10 @@ const SidebarComponent = ({
       activeWorkspace,
       onSearchQueryChange,
       onClearSearch,
+      onRemoveSearchQualifier,
+      onResultModeChange,
+      onMatchModeChange,
+      onLoadMoreMessages,
       onSearchKeyDown,
       onResultSortChange,
       onGroupSortChange,
@@ -118,9 +157,21 @@ const SidebarComponent = ({
         activeWorkspace={activeWorkspace}
         onClearWorkspace={onClearWorkspace}
         showWorkspaceFilter={false}
+        showRootLabels={hasMultipleRoots(sessionsTree?.roots)}
         searchGroups={searchGroups}
         searchStatus={searchStatus}
         searchError={searchError}
+        searchSyntaxError={searchSyntaxError}
+        searchQualifiers={searchQualifiers}
+        onRemoveSearchQualifier={onRemoveSearchQualifier}
+        resultMode={resultMode}
+        onResultModeChange={onResultModeChange}
+        matchMode={matchMode}
+        onMatchModeChange={onMatchModeChange}
+        messageResults={messageResults}
+        hasMoreMessages={hasMoreMessages}
+        loadingMoreMessages={loadingMoreMessages}
+        onLoadMoreMessages={onLoadMoreMessages}
         searchTooShort={searchTooShort}
         resultSort={resultSort}
         groupSort={groupSort}
@@ -0,0 +1,87 @@
+import type { ReactNode } from 'react';
+import { formatTimestamp } from '../format';
+import type { ThreadSegment } from '../types';
+import { buildSessionUrl } from '../url';
+import { SessionLink } from './SessionLink';
+import { TurnCard } from './TurnCard';
+
+interface ThreadSegmentListProps {
+  segments: ThreadSegment[];
+  loading: boolean;
+  error: string | null;
+  showFullContent: boolean;
+  onOpenSession?: (sessionPath: string) => void;
+}
+
+const Divider = ({ children }: { children: ReactNode }) => (
+  <div className="flex items-center gap-3 text-xs text-slate-500">
+    <span className="h-px flex-1 bg-slate-200" aria-hidden="true" />
+    <span className="flex min-w-0 flex-wrap items-center justify-center gap-1.5">{children}</span>
+    <span className="h-px flex-1 bg-slate-200" aria-hidden="true" />
+  </div>
+);
+
+// Ancestor sessions' turns, oldest first, stitched above the open session's turns in full-thread mode.
+export const ThreadSegmentList = ({
+  segments,
+  loading,
+  error,
+  showFullContent,
+  onOpenSession,
+}: ThreadSegmentListProps) => {
+  if (loading && !segments.length) {
+    return (
+      <div className="rounded-3xl border border-white/70 bg-white/80 p-6 text-sm text-slate-600 shadow-card">
+        Loading earlier sessions…
+      </div>
+    );
+  }
+  if (error) {
+    return <div className="rounded-3xl border border-rose-200 bg-rose-50 px-6 py-4 text-sm text-rose-700">{error}</div>;
+  }
+  if (!segments.length) return null;
+
+  return (
+    <div className="space-y-6">
+      {segments.map(({ entry, turns }, index) => {
+        const sessionPath = entry.session_path;
+        const title = entry.first_user_message?.replace(/\s+/g, ' ').trim() || entry.session_id;
+        return (
+          <div key={`${entry.session_id}-${sessionPath ?? ''}`} className="space-y-6">
+            <Divider>
+              <span>Earlier session</span>
+              {sessionPath ? (
+                <SessionLink
+                  href={buildSessionUrl(sessionPath)}
+                  onNavigate={onOpenSession ? () => onOpenSession(sessionPath) : undefined}
+                  className="max-w-[24rem] truncate font-medium text-slate-700 hover:text-slate-900"
+                >
+                  {title}
+                </SessionLink>
+              ) : (
+                <span className="max-w-[24rem] truncate font-medium text-slate-700">{title}</span>
+              )}
+              {entry.started_at && <span>· {formatTimestamp(entry.started_at, false)}</span>}
+            </Divider>
+            {!sessionPath && (
+              <div className="rounded-3xl border border-dashed border-slate-200 px-6 py-6 text-center text-sm text-slate-500">
+                This session is not indexed, so its turns cannot be shown.
+              </div>
+            )}
+            {turns.map((turn) => (
+              <TurnCard
+                key={`thread-${index}-turn-${turn.id}`}
+                turn={turn}
+                showFullContent={showFullContent}
+                anchorPrefix={`thread-${index}`}
+              />
+            ))}
+          </div>
+        );
+      })}
+      <Divider>
+        <span className="font-medium text-slate-700">This session</span>
+      </Divider>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { Hourglass } from 'lucide-react';
+import { Ban, Hourglass } from 'lucide-react';
 import { formatDurationMsWithSeconds, formatTimestamp } from '../format';
 import type { Turn } from '../types';
 import { MessageCard } from './MessageCard';
@@ -8,16 +8,21 @@ interface TurnCardProps {
   showFullContent: boolean;
   highlightTokens?: string[];
   isMatch?: boolean;
+  // Set for ancestor turns in full-thread mode: keeps their element ids apart from the open session's
+  // turns and leaves them out of turn navigation.
+  anchorPrefix?: string;
 }
 
-export const TurnCard = ({ turn, showFullContent, highlightTokens, isMatch }: TurnCardProps) => {
+export const TurnCard = ({ turn, showFullContent, highlightTokens, isMatch, anchorPrefix }: TurnCardProps) => {
   const durationLabel = formatDurationMsWithSeconds(turn.activeDurationMs);
   return (
     <section
-      id={`turn-${turn.id}`}
+      id={anchorPrefix ? `${anchorPrefix}-turn-${turn.id}` : `turn-${turn.id}`}
       className="relative animate-rise rounded-3xl border border-white/80 bg-white/80 p-6 shadow-card"
     >
-      <span data-turn-anchor={turn.id} className="absolute inset-x-0 top-0 h-px" aria-hidden="true" />
+      {!anchorPrefix && (
+        <span data-turn-anchor={turn.id} className="absolute inset-x-0 top-0 h-px" aria-hidden="true" />
+      )}
       <div className="flex items-center justify-between">
         <div>
           <p className="text-xs font-semibold uppercase tracking-[0.3em] text-teal-600">
@@ -26,6 +31,15 @@ export const TurnCard = ({ turn, showFullContent, highlightTokens, isMatch }: Tu
           {turn.startedAt && <p className="text-xs text-slate-500">{formatTimestamp(turn.startedAt)}</p>}
         </div>
         <div className="flex items-center gap-2">
+          {turn.aborted ? (
+            <span
+              className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-3 py-1 text-xs text-amber-700"
+              title={turn.abortReason ? `Interrupted (${turn.abortReason})` : 'Interrupted'}
+            >
+              <Ban className="h-3 w-3" />
+              Interrupted
+            </span>
+          ) : null}
           {durationLabel ? (
             <span className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-500">
               <Hourglass className="h-3 w-3" />
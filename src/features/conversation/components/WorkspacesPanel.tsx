@@ -143,6 +143,14 @@ const WorkspacesPanelComponent = ({
                           {workspace.git_branch && (
                             <div className="mt-1 text-[11px] text-slate-500">Branch: {workspace.git_branch}</div>
                           )}
+                          {workspace.top_model && (
+                            <div
+                              className="mt-1 text-[11px] text-slate-500"
+                              title={`${workspace.top_model_turn_count} turns`}
+                            >
+                              Model: {workspace.top_model}
+                            </div>
+                          )}
                           {workspace.git_repo && !githubUrl && (
                             <div className="mt-2 text-[11px] text-slate-500">{workspace.git_repo}</div>
                           )}
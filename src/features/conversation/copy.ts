@@ -39,6 +39,7 @@ export const buildConversationExport = (turns: Turn[]) => {
     tool_output: 0,
     meta: 0,
     token_count: 0,
+    raw: 0,
   };
 
   const items = turns.flatMap((turn) => turn.items);
@@ -68,6 +69,10 @@ export const buildConversationExport = (turns: Turn[]) => {
         const tokenExport = buildTokenCountExport(item.raw ?? item.content);
         return `<TOKEN-COUNT-${count}>\n${tokenExport}\n</TOKEN-COUNT-${count}>`;
       }
+      if (item.type === 'raw') {
+        const typeAttr = item.eventType ? ` type="${item.eventType}"` : '';
+        return `<RAW-EVENT-${count}${typeAttr}>\n${item.content}\n</RAW-EVENT-${count}>`;
+      }
       return `<META-${count}>\n${item.content}\n</META-${count}>`;
     })
     .join('\n\n');
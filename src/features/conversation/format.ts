@@ -1,16 +1,8 @@
+export { formatJsonValue } from '../../../shared/sessionParser';
+
 export const MAX_PREVIEW_CHARS = 1000;
 export const MAX_PREVIEW_LINES = 50;
 
-export const formatJsonValue = (value: unknown) => {
-  if (value === undefined || value === null) return '';
-  if (typeof value === 'string') return value;
-  try {
-    return JSON.stringify(value, null, 2);
-  } catch (_error) {
-    return String(value);
-  }
-};
-
 export const generateId = () => {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
   return Array.from({ length: 8 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
@@ -137,6 +129,15 @@ export const formatDurationMsWithSeconds = (durationMs?: number | null) => {
   return formatDurationMs(durationMs);
 };
 
+// Sub-minute precision for short-lived work such as shell commands.
+export const formatShortDurationMs = (durationMs?: number | null) => {
+  if (durationMs === null || durationMs === undefined) return '';
+  if (!Number.isFinite(durationMs) || durationMs < 0) return '';
+  if (durationMs < 1000) return `${Math.round(durationMs)}ms`;
+  if (durationMs < 60_000) return `${(durationMs / 1000).toFixed(1)}s`;
+  return formatDurationMsWithSeconds(durationMs);
+};
+
 export const isSameDay = (value: string, compareTo: Date) => {
   const date = new Date(value);
   if (Number.isNaN(date.getTime())) return false;
@@ -169,6 +170,13 @@ export const formatCompactCount = (value?: number | null) => {
   return `${(value / 1_000_000).toFixed(1)}m`;
 };
 
+export const formatBytes = (value?: number | null) => {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '';
+  if (value < 1024) return `${Math.round(value)} B`;
+  if (value < 1024 * 1024) return `${(value / 1024).toFixed(1)} KB`;
+  return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 const HOME_PATH_REGEX = /^(?:\/Users\/[^/]+|\/home\/[^/]+|[A-Za-z]:\\Users\\[^\\]+)/;
 
 const formatHomePath = (value?: string | null) => {
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchCommands } from '../api';
+import type { CommandEntry } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+interface UseCommandsOptions {
+  // Exactly one scope is used: a session path wins over a workspace; with neither nothing is loaded.
+  session?: string | null;
+  workspace?: string | null;
+}
+
+export const useCommands = ({ session, workspace }: UseCommandsOptions) => {
+  const [commands, setCommands] = useState<CommandEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+  const scopeSession = session || null;
+  const scopeWorkspace = scopeSession ? null : workspace || null;
+
+  const load = useCallback(
+    async (background: boolean) => {
+      requestId.current += 1;
+      const current = requestId.current;
+      if (!scopeSession && !scopeWorkspace) {
+        setCommands([]);
+        setTruncated(false);
+        setError(null);
+        return;
+      }
+      if (!background) setLoading(true);
+      try {
+        const data = await fetchCommands({ session: scopeSession, workspace: scopeWorkspace });
+        if (current !== requestId.current) return;
+        setCommands(data.commands);
+        setTruncated(data.truncated);
+        setError(null);
+      } catch (error: any) {
+        if (current !== requestId.current) return;
+        setError(error?.message || 'Unable to load commands.');
+      } finally {
+        if (current === requestId.current) setLoading(false);
+      }
+    },
+    [scopeSession, scopeWorkspace],
+  );
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+  useIndexEvents(refresh);
+
+  return { commands, truncated, loading, error };
+};
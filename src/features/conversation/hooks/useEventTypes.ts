@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchEventTypes } from '../api';
+import type { EventTypeSummary } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+// Loads the event type catalogue while `enabled` (the settings modal is open) and after every index run.
+export const useEventTypes = (enabled: boolean) => {
+  const [eventTypes, setEventTypes] = useState<EventTypeSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const load = useCallback(
+    async (background: boolean) => {
+      requestId.current += 1;
+      const current = requestId.current;
+      if (!enabled) return;
+      if (!background) setLoading(true);
+      try {
+        const data = await fetchEventTypes();
+        if (current !== requestId.current) return;
+        setEventTypes(data);
+        setError(null);
+      } catch (error: any) {
+        if (current !== requestId.current) return;
+        setError(error?.message || 'Unable to load event types.');
+      } finally {
+        if (current === requestId.current) setLoading(false);
+      }
+    },
+    [enabled],
+  );
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+  useIndexEvents(refresh);
+
+  return { eventTypes, loading, error };
+};
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchIndexDiagnostics } from '../api';
+import type { IndexDiagnosticsResponse } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+// Loads the per-file health report while `enabled` (the settings modal is open) and after every index run.
+export const useIndexDiagnostics = (enabled: boolean) => {
+  const [diagnostics, setDiagnostics] = useState<IndexDiagnosticsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const load = useCallback(
+    async (background: boolean) => {
+      requestId.current += 1;
+      const current = requestId.current;
+      if (!enabled) return;
+      if (!background) setLoading(true);
+      try {
+        const data = await fetchIndexDiagnostics();
+        if (current !== requestId.current) return;
+        setDiagnostics(data);
+        setError(null);
+      } catch (error: any) {
+        if (current !== requestId.current) return;
+        setError(error?.message || 'Unable to load index diagnostics.');
+      } finally {
+        if (current === requestId.current) setLoading(false);
+      }
+    },
+    [enabled],
+  );
+
+  useEffect(() => {
+    load(false);
+  }, [load]);
+
+  const refresh = useCallback(() => load(true), [load]);
+  useIndexEvents(refresh);
+
+  return { diagnostics, loading, error };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useRef } from 'react';
+import { subscribeIndexEvents } from '../api';
+import type { IndexUpdatedEvent } from '../types';
+
+export const useIndexEvents = (onIndexUpdated: (event: IndexUpdatedEvent) => void) => {
+  const handlerRef = useRef(onIndexUpdated);
+
+  useEffect(() => {
+    handlerRef.current = onIndexUpdated;
+  }, [onIndexUpdated]);
+
+  useEffect(() => subscribeIndexEvents((event) => handlerRef.current(event)), []);
+};
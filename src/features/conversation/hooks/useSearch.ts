@@ -1,11 +1,16 @@
 import { type ClipboardEvent, type KeyboardEvent, useCallback, useEffect, useRef, useState } from 'react';
-import { resolveSession, searchSessions } from '../api';
+import { resolveSession, searchMessages, searchSessions } from '../api';
 import { logSearch } from '../debug';
 import type {
   LoadSessionOptions,
+  MessageSearchResult,
   SearchGroupSort,
+  SearchMatchMode,
+  SearchQualifier,
+  SearchResultMode,
   SearchResultSort,
   SearchStatus,
+  SearchSyntaxError,
   WorkspaceSearchGroup,
 } from '../types';
 
@@ -13,6 +18,7 @@ interface UseSearchOptions {
   onError?: (message: string | null) => void;
   onLoadSession: (sessionId: string, turnId?: number, options?: LoadSessionOptions) => Promise<void> | void;
   workspace?: string | null;
+  abortedOnly?: boolean;
 }
 
 const UUID_EXACT_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
@@ -23,6 +29,8 @@ const MIN_NON_LATIN_TOKEN_LENGTH = 1;
 const MIN_NUMERIC_TOKEN_LENGTH = 2;
 const LATIN_SCRIPT_REGEX = /\p{Script=Latin}/u;
 const NUMERIC_TOKEN_REGEX = /^\p{N}+$/u;
+// Literal (substring) search needs a term of at least three characters, the trigram index's minimum.
+const MIN_LITERAL_TERM_LENGTH = 3;
 
 const getSearchTokens = (value: string) =>
   (value.trim().match(FTS_TOKEN_REGEX) ?? []).filter(Boolean).slice(0, MAX_FTS_TOKENS);
@@ -40,13 +48,35 @@ const isSearchableToken = (token: string) => {
 
 const hasSearchableToken = (value: string) => getSearchTokens(value).some(isSearchableToken);
 
-export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOptions) => {
+const hasLiteralTerm = (value: string) =>
+  value
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .some((term) => Array.from(term).length >= MIN_LITERAL_TERM_LENGTH);
+
+const isSearchableQuery = (value: string, matchMode: SearchMatchMode) => {
+  if (matchMode === 'regex') return Boolean(value.trim());
+  return matchMode === 'literal' ? hasLiteralTerm(value) : hasSearchableToken(value);
+};
+
+export const useSearch = ({ onError, onLoadSession, workspace, abortedOnly = false }: UseSearchOptions) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchGroups, setSearchGroups] = useState<WorkspaceSearchGroup[]>([]);
   const [searchStatus, setSearchStatus] = useState<SearchStatus>('idle');
   const [searchError, setSearchError] = useState<string | null>(null);
+  // Set alongside searchError when the server rejected the query itself; shown under the input, not as a page error.
+  const [searchSyntaxError, setSearchSyntaxError] = useState<SearchSyntaxError | null>(null);
+  // Qualifiers the server applied to the last successful search, shown as removable chips.
+  const [searchQualifiers, setSearchQualifiers] = useState<SearchQualifier[]>([]);
   const [resultSort, setResultSort] = useState<SearchResultSort>('relevance');
   const [groupSort, setGroupSort] = useState<SearchGroupSort>('last_seen');
+  const [resultMode, setResultMode] = useState<SearchResultMode>('sessions');
+  const [matchMode, setMatchMode] = useState<SearchMatchMode>('word');
+  // Message mode: the pages loaded so far and the cursor for the next one (null once the last page is in).
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [messagesCursor, setMessagesCursor] = useState<string | null>(null);
+  const [loadingMoreMessages, setLoadingMoreMessages] = useState(false);
+  const loadingMoreRef = useRef(false);
   const searchTimeout = useRef<number | null>(null);
   const latestRequestId = useRef(0);
   const latestQuery = useRef('');
@@ -54,7 +84,7 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
   const skipNextSearchRef = useRef<string | null>(null);
   const pendingPasteRequestId = useRef<number | null>(null);
   const statusRef = useRef<SearchStatus>('idle');
-  const searchTooShort = Boolean(searchQuery.trim()) && !hasSearchableToken(searchQuery);
+  const searchTooShort = Boolean(searchQuery.trim()) && !isSearchableQuery(searchQuery, matchMode);
 
   const updateStatus = useCallback((next: SearchStatus, context?: Record<string, unknown>) => {
     const prev = statusRef.current;
@@ -76,7 +106,11 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
       skipNextSearchRef.current = null;
       setSearchQuery('');
       setSearchGroups([]);
+      setMessageResults([]);
+      setMessagesCursor(null);
       setSearchError(null);
+      setSearchSyntaxError(null);
+      setSearchQualifiers([]);
       updateStatus('idle', { reason });
       logSearch('clear', { reason });
     },
@@ -118,15 +152,57 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
         searchRequestId,
         query: trimmedQuery,
         workspace,
+        abortedOnly,
         resultSort,
         groupSort,
+        resultMode,
+        matchMode,
         source,
       });
       try {
-        const results = await searchSessions(trimmedQuery, 40, workspace, searchRequestId, resultSort, groupSort);
+        if (resultMode === 'messages') {
+          const page = await searchMessages(trimmedQuery, {
+            workspace,
+            requestId: searchRequestId,
+            resultSort,
+            abortedOnly,
+            match: matchMode,
+          });
+          if (requestId !== latestRequestId.current || latestQuery.current !== trimmedQuery) return;
+          setMessageResults(page.results);
+          setMessagesCursor(page.nextCursor);
+          setSearchQualifiers(page.qualifiers);
+          setSearchError(null);
+          setSearchSyntaxError(null);
+          updateStatus('success', { requestId, searchRequestId, query: trimmedQuery, source });
+          logSearch('request:success', {
+            requestId,
+            searchRequestId,
+            query: trimmedQuery,
+            workspace,
+            resultSort,
+            resultMode,
+            resultCount: page.results.length,
+            hasMore: Boolean(page.nextCursor),
+            source,
+          });
+          return;
+        }
+        const results = await searchSessions(
+          trimmedQuery,
+          40,
+          workspace,
+          searchRequestId,
+          resultSort,
+          groupSort,
+          abortedOnly,
+          matchMode,
+        );
         if (requestId !== latestRequestId.current || latestQuery.current !== trimmedQuery) return;
         setSearchGroups(results.groups);
+        setSearchQualifiers(results.qualifiers);
         setSearchError(null);
+        setSearchSyntaxError(null);
         updateStatus('success', { requestId, searchRequestId, query: trimmedQuery, source });
         logSearch('request:success', {
           requestId,
@@ -151,6 +227,7 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
         if (requestId !== latestRequestId.current || latestQuery.current !== trimmedQuery) return;
         const message = error?.message || 'Search failed.';
         setSearchError(message);
+        setSearchSyntaxError(error?.syntax ?? null);
         updateStatus('error', { requestId, searchRequestId, query: trimmedQuery, source });
         logSearch('request:error', {
           requestId,
@@ -163,7 +240,7 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
           error,
           source,
         });
-        onError?.(message);
+        if (!error?.syntax) onError?.(message);
       } finally {
         const isStale = requestId !== latestRequestId.current || latestQuery.current !== trimmedQuery;
         if (isStale) {
@@ -181,21 +258,25 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
         }
       }
     },
-    [groupSort, onError, resultSort, updateStatus, workspace],
+    [abortedOnly, groupSort, matchMode, onError, resultMode, resultSort, updateStatus, workspace],
   );
 
   useEffect(() => {
     const trimmedQuery = searchQuery.trim();
-    const isSearchable = hasSearchableToken(trimmedQuery);
+    const isSearchable = isSearchableQuery(trimmedQuery, matchMode);
     logSearch('input', { query: searchQuery, trimmedQuery, workspace, resultSort, groupSort });
     latestQuery.current = trimmedQuery;
     const nextRequestIdValue = pendingPasteRequestId.current ?? latestRequestId.current + 1;
     pendingPasteRequestId.current = null;
     latestRequestId.current = nextRequestIdValue;
     const requestId = latestRequestId.current;
+    setSearchSyntaxError(null);
+    setSearchQualifiers([]);
     if (!trimmedQuery) {
       logSearch('clear', { requestId, reason: 'empty-query' });
       setSearchGroups([]);
+      setMessageResults([]);
+      setMessagesCursor(null);
       setSearchError(null);
       updateStatus('idle', { requestId, reason: 'empty-query' });
       return;
@@ -203,11 +284,15 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
     if (!isSearchable) {
       logSearch('clear', { requestId, reason: 'too-short' });
       setSearchGroups([]);
+      setMessageResults([]);
+      setMessagesCursor(null);
       setSearchError(null);
       updateStatus('idle', { requestId, reason: 'too-short' });
       return;
     }
     setSearchGroups([]);
+    setMessageResults([]);
+    setMessagesCursor(null);
     setSearchError(null);
     updateStatus('debouncing', { requestId, query: trimmedQuery });
     if (skipNextSearchRef.current === trimmedQuery) {
@@ -232,7 +317,56 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
         logSearch('debounce:cleanup', { requestId, query: trimmedQuery });
       }
     };
-  }, [executeSearch, groupSort, nextRequestId, resultSort, searchQuery, updateStatus, workspace]);
+  }, [executeSearch, groupSort, matchMode, nextRequestId, resultSort, searchQuery, updateStatus, workspace]);
+
+  // Appends the next page of message results; a page for a query the user has since changed is dropped.
+  const loadMoreMessages = useCallback(async () => {
+    if (!messagesCursor || loadingMoreRef.current) return;
+    const requestId = latestRequestId.current;
+    const query = latestQuery.current;
+    const searchRequestId = nextRequestId('search-more');
+    loadingMoreRef.current = true;
+    setLoadingMoreMessages(true);
+    logSearch('request:more:start', { requestId, searchRequestId, query, workspace, resultSort });
+    try {
+      const page = await searchMessages(query, {
+        workspace,
+        requestId: searchRequestId,
+        resultSort,
+        abortedOnly,
+        cursor: messagesCursor,
+        match: matchMode,
+      });
+      if (requestId !== latestRequestId.current || latestQuery.current !== query) return;
+      setMessageResults((current) => [...current, ...page.results]);
+      setMessagesCursor(page.nextCursor);
+      logSearch('request:more:success', {
+        requestId,
+        searchRequestId,
+        query,
+        resultCount: page.results.length,
+        hasMore: Boolean(page.nextCursor),
+      });
+    } catch (error: any) {
+      if (requestId !== latestRequestId.current || latestQuery.current !== query) return;
+      const message = error?.message || 'Unable to load more results.';
+      logSearch('request:more:error', { requestId, searchRequestId, query, message, error });
+      onError?.(message);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMoreMessages(false);
+    }
+  }, [abortedOnly, matchMode, messagesCursor, nextRequestId, onError, resultSort, workspace]);
+
+  // Cuts a qualifier's `key:value` out of the query; its position is relative to the trimmed query that was sent.
+  const removeSearchQualifier = useCallback((qualifier: SearchQualifier) => {
+    if (qualifier.position === null || qualifier.length === null) return;
+    const { position, length } = qualifier;
+    setSearchQuery((current) => {
+      const start = current.length - current.trimStart().length + position;
+      return `${current.slice(0, start).trimEnd()} ${current.slice(start + length).trimStart()}`.trim();
+    });
+  }, []);
 
   const handleSearchKeyDown = useCallback(
     async (event: KeyboardEvent<HTMLInputElement>) => {
@@ -276,6 +410,8 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
       skipNextSearchRef.current = pasted;
       setSearchQuery(pasted);
       setSearchGroups([]);
+      setMessageResults([]);
+      setMessagesCursor(null);
       setSearchError(null);
       updateStatus('debouncing', { query: pasted, reason: 'paste-uuid' });
       const resolveRequestId = nextRequestId('resolve');
@@ -360,10 +496,21 @@ export const useSearch = ({ onError, onLoadSession, workspace }: UseSearchOption
     searchGroups,
     searchStatus,
     searchError,
+    searchSyntaxError,
+    searchQualifiers,
+    removeSearchQualifier,
     resultSort,
     setResultSort,
     groupSort,
     setGroupSort,
+    resultMode,
+    setResultMode,
+    matchMode,
+    setMatchMode,
+    messageResults,
+    hasMoreMessages: Boolean(messagesCursor),
+    loadingMoreMessages,
+    loadMoreMessages,
     handleSearchKeyDown,
     handleSearchPasteUuid,
   };
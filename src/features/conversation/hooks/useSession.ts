@@ -1,17 +1,21 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { SessionMetrics } from '../../../../shared/sessionMetrics';
+import { extractSessionIdFromPath } from '../../../../shared/sessionParser';
 import { fetchSession } from '../api';
 import { logTurnNav } from '../debug';
-import { extractSessionIdFromPath, parseJsonl } from '../parsing';
+import { parseJsonl } from '../parsing';
 import type {
+  IndexUpdatedEvent,
   JumpToTurnOptions,
   LoadSessionOptions,
+  SearchMatchMode,
   SessionDetails,
   SessionFileEntry,
   SessionTree,
   Turn,
 } from '../types';
 import { getSessionParamsFromLocation, updateSessionUrl } from '../url';
+import { useIndexEvents } from './useIndexEvents';
 
 interface UseSessionOptions {
   sessionsTree: SessionTree | null;
@@ -32,10 +36,12 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
   const [parseErrors, setParseErrors] = useState<string[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [activeSearchQuery, setActiveSearchQuery] = useState<string | null>(null);
+  const [activeSearchMatch, setActiveSearchMatch] = useState<SearchMatchMode>('word');
   const [parsedMeta, setParsedMeta] = useState<ParsedMeta | null>(null);
   const [sessionDetails, setSessionDetails] = useState<SessionDetails>({});
   const [loadingSession, setLoadingSession] = useState(false);
   const [scrollToTurnId, setScrollToTurnId] = useState<number | null>(null);
+  const requestedSessionIdRef = useRef<string | null>(null);
 
   const buildParsedMeta = useCallback((sessionId: string, metrics: SessionMetrics) => {
     const filename = sessionId.split('/').pop() || sessionId;
@@ -50,8 +56,10 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
   }, []);
 
   const clearSession = useCallback(() => {
+    requestedSessionIdRef.current = null;
     setActiveSessionId(null);
     setActiveSearchQuery(null);
+    setActiveSearchMatch('word');
     setParsedMeta(null);
     setTurns([]);
     setParseErrors([]);
@@ -76,28 +84,38 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
     [sessionsTree],
   );
 
+  const applySessionContent = useCallback(
+    (sessionId: string, raw: string) => {
+      const parsed = parseJsonl(raw);
+      setTurns(parsed.turns);
+      setParseErrors(parsed.errors);
+      const derivedMeta = buildParsedMeta(sessionId, parsed.metrics);
+      const indexed = findSessionById(sessionId);
+      const metaFilename = indexed?.filename ?? derivedMeta.filename ?? sessionId;
+      const fallbackSessionId = extractSessionIdFromPath(metaFilename);
+      const resolvedSessionId = parsed.sessionInfo.sessionId || fallbackSessionId || undefined;
+      const resolvedCwd = parsed.sessionInfo.cwd || indexed?.cwd || undefined;
+      setSessionDetails({ sessionId: resolvedSessionId, cwd: resolvedCwd, settings: parsed.sessionInfo.settings });
+      setActiveSessionId(sessionId);
+      setParsedMeta(derivedMeta);
+    },
+    [buildParsedMeta, findSessionById],
+  );
+
   const loadSession = useCallback(
     async (sessionId: string, turnId?: number, options?: LoadSessionOptions) => {
       const historyMode = options?.historyMode ?? 'push';
       const searchQuery = options?.searchQuery ?? null;
-      updateSessionUrl(sessionId, turnId ?? null, historyMode, searchQuery);
+      const searchMatch = options?.searchMatch ?? 'word';
+      updateSessionUrl(sessionId, turnId ?? null, historyMode, searchQuery, searchMatch);
       setActiveSearchQuery(searchQuery);
+      setActiveSearchMatch(searchMatch);
+      requestedSessionIdRef.current = sessionId;
       try {
         setLoadingSession(true);
         onError?.(null);
         const raw = await fetchSession(sessionId);
-        const parsed = parseJsonl(raw);
-        setTurns(parsed.turns);
-        setParseErrors(parsed.errors);
-        const derivedMeta = buildParsedMeta(sessionId, parsed.metrics);
-        const indexed = findSessionById(sessionId);
-        const metaFilename = indexed?.filename ?? derivedMeta.filename ?? sessionId;
-        const fallbackSessionId = extractSessionIdFromPath(metaFilename);
-        const resolvedSessionId = parsed.sessionInfo.sessionId || fallbackSessionId || undefined;
-        const resolvedCwd = parsed.sessionInfo.cwd || indexed?.cwd || undefined;
-        setSessionDetails({ sessionId: resolvedSessionId, cwd: resolvedCwd });
-        setActiveSessionId(sessionId);
-        setParsedMeta(derivedMeta);
+        applySessionContent(sessionId, raw);
         setScrollToTurnId(turnId ?? null);
       } catch (error: any) {
         const status = error?.status;
@@ -110,9 +128,30 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
         setLoadingSession(false);
       }
     },
-    [buildParsedMeta, findSessionById, onError],
+    [applySessionContent, onError],
   );
 
+  // Re-read the open session when the index reports it changed; keeps URL, scroll and filters untouched.
+  const handleIndexUpdated = useCallback(
+    async (event: IndexUpdatedEvent) => {
+      const sessionId = activeSessionId;
+      if (!sessionId) return;
+      const affected = event.paths ? event.paths.includes(sessionId) : event.summary.updated > 0;
+      if (!affected) return;
+      try {
+        const raw = await fetchSession(sessionId);
+        if (requestedSessionIdRef.current !== sessionId) return;
+        applySessionContent(sessionId, raw);
+      } catch (error: any) {
+        if (requestedSessionIdRef.current !== sessionId) return;
+        onError?.(error?.message || 'Failed to refresh session.');
+      }
+    },
+    [activeSessionId, applySessionContent, onError],
+  );
+
+  useIndexEvents(handleIndexUpdated);
+
   const jumpToTurn = useCallback(
     (turnId: number | null, options?: JumpToTurnOptions) => {
       if (!activeSessionId) return;
@@ -123,22 +162,22 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
         historyMode,
         scroll: options?.scroll !== false,
       });
-      updateSessionUrl(activeSessionId, turnId ?? null, historyMode, activeSearchQuery);
+      updateSessionUrl(activeSessionId, turnId ?? null, historyMode, activeSearchQuery, activeSearchMatch);
       if (typeof turnId === 'number' && Number.isFinite(turnId) && options?.scroll !== false) {
         setScrollToTurnId(turnId);
       }
     },
-    [activeSearchQuery, activeSessionId],
+    [activeSearchMatch, activeSearchQuery, activeSessionId],
   );
 
   const setSessionSearchQuery = useCallback(
     (searchQuery: string | null, historyMode: JumpToTurnOptions['historyMode'] = 'replace') => {
       if (!activeSessionId) return;
       const { turnId } = getSessionParamsFromLocation();
-      updateSessionUrl(activeSessionId, turnId ?? null, historyMode, searchQuery);
+      updateSessionUrl(activeSessionId, turnId ?? null, historyMode, searchQuery, activeSearchMatch);
       setActiveSearchQuery(searchQuery);
     },
-    [activeSessionId],
+    [activeSearchMatch, activeSessionId],
   );
 
   const activeSession = useMemo<SessionFileEntry | null>(() => {
@@ -203,6 +242,7 @@ export const useSession = ({ sessionsTree, onError }: UseSessionOptions) => {
     activeSession,
     sessionDetails,
     activeSearchQuery,
+    activeSearchMatch,
     loadingSession,
     loadSession,
     clearSession,
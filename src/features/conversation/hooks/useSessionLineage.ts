@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchLineage } from '../api';
+import type { SessionLineageResponse } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+// Ancestors and children of the open session; refreshed when the index changes, since a parent may be indexed later.
+export const useSessionLineage = (sessionPath: string | null) => {
+  const [lineage, setLineage] = useState<SessionLineageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const load = useCallback(async () => {
+    requestId.current += 1;
+    const current = requestId.current;
+    if (!sessionPath) {
+      setLineage(null);
+      setError(null);
+      return;
+    }
+    try {
+      const data = await fetchLineage(sessionPath);
+      if (current !== requestId.current) return;
+      setLineage(data);
+      setError(null);
+    } catch (error: any) {
+      if (current !== requestId.current) return;
+      setError(error?.message || 'Unable to load session lineage.');
+    }
+  }, [sessionPath]);
+
+  useEffect(() => {
+    setLineage(null);
+    load();
+  }, [load]);
+
+  useIndexEvents(load);
+
+  return { lineage, error };
+};
@@ -1,47 +1,89 @@
 import { useMemo, useState } from 'react';
 import { hasTokenCountUsage } from '../tokenCounts';
-import type { Turn } from '../types';
+import type { SessionFileSummary, Turn } from '../types';
 
-export const useSessionOverview = (turns: Turn[]) => {
-  const [showThoughts, setShowThoughts] = useState(false);
-  const [showTools, setShowTools] = useState(false);
-  const [showMeta, setShowMeta] = useState(false);
-  const [showTokenCounts, setShowTokenCounts] = useState(false);
-  const [showFullContent, setShowFullContent] = useState(false);
-
-  const filteredTurns = useMemo(() => {
-    return turns.map((turn) => {
-      const items = turn.items.filter((item) => {
-        if (item.type === 'thought' && !showThoughts) return false;
-        if ((item.type === 'tool_call' || item.type === 'tool_output') && !showTools) return false;
-        if (item.type === 'meta' && !showMeta) return false;
-        if (item.type === 'token_count' && !showTokenCounts) return false;
-        return true;
-      });
-
-      if (!showTokenCounts) {
-        return { ...turn, items };
+// Folds every patch/edit of a path into one entry, in order of first change.
+const summarizeFileChanges = (turns: Turn[]): SessionFileSummary[] => {
+  const summaries = new Map<string, SessionFileSummary>();
+  for (const turn of turns) {
+    for (const item of turn.items) {
+      for (const change of item.fileChanges ?? []) {
+        const summary = summaries.get(change.path);
+        if (!summary) {
+          summaries.set(change.path, {
+            path: change.path,
+            movedFrom: change.movedFrom,
+            operation: change.operation,
+            linesAdded: change.linesAdded ?? 0,
+            linesRemoved: change.linesRemoved ?? 0,
+            turnIds: [turn.id],
+          });
+          continue;
+        }
+        // Added then edited is still an add; a later delete wins.
+        if (change.operation === 'delete' || summary.operation === 'delete') summary.operation = change.operation;
+        summary.linesAdded += change.linesAdded ?? 0;
+        summary.linesRemoved += change.linesRemoved ?? 0;
+        if (!summary.turnIds.includes(turn.id)) summary.turnIds.push(turn.id);
       }
+    }
+  }
+  return Array.from(summaries.values());
+};
 
-      const compressed: typeof items = [];
-      let awaitingToken = false;
+export interface TurnFilters {
+  showThoughts: boolean;
+  showTools: boolean;
+  showMeta: boolean;
+  showTokenCounts: boolean;
+}
 
-      for (const item of items) {
-        if (item.type === 'token_count') {
-          if (!awaitingToken) continue;
-          if (!hasTokenCountUsage(item.raw ?? item.content)) continue;
-          compressed.push(item);
-          awaitingToken = false;
-          continue;
-        }
+// Applies the session view toggles to each turn's items; also used for ancestor turns in full-thread mode.
+export const filterTurns = (turns: Turn[], { showThoughts, showTools, showMeta, showTokenCounts }: TurnFilters) => {
+  return turns.map((turn) => {
+    const items = turn.items.filter((item) => {
+      if (item.type === 'thought' && !showThoughts) return false;
+      if ((item.type === 'tool_call' || item.type === 'tool_output') && !showTools) return false;
+      if ((item.type === 'meta' || item.type === 'raw') && !showMeta) return false;
+      if (item.type === 'token_count' && !showTokenCounts) return false;
+      return true;
+    });
+
+    if (!showTokenCounts) {
+      return { ...turn, items };
+    }
+
+    const compressed: typeof items = [];
+    let awaitingToken = false;
 
+    for (const item of items) {
+      if (item.type === 'token_count') {
+        if (!awaitingToken) continue;
+        if (!hasTokenCountUsage(item.raw ?? item.content)) continue;
         compressed.push(item);
-        awaitingToken = true;
+        awaitingToken = false;
+        continue;
       }
 
-      return { ...turn, items: compressed };
-    });
-  }, [turns, showThoughts, showTools, showMeta, showTokenCounts]);
+      compressed.push(item);
+      awaitingToken = true;
+    }
+
+    return { ...turn, items: compressed };
+  });
+};
+
+export const useSessionOverview = (turns: Turn[]) => {
+  const [showThoughts, setShowThoughts] = useState(false);
+  const [showTools, setShowTools] = useState(false);
+  const [showMeta, setShowMeta] = useState(false);
+  const [showTokenCounts, setShowTokenCounts] = useState(false);
+  const [showFullContent, setShowFullContent] = useState(false);
+
+  const filteredTurns = useMemo(
+    () => filterTurns(turns, { showThoughts, showTools, showMeta, showTokenCounts }),
+    [turns, showThoughts, showTools, showMeta, showTokenCounts],
+  );
 
   const visibleItemCount = useMemo(() => {
     return filteredTurns.reduce((count, turn) => count + turn.items.length, 0);
@@ -57,7 +99,7 @@ export const useSessionOverview = (turns: Turn[]) => {
       for (const item of turn.items) {
         if (item.type === 'thought') thoughtCount += 1;
         if (item.type === 'tool_call') toolCallCount += 1;
-        if (item.type === 'meta') metaCount += 1;
+        if (item.type === 'meta' || item.type === 'raw') metaCount += 1;
         if (item.type === 'token_count') tokenCount += 1;
       }
     }
@@ -65,6 +107,8 @@ export const useSessionOverview = (turns: Turn[]) => {
     return { thoughtCount, toolCallCount, metaCount, tokenCount };
   }, [turns]);
 
+  const filesChanged = useMemo(() => summarizeFileChanges(turns), [turns]);
+
   return {
     showThoughts,
     setShowThoughts,
@@ -79,5 +123,6 @@ export const useSessionOverview = (turns: Turn[]) => {
     filteredTurns,
     visibleItemCount,
     stats,
+    filesChanged,
   };
 };
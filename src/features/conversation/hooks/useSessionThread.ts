@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchSession } from '../api';
+import { parseJsonl } from '../parsing';
+import type { IndexUpdatedEvent, SessionLineageEntry, ThreadSegment, Turn } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+interface UseSessionThreadOptions {
+  ancestors: SessionLineageEntry[];
+  enabled: boolean;
+}
+
+// Loads and parses the ancestor sessions for full-thread mode; parsed turns are cached per session path until the
+// indexer reports that session changed.
+export const useSessionThread = ({ ancestors, enabled }: UseSessionThreadOptions) => {
+  const [segments, setSegments] = useState<ThreadSegment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cache = useRef(new Map<string, Turn[]>());
+  const requestId = useRef(0);
+
+  const loadThread = useCallback((entries: SessionLineageEntry[]) => {
+    requestId.current += 1;
+    const current = requestId.current;
+    const load = async (entry: SessionLineageEntry): Promise<ThreadSegment> => {
+      // Ancestors that are not indexed are still listed, without turns.
+      if (!entry.session_path) return { entry, turns: [] };
+      let turns = cache.current.get(entry.session_path);
+      if (!turns) {
+        turns = parseJsonl(await fetchSession(entry.session_path)).turns;
+        cache.current.set(entry.session_path, turns);
+      }
+      return { entry, turns };
+    };
+    setLoading(true);
+    setError(null);
+    Promise.all(entries.map(load))
+      .then((loaded) => {
+        if (current !== requestId.current) return;
+        setSegments(loaded);
+      })
+      .catch((error: any) => {
+        if (current !== requestId.current) return;
+        setError(error?.message || 'Unable to load earlier sessions.');
+        setSegments([]);
+      })
+      .finally(() => {
+        if (current === requestId.current) setLoading(false);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || ancestors.length === 0) {
+      requestId.current += 1;
+      setSegments([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+    loadThread(ancestors);
+  }, [ancestors, enabled, loadThread]);
+
+  // Same signal useSession reloads the open session on: drop changed ancestors and load the thread again.
+  const handleIndexUpdated = useCallback(
+    (event: IndexUpdatedEvent) => {
+      const cached = Array.from(cache.current.keys());
+      const stale = event.paths
+        ? cached.filter((path) => event.paths?.includes(path))
+        : event.summary.updated > 0
+          ? cached
+          : [];
+      if (!stale.length) return;
+      for (const path of stale) cache.current.delete(path);
+      if (enabled && ancestors.some((entry) => entry.session_path && stale.includes(entry.session_path))) {
+        loadThread(ancestors);
+      }
+    },
+    [ancestors, enabled, loadThread],
+  );
+
+  useIndexEvents(handleIndexUpdated);
+
+  return { segments, loading, error };
+};
@@ -1,16 +1,70 @@
-import { useCallback, useEffect, useState } from 'react';
-import { clearIndex, fetchConfig, fetchSessions, reindexSessions, saveConfig } from '../api';
-import type { SessionTree } from '../types';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  cancelIndexJob,
+  clearIndex,
+  fetchArchiveConfig,
+  fetchConfig,
+  fetchIndexJob,
+  fetchIndexStatus,
+  fetchScanFilters,
+  fetchSessions,
+  purgeArchivedSessions,
+  reindexSessions,
+  saveArchiveConfig,
+  saveConfig,
+  saveScanFilters as saveScanFiltersRequest,
+} from '../api';
+import type { ArchiveConfig, IndexJob, ScanFilters, SessionRootDraft, SessionTree } from '../types';
+import { useIndexEvents } from './useIndexEvents';
+
+const INDEX_JOB_POLL_MS = 500;
+
+const isJobFinished = (job: IndexJob) => job.status === 'done' || job.status === 'cancelled' || job.status === 'error';
+
+const formatJobSummary = (job: IndexJob) => {
+  const summary = job.summary;
+  if (!summary) return '';
+  const parts =
+    job.kind === 'clear-index'
+      ? [
+          'Cleared index',
+          `Scanned ${summary.scanned} files`,
+          `Updated ${summary.updated}`,
+          `Removed ${summary.removed}`,
+          `${summary.messageCount} messages`,
+        ]
+      : [
+          `Scanned ${summary.scanned} files`,
+          `Updated ${summary.updated} (${summary.appended} appended, ${summary.rewritten} rewritten)`,
+          `Unchanged ${summary.unchanged}`,
+          `Removed ${summary.removed}`,
+          `${summary.messageCount} messages`,
+        ];
+  if (summary.archived) parts.push(`${summary.archived} archived`);
+  if (summary.excluded) parts.push(`${summary.excluded} excluded by filters`);
+  if (summary.failed) parts.push(`${summary.failed} failed`);
+  if (summary.updated) {
+    const threads = summary.parseWorkers
+      ? `${summary.parseWorkers} worker${summary.parseWorkers === 1 ? '' : 's'}`
+      : 'main thread';
+    parts.push(`${summary.filesPerSecond} files/s, ${summary.megabytesPerSecond} MB/s on ${threads}`);
+  }
+  if (job.status === 'cancelled') parts.unshift(`Cancelled after ${job.progress.filesScanned} files`);
+  return parts.join(' · ');
+};
 
 interface UseSessionsOptions {
   onError?: (message: string | null) => void;
   workspace?: string | null;
+  abortedOnly?: boolean;
 }
 
-export const useSessions = ({ onError, workspace }: UseSessionsOptions = {}) => {
+export const useSessions = ({ onError, workspace, abortedOnly = false }: UseSessionsOptions = {}) => {
   const [sessionsTree, setSessionsTree] = useState<SessionTree | null>(null);
-  const [sessionsRoot, setSessionsRoot] = useState('');
+  const [sessionRoots, setSessionRoots] = useState<SessionRootDraft[]>([]);
   const [sessionsRootSource, setSessionsRootSource] = useState<string>('');
+  const [scanFilters, setScanFilters] = useState<ScanFilters>({ include: [], exclude: [], maxFileSizeMb: null });
+  const [archiveConfig, setArchiveConfig] = useState<ArchiveConfig>({ keepDeletedSessions: false, archivedCount: 0 });
   const [loadingSessions, setLoadingSessions] = useState(false);
   const [reindexing, setReindexing] = useState(false);
   const [clearingIndex, setClearingIndex] = useState(false);
@@ -18,9 +72,11 @@ export const useSessions = ({ onError, workspace }: UseSessionsOptions = {}) =>
 
   const loadConfig = useCallback(async () => {
     try {
-      const data = await fetchConfig();
-      setSessionsRoot(data.value || '');
+      const [data, filters, archive] = await Promise.all([fetchConfig(), fetchScanFilters(), fetchArchiveConfig()]);
+      setSessionRoots(data.roots || []);
       setSessionsRootSource(data.source || '');
+      setScanFilters(filters);
+      setArchiveConfig(archive);
     } catch (error: any) {
       onError?.(error?.message || 'Failed to load config.');
     }
@@ -30,77 +86,175 @@ export const useSessions = ({ onError, workspace }: UseSessionsOptions = {}) =>
     try {
       setLoadingSessions(true);
       onError?.(null);
-      const data = await fetchSessions(workspace);
+      const data = await fetchSessions(workspace, abortedOnly);
       setSessionsTree(data);
     } catch (error: any) {
       onError?.(error?.message || 'Failed to load sessions.');
     } finally {
       setLoadingSessions(false);
     }
-  }, [onError, workspace]);
+  }, [abortedOnly, onError, workspace]);
 
   useEffect(() => {
     loadConfig();
     loadSessions();
   }, [loadConfig, loadSessions]);
 
-  const saveRoot = useCallback(async () => {
+  // Background refresh: keep the current tree on screen instead of flashing the loading skeleton.
+  const refreshSessions = useCallback(async () => {
+    try {
+      // An index pass may have archived deleted sessions, so the Settings count follows the tree.
+      const [data, archive] = await Promise.all([fetchSessions(workspace, abortedOnly), fetchArchiveConfig()]);
+      setSessionsTree(data);
+      setArchiveConfig(archive);
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to load sessions.');
+    }
+  }, [abortedOnly, onError, workspace]);
+
+  useIndexEvents(refreshSessions);
+
+  // New or re-enabled roots are indexed by the server's watcher catch-up pass; its index-updated event refreshes the tree.
+  const saveRoots = useCallback(async () => {
     try {
       onError?.(null);
-      await saveConfig(sessionsRoot);
-      setSessionsRootSource('config');
+      const data = await saveConfig(sessionRoots);
+      setSessionRoots(data.roots || []);
+      setSessionsRootSource(data.source || 'config');
       await loadSessions();
-      await loadConfig();
     } catch (error: any) {
       onError?.(error?.message || 'Failed to update config.');
     }
-  }, [loadConfig, loadSessions, onError, sessionsRoot]);
+  }, [loadSessions, onError, sessionRoots]);
 
-  const reindex = useCallback(async () => {
+  // Saved filters apply from the next index pass; the watcher's next run or a reindex drops newly excluded files.
+  const saveScanFilters = useCallback(async () => {
     try {
-      setReindexing(true);
       onError?.(null);
-      const summary = await reindexSessions();
-      setIndexSummary(
-        `Scanned ${summary.scanned} files · Updated ${summary.updated} · Removed ${summary.removed} · ${summary.messageCount} messages`,
-      );
+      setScanFilters(await saveScanFiltersRequest(scanFilters));
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to update scan filters.');
+    }
+  }, [onError, scanFilters]);
+
+  const setKeepDeletedSessions = useCallback(
+    async (keepDeletedSessions: boolean) => {
+      try {
+        onError?.(null);
+        setArchiveConfig(await saveArchiveConfig(keepDeletedSessions));
+      } catch (error: any) {
+        onError?.(error?.message || 'Failed to update archive settings.');
+      }
+    },
+    [onError],
+  );
+
+  const purgeArchive = useCallback(async () => {
+    try {
+      onError?.(null);
+      await purgeArchivedSessions();
+      setArchiveConfig(await fetchArchiveConfig());
       await loadSessions();
     } catch (error: any) {
-      onError?.(error?.message || 'Reindex failed.');
-    } finally {
-      setReindexing(false);
+      onError?.(error?.message || 'Failed to purge archived sessions.');
     }
   }, [loadSessions, onError]);
 
+  const [indexJob, setIndexJob] = useState<IndexJob | null>(null);
+  const followedJobIdRef = useRef<string | null>(null);
+
+  // Polls a background index job until it finishes, mirroring each snapshot into state for the progress bar.
+  const followIndexJob = useCallback(
+    async (initial: IndexJob) => {
+      if (followedJobIdRef.current === initial.id) return;
+      const setBusy = initial.kind === 'clear-index' ? setClearingIndex : setReindexing;
+      let job = initial;
+      try {
+        followedJobIdRef.current = initial.id;
+        setBusy(true);
+        setIndexJob(job);
+        while (!isJobFinished(job)) {
+          await new Promise((resolve) => setTimeout(resolve, INDEX_JOB_POLL_MS));
+          job = await fetchIndexJob(job.id);
+          setIndexJob(job);
+        }
+        if (job.status === 'error') {
+          throw new Error(job.error || 'Indexing failed.');
+        }
+        setIndexSummary(formatJobSummary(job));
+        await loadSessions();
+      } finally {
+        if (followedJobIdRef.current === initial.id) followedJobIdRef.current = null;
+        setBusy(false);
+      }
+    },
+    [loadSessions],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    // Pick up a job started before a reload (or from another tab) so its progress stays visible.
+    fetchIndexStatus()
+      .then((status) => {
+        if (cancelled || !status.activeJob) return;
+        return followIndexJob(status.activeJob);
+      })
+      .catch((error: any) => {
+        if (!cancelled) onError?.(error?.message || 'Indexing failed.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [followIndexJob, onError]);
+
+  const reindex = useCallback(async () => {
+    try {
+      onError?.(null);
+      await followIndexJob(await reindexSessions());
+    } catch (error: any) {
+      onError?.(error?.message || 'Reindex failed.');
+    }
+  }, [followIndexJob, onError]);
+
   const rebuildIndex = useCallback(async () => {
     try {
-      setClearingIndex(true);
       onError?.(null);
-      const summary = await clearIndex();
-      setIndexSummary(
-        `Cleared index · Scanned ${summary.scanned} files · Updated ${summary.updated} · Removed ${summary.removed} · ${summary.messageCount} messages`,
-      );
-      await loadSessions();
+      await followIndexJob(await clearIndex());
     } catch (error: any) {
       onError?.(error?.message || 'Clear index failed.');
-    } finally {
-      setClearingIndex(false);
     }
-  }, [loadSessions, onError]);
+  }, [followIndexJob, onError]);
+
+  const cancelIndex = useCallback(async () => {
+    if (!indexJob || isJobFinished(indexJob)) return;
+    try {
+      setIndexJob(await cancelIndexJob(indexJob.id));
+    } catch (error: any) {
+      onError?.(error?.message || 'Unable to cancel indexing.');
+    }
+  }, [indexJob, onError]);
 
   return {
     sessionsTree,
-    sessionsRoot,
-    setSessionsRoot,
+    sessionRoots,
+    setSessionRoots,
     sessionsRootSource,
+    scanFilters,
+    setScanFilters,
+    saveScanFilters,
+    archiveConfig,
+    setKeepDeletedSessions,
+    purgeArchive,
     loadSessions,
     loadConfig,
-    saveRoot,
+    saveRoots,
     reindex,
     rebuildIndex,
+    cancelIndex,
     loadingSessions,
     reindexing,
     clearingIndex,
     indexSummary,
+    indexJob,
   };
 };
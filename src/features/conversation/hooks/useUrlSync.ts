@@ -11,24 +11,24 @@ export const useUrlSync = (
   useEffect(() => {
     if (initialLoadRef.current) return;
     initialLoadRef.current = true;
-    const { sessionId, turnId, searchQuery } = getSessionParamsFromLocation();
+    const { sessionId, turnId, searchQuery, searchMatch } = getSessionParamsFromLocation();
     if (!sessionId) {
       clearSession();
       return;
     }
     const parsedTurn = typeof turnId === 'number' && Number.isFinite(turnId) ? turnId : undefined;
-    loadSession(sessionId, parsedTurn, { historyMode: 'replace', searchQuery });
+    loadSession(sessionId, parsedTurn, { historyMode: 'replace', searchQuery, searchMatch });
   }, [clearSession, loadSession]);
 
   useEffect(() => {
     const handlePopState = () => {
-      const { sessionId, turnId, searchQuery } = getSessionParamsFromLocation();
+      const { sessionId, turnId, searchQuery, searchMatch } = getSessionParamsFromLocation();
       if (!sessionId) {
         clearSession();
         return;
       }
       const parsedTurn = typeof turnId === 'number' && Number.isFinite(turnId) ? turnId : undefined;
-      loadSession(sessionId, parsedTurn, { historyMode: 'replace', searchQuery });
+      loadSession(sessionId, parsedTurn, { historyMode: 'replace', searchQuery, searchMatch });
     };
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
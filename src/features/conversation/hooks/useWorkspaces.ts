@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useState } from 'react';
 import { fetchWorkspaces } from '../api';
 import type { WorkspaceSummary } from '../types';
+import { useIndexEvents } from './useIndexEvents';
 
 interface UseWorkspacesOptions {
   onError?: (message: string | null) => void;
@@ -28,6 +29,17 @@ export const useWorkspaces = ({ onError }: UseWorkspacesOptions = {}) => {
     loadWorkspaces();
   }, [loadWorkspaces]);
 
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const data = await fetchWorkspaces(sort);
+      setWorkspaces(data);
+    } catch (error: any) {
+      onError?.(error?.message || 'Failed to load workspaces.');
+    }
+  }, [onError, sort]);
+
+  useIndexEvents(refreshWorkspaces);
+
   return {
     workspaces,
     loading,
@@ -1,98 +1,18 @@
-import { createSessionMetrics, createTurnDurationTracker } from '../../../shared/sessionMetrics';
-import { formatJsonValue, MAX_PREVIEW_CHARS, MAX_PREVIEW_LINES } from './format';
-import type { ParsedItem, SessionDetails, Turn } from './types';
-import { normalizeSessionId, SESSION_ID_PREFIX_REGEX, SESSION_ID_REGEX } from './url';
-
-const formatToolCall = (item: any) => {
-  const name = item?.name || item?.tool_name || item?.tool?.name || 'tool';
-  const callId = item?.call_id || item?.id || item?.callId;
-  const args = item?.arguments ?? item?.args ?? item?.input ?? item?.parameters;
-  const parts = [`name: ${name}`];
-  if (callId) parts.push(`call_id: ${callId}`);
-  const argsText = formatJsonValue(args);
-  if (argsText) parts.push(`arguments:\n${argsText}`);
-  return { name, callId, content: parts.join('\n') };
-};
-
-const formatToolOutput = (item: any) => {
-  const callId = item?.call_id || item?.id || item?.callId;
-  const output = item?.output ?? item?.result ?? item?.content ?? item?.text ?? item?.value;
-  const parts: string[] = [];
-  if (callId) parts.push(`call_id: ${callId}`);
-  const outputText = formatJsonValue(output);
-  if (outputText) parts.push(`output:\n${outputText}`);
-  return { callId, content: parts.join('\n') };
-};
-
-const extractSessionIdFromObject = (value: unknown, depth = 0): string | null => {
-  if (!value || typeof value !== 'object' || depth > 2) return null;
-  const obj = value as Record<string, unknown>;
-  const direct =
-    obj.session_id ??
-    obj.sessionId ??
-    obj.conversation_id ??
-    obj.conversationId ??
-    obj.resume_session_id ??
-    obj.resumeSessionId ??
-    obj.id;
-  if (typeof direct === 'string' && direct.trim()) return normalizeSessionId(direct);
-  if (typeof obj.session === 'string' && obj.session.trim()) return normalizeSessionId(obj.session);
-  if (obj.session && typeof obj.session === 'object') {
-    const nestedId = (obj.session as Record<string, unknown>).id;
-    if (typeof nestedId === 'string' && nestedId.trim()) return normalizeSessionId(nestedId);
-    const nested = extractSessionIdFromObject(obj.session, depth + 1);
-    if (nested) return nested;
-  }
-  const containers = [obj.session_info, obj.sessionInfo, obj.metadata, obj.context, obj.payload];
-  for (const container of containers) {
-    const nested = extractSessionIdFromObject(container, depth + 1);
-    if (nested) return nested;
-  }
-  return null;
-};
-
-const extractCwdFromObject = (value: unknown, depth = 0): string | null => {
-  if (!value || typeof value !== 'object' || depth > 2) return null;
-  const obj = value as Record<string, unknown>;
-  const direct =
-    obj.cwd ??
-    obj.current_working_directory ??
-    obj.working_dir ??
-    obj.workingDirectory ??
-    obj.repo_root ??
-    obj.workspace_root ??
-    obj.root_dir;
-  if (typeof direct === 'string' && direct.trim()) return direct.trim();
-  if (obj.session && typeof obj.session === 'object') {
-    const nested = extractCwdFromObject(obj.session, depth + 1);
-    if (nested) return nested;
-  }
-  const containers = [obj.metadata, obj.context, obj.environment, obj.env, obj.workspace, obj.payload];
-  for (const container of containers) {
-    const nested = extractCwdFromObject(container, depth + 1);
-    if (nested) return nested;
-  }
-  return null;
-};
-
-export const extractSessionDetails = (entry: any): SessionDetails => {
-  const payload = entry?.payload ?? entry;
-  return {
-    sessionId: extractSessionIdFromObject(payload) ?? undefined,
-    cwd: extractCwdFromObject(payload) ?? undefined,
-  };
-};
-
-export const extractSessionIdFromPath = (value?: string | null) => {
-  if (!value) return null;
-  const normalized = value.replace(/\\/g, '/');
-  const filename = normalized.split('/').pop() || normalized;
-  const withoutExt = filename.replace(/\.jsonl$/i, '');
-  const uuidMatch = withoutExt.match(SESSION_ID_REGEX);
-  if (uuidMatch) return uuidMatch[0];
-  const prefixMatch = withoutExt.match(SESSION_ID_PREFIX_REGEX);
-  if (prefixMatch) return prefixMatch[0];
-  return null;
+import { extractFileChanges } from '../../../shared/fileChanges';
+import { createTurnDurationTracker } from '../../../shared/sessionMetrics';
+import { createSessionParser, formatJsonValue } from '../../../shared/sessionParser';
+import { MAX_PREVIEW_CHARS, MAX_PREVIEW_LINES } from './format';
+import type { ParsedItem, ParsedItemType, SessionDetails, Turn } from './types';
+
+const ITEM_TYPES: Record<string, ParsedItemType> = {
+  user_message: 'user',
+  assistant_message: 'assistant',
+  thought: 'thought',
+  token_count: 'token_count',
+  meta: 'meta',
+  tool_call: 'tool_call',
+  tool_output: 'tool_output',
+  unknown: 'raw',
 };
 
 export const parseJsonl = (raw: string) => {
@@ -101,28 +21,13 @@ export const parseJsonl = (raw: string) => {
   const turns: Turn[] = [];
   const preambleItems: ParsedItem[] = [];
   const turnMap = new Map<number, Turn>();
-  const metrics = createSessionMetrics({
+  const parser = createSessionParser({
     previewMaxChars: MAX_PREVIEW_CHARS,
     previewMaxLines: MAX_PREVIEW_LINES,
   });
   const turnDuration = createTurnDurationTracker();
-  let currentTurn = 0;
   let currentTurnRef: Turn | null = null;
   let seq = 0;
-  const sessionInfo: SessionDetails = {};
-  let sessionIdRank = 0;
-  let cwdRank = 0;
-
-  const updateSessionInfo = (details: SessionDetails, rank: number) => {
-    if (details.sessionId && rank >= sessionIdRank) {
-      sessionInfo.sessionId = details.sessionId;
-      sessionIdRank = rank;
-    }
-    if (details.cwd && rank >= cwdRank) {
-      sessionInfo.cwd = details.cwd;
-      cwdRank = rank;
-    }
-  };
 
   const ensureTurn = (turnId: number, startedAt?: string) => {
     const existing = turnMap.get(turnId);
@@ -133,12 +38,12 @@ export const parseJsonl = (raw: string) => {
     return turn;
   };
 
-  const addItem = (item: ParsedItem) => {
-    if (currentTurn === 0) {
+  const addItem = (turnId: number, item: ParsedItem) => {
+    if (turnId === 0) {
       preambleItems.push(item);
       return;
     }
-    const turn = ensureTurn(currentTurn, item.timestamp);
+    const turn = ensureTurn(turnId, item.timestamp);
     turn.items.push(item);
   };
 
@@ -153,113 +58,38 @@ export const parseJsonl = (raw: string) => {
     if (!line.trim()) continue;
     seq += 1;
     try {
-      const entry = JSON.parse(line);
-      metrics.recordTimestamp(entry.timestamp);
-      if (entry.type === 'event_msg') {
-        const payload = entry.payload ?? {};
-        if (payload.type === 'user_message') {
-          closeCurrentTurn();
-          currentTurn += 1;
-          const turn = ensureTurn(currentTurn, entry.timestamp);
-          currentTurnRef = turn;
-          turnDuration.startTurn(entry.timestamp);
-          const content = formatJsonValue(payload.message ?? '');
-          metrics.recordUserMessage(entry.timestamp, content);
-          turn.items.push({
-            id: `item-${seq}`,
-            type: 'user',
-            content,
-            seq,
-            timestamp: entry.timestamp,
-            raw: entry,
-          });
-        } else if (payload.type === 'agent_message') {
-          metrics.recordAssistantMessage(entry.timestamp);
-          turnDuration.recordAssistantActivity(entry.timestamp);
-          addItem({
-            id: `item-${seq}`,
-            type: 'assistant',
-            content: formatJsonValue(payload.message ?? ''),
-            seq,
-            timestamp: entry.timestamp,
-            raw: entry,
-          });
-        } else if (payload.type === 'agent_reasoning' && payload.text) {
-          metrics.recordThought(entry.timestamp);
-          turnDuration.recordAssistantActivity(entry.timestamp);
-          addItem({
-            id: `item-${seq}`,
-            type: 'thought',
-            content: formatJsonValue(payload.text),
-            seq,
-            timestamp: entry.timestamp,
-            raw: entry,
-          });
-        } else if (payload.type === 'token_count') {
-          metrics.recordTokenCount(entry.timestamp);
-          addItem({
-            id: `item-${seq}`,
-            type: 'token_count',
-            content: formatJsonValue(payload),
-            seq,
-            timestamp: entry.timestamp,
-            raw: entry,
-          });
+      const event = parser.parseLine(line);
+      if (!event) continue;
+      if (event.type === 'turn_aborted') {
+        // Shown as a badge on the turn rather than as an item.
+        const turn = turnMap.get(event.turnId);
+        if (turn) {
+          turn.aborted = true;
+          turn.abortReason = event.reason;
         }
         continue;
       }
-
-      if (entry.type === 'turn_context' || entry.type === 'session_meta') {
-        const details = extractSessionDetails(entry);
-        const rank = entry.type === 'session_meta' ? 3 : 2;
-        updateSessionInfo(details, rank);
-        metrics.recordMeta(entry.timestamp);
-        addItem({
-          id: `item-${seq}`,
-          type: 'meta',
-          content: formatJsonValue(entry.payload ?? entry),
-          seq,
-          timestamp: entry.timestamp,
-          raw: entry,
-        });
-        continue;
-      }
-
-      const isResponseItem = entry.type === 'response_item';
-      const item = isResponseItem ? (entry.item ?? entry.response_item ?? entry.payload ?? {}) : entry;
-      const itemType = isResponseItem ? item.type : entry.type;
-
-      if (['function_call', 'custom_tool_call', 'web_search_call'].includes(itemType)) {
-        const formatted = formatToolCall(item);
-        metrics.recordToolCall(entry.timestamp);
-        turnDuration.recordAssistantActivity(entry.timestamp);
-        addItem({
-          id: `item-${seq}`,
-          type: 'tool_call',
-          content: formatted.content,
-          seq,
-          timestamp: entry.timestamp,
-          callId: formatted.callId,
-          toolName: formatted.name,
-          raw: item,
-        });
-        continue;
-      }
-
-      if (['function_call_output', 'custom_tool_call_output', 'web_search_call_output'].includes(itemType)) {
-        const formatted = formatToolOutput(item);
-        metrics.recordToolOutput(entry.timestamp);
-        turnDuration.recordAssistantActivity(entry.timestamp);
-        addItem({
-          id: `item-${seq}`,
-          type: 'tool_output',
-          content: formatted.content,
-          seq,
-          timestamp: entry.timestamp,
-          callId: formatted.callId,
-          raw: item,
-        });
+      if (event.type === 'user_message') {
+        closeCurrentTurn();
+        currentTurnRef = ensureTurn(event.turnId, event.timestamp);
+        turnDuration.startTurn(event.timestamp);
+      } else if (event.type !== 'meta' && event.type !== 'token_count' && event.type !== 'unknown') {
+        turnDuration.recordAssistantActivity(event.timestamp);
       }
+      addItem(event.turnId, {
+        id: `item-${seq}`,
+        type: ITEM_TYPES[event.type],
+        content:
+          'content' in event ? event.content : formatJsonValue(event.type === 'unknown' ? event.raw : event.payload),
+        seq,
+        timestamp: event.timestamp,
+        ...(event.type === 'tool_call'
+          ? { callId: event.callId, toolName: event.name, fileChanges: extractFileChanges(event.name, event.arguments) }
+          : {}),
+        ...(event.type === 'tool_output' ? { callId: event.callId } : {}),
+        ...(event.type === 'unknown' ? { eventType: event.eventType } : {}),
+        raw: event.raw,
+      });
     } catch (error: any) {
       errors.push(`Line ${i + 1}: ${error?.message || 'Parse error'}`);
     }
@@ -273,5 +103,11 @@ export const parseJsonl = (raw: string) => {
   }
   output.push(...turns);
 
-  return { turns: output, errors, sessionInfo, metrics: metrics.finalize() };
+  const sessionMeta = parser.getSessionMeta();
+  const sessionInfo: SessionDetails = {
+    sessionId: sessionMeta.session_id,
+    cwd: sessionMeta.cwd,
+    settings: parser.getSettings(),
+  };
+  return { turns: output, errors, sessionInfo, metrics: parser.finalize() };
 };
@@ -0,0 +1,22 @@
+import { splitSessionPath } from '../../../shared/sessionPaths';
+import type { SessionRoot } from './types';
+
+export const findSessionRoot = (roots: SessionRoot[], sessionId?: string | null) => {
+  if (!sessionId) return null;
+  const { rootId } = splitSessionPath(sessionId);
+  return roots.find((root) => root.id === rootId) ?? null;
+};
+
+// Path of the session file relative to its root, for joining onto the root path in headers.
+export const getSessionRelativePath = (roots: SessionRoot[], sessionId: string) =>
+  findSessionRoot(roots, sessionId) ? splitSessionPath(sessionId).relPath : sessionId;
+
+export const formatRootsSummary = (roots: SessionRoot[]) => {
+  const enabled = roots.filter((root) => root.enabled);
+  if (enabled.length === 1) return enabled[0].path;
+  return enabled.map((root) => root.label).join(', ');
+};
+
+// Root labels are only worth showing once sessions can come from more than one root.
+export const hasMultipleRoots = (roots?: SessionRoot[] | null) =>
+  (roots ?? []).filter((root) => root.enabled).length > 1;
@@ -1,176 +1,15 @@
+import { parseTokenCountEntry, type TokenCountSummary } from '../../../shared/tokenUsage';
 import { formatJsonValue } from './format';
 import type { ParsedItem, Turn } from './types';
 
-const asRecord = (value: unknown): Record<string, unknown> =>
-  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
-
-const toNumber = (value: unknown): number | null => {
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
-  if (typeof value === 'string' && value.trim()) {
-    const parsed = Number(value);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
-const clampPercent = (value?: number | null) => {
-  if (value === null || value === undefined || !Number.isFinite(value)) return null;
-  if (value < 0) return 0;
-  if (value > 100) return 100;
-  return value;
-};
+export type { RateLimitSummary, TokenCountSummary, TokenUsageSummary } from '../../../shared/tokenUsage';
+export { parseTokenCountEntry };
 
 const formatPercent = (value?: number | null) => {
   if (value === null || value === undefined || !Number.isFinite(value)) return null;
   return Math.round(value * 10) / 10;
 };
 
-export interface TokenUsageSummary {
-  inputTokens?: number | null;
-  cachedTokens?: number | null;
-  outputTokens?: number | null;
-  reasoningTokens?: number | null;
-  totalTokens?: number | null;
-  cacheHitRate?: number | null;
-}
-
-export interface RateLimitSummary {
-  usedPercent?: number | null;
-  windowMinutes?: number | null;
-  resetsAt?: number | null;
-}
-
-export interface TokenCountSummary {
-  totalUsage?: TokenUsageSummary | null;
-  lastUsage?: TokenUsageSummary | null;
-  contextUsedTokens?: number | null;
-  contextWindowSize?: number | null;
-  contextUsagePercent?: number | null;
-  rateLimits: {
-    primary?: RateLimitSummary | null;
-    secondary?: RateLimitSummary | null;
-    credits?: {
-      hasCredits?: boolean | null;
-      unlimited?: boolean | null;
-      balance?: number | null;
-    } | null;
-    planType?: string | null;
-  };
-}
-
-const parseTokenUsage = (value: unknown): TokenUsageSummary | null => {
-  const obj = asRecord(value);
-  const inputTokens = toNumber(obj.input_tokens);
-  const cachedTokens = toNumber(obj.cached_input_tokens);
-  const outputTokens = toNumber(obj.output_tokens);
-  const reasoningTokens = toNumber(obj.reasoning_output_tokens);
-  let totalTokens = toNumber(obj.total_tokens);
-  if (totalTokens === null) {
-    const parts = [inputTokens, outputTokens, reasoningTokens].filter((item) => item !== null) as number[];
-    if (parts.length) {
-      totalTokens = parts.reduce((sum, item) => sum + item, 0);
-    }
-  }
-  let cacheHitRate: number | null = null;
-  if (inputTokens !== null) {
-    if (inputTokens === 0) {
-      cacheHitRate = 0;
-    } else if (cachedTokens !== null && inputTokens > 0) {
-      cacheHitRate = cachedTokens / inputTokens;
-    }
-  }
-  const hasAny =
-    inputTokens !== null ||
-    cachedTokens !== null ||
-    outputTokens !== null ||
-    reasoningTokens !== null ||
-    totalTokens !== null;
-  if (!hasAny) return null;
-  return {
-    inputTokens,
-    cachedTokens,
-    outputTokens,
-    reasoningTokens,
-    totalTokens,
-    cacheHitRate,
-  };
-};
-
-const parseRateLimit = (value: unknown): RateLimitSummary | null => {
-  const obj = asRecord(value);
-  const usedPercent = clampPercent(toNumber(obj.used_percent));
-  const windowMinutes = toNumber(obj.window_minutes);
-  const resetsAt = toNumber(obj.resets_at);
-  if (usedPercent === null && windowMinutes === null && resetsAt === null) return null;
-  return { usedPercent, windowMinutes, resetsAt };
-};
-
-export const parseTokenCountEntry = (raw: unknown): TokenCountSummary | null => {
-  const resolvedRaw = (() => {
-    if (typeof raw !== 'string') return raw;
-    try {
-      return JSON.parse(raw);
-    } catch (_error) {
-      return raw;
-    }
-  })();
-  const entry = asRecord(resolvedRaw);
-  const payload = asRecord(entry.payload ?? entry);
-  const info = asRecord(payload.info);
-  const totalUsage = parseTokenUsage(info.total_token_usage);
-  const lastUsage = parseTokenUsage(info.last_token_usage);
-  const contextWindowSize = toNumber(info.model_context_window);
-  const contextUsedTokens =
-    lastUsage?.totalTokens !== null && lastUsage?.totalTokens !== undefined
-      ? lastUsage.totalTokens
-      : (lastUsage?.inputTokens ?? null);
-  const contextUsagePercent =
-    contextWindowSize !== null && contextUsedTokens !== null
-      ? clampPercent((contextUsedTokens / contextWindowSize) * 100)
-      : null;
-  const rateLimits = asRecord(payload.rate_limits);
-  const primary = parseRateLimit(rateLimits.primary);
-  const secondary = parseRateLimit(rateLimits.secondary);
-  const credits = asRecord(rateLimits.credits);
-  const hasCredits = typeof credits.has_credits === 'boolean' ? credits.has_credits : null;
-  const unlimited = typeof credits.unlimited === 'boolean' ? credits.unlimited : null;
-  const balance = toNumber(credits.balance);
-  const planType = typeof rateLimits.plan_type === 'string' ? rateLimits.plan_type : null;
-
-  const hasAny =
-    totalUsage !== null ||
-    lastUsage !== null ||
-    contextWindowSize !== null ||
-    primary !== null ||
-    secondary !== null ||
-    hasCredits !== null ||
-    unlimited !== null ||
-    balance !== null ||
-    planType !== null;
-  if (!hasAny) return null;
-
-  return {
-    totalUsage,
-    lastUsage,
-    contextUsedTokens,
-    contextWindowSize,
-    contextUsagePercent,
-    rateLimits: {
-      primary,
-      secondary,
-      credits:
-        hasCredits !== null || unlimited !== null || balance !== null
-          ? {
-              hasCredits,
-              unlimited,
-              balance,
-            }
-          : null,
-      planType,
-    },
-  };
-};
-
 export const hasTokenCountUsage = (raw: unknown) => {
   const parsed = parseTokenCountEntry(raw);
   if (!parsed) return false;
@@ -1,12 +1,58 @@
-export type ParsedItemType = 'user' | 'assistant' | 'thought' | 'tool_call' | 'tool_output' | 'meta' | 'token_count';
+import type { FileOperation, SearchMatchMode, SessionLineageEntry, SessionRoot } from '../../../shared/apiTypes';
+import type { FileChange } from '../../../shared/fileChanges';
+import type { SessionSettings } from '../../../shared/sessionParser';
+
+export type ParsedItemType =
+  | 'user'
+  | 'assistant'
+  | 'thought'
+  | 'tool_call'
+  | 'tool_output'
+  | 'meta'
+  | 'token_count'
+  // An entry the session parser does not recognise, shown as collapsed JSON.
+  | 'raw';
 export type SearchStatus = 'idle' | 'debouncing' | 'loading' | 'success' | 'error';
+// How the search panel lists results: one card per session, or every matching message (paged).
+export type SearchResultMode = 'sessions' | 'messages';
 
 export type {
+  ArchiveConfig,
+  ArchivePurgeResponse,
+  CommandEntry,
+  CommandsResponse,
+  EventTypeSummary,
+  EventTypesResponse,
+  FileDiagnostics,
+  FileOperation,
+  FilesResponse,
+  FileTouchSession,
+  FileTouchTurn,
+  IndexDiagnosticsResponse,
+  IndexJob,
+  IndexJobResponse,
+  IndexStatusResponse,
+  IndexSummary,
+  IndexUpdatedEvent,
+  MessageSearchResponse,
+  MessageSearchResult,
+  ScanFilters,
   SearchGroupSort,
+  SearchMatchMode,
+  SearchQualifier,
+  SearchQualifierKey,
   SearchResponse,
   SearchResultSort,
+  SearchSyntaxError,
+  SessionLineageEntry,
+  SessionLineageResponse,
+  SessionLinkKind,
   SessionMatchesResponse,
+  SessionRoot,
+  SessionRootsConfig,
   SessionSearchResult,
+  ToolSummary,
+  ToolsResponse,
   WorkspaceSearchGroup,
   WorkspaceSummary,
 } from '../../../shared/apiTypes';
@@ -19,6 +65,10 @@ export interface ParsedItem {
   timestamp?: string;
   callId?: string;
   toolName?: string;
+  // getEventTypeKey of a `raw` item (e.g. `event_msg:task_started`).
+  eventType?: string;
+  // Files a patch/edit tool call touches (empty for other tool calls).
+  fileChanges?: FileChange[];
   raw?: unknown;
 }
 
@@ -28,11 +78,32 @@ export interface Turn {
   items: ParsedItem[];
   activeDurationMs?: number | null;
   isPreamble?: boolean;
+  // Set when the turn ended with a turn_aborted event (e.g. the user interrupted it).
+  aborted?: boolean;
+  abortReason?: string;
+}
+
+// One row of the session's "Files changed" list: every change to a path, folded together.
+export interface SessionFileSummary {
+  path: string;
+  movedFrom?: string;
+  operation: FileOperation;
+  linesAdded: number;
+  linesRemoved: number;
+  turnIds: number[];
+}
+
+// An ancestor session's turns, shown above the open session's own turns in full-thread mode.
+export interface ThreadSegment {
+  entry: SessionLineageEntry;
+  turns: Turn[];
 }
 
 export interface SessionFileEntry {
   id: string;
   filename: string;
+  root?: string | null;
+  rootLabel?: string | null;
   preview?: string | null;
   timestamp?: string | null;
   cwd?: string | null;
@@ -45,14 +116,27 @@ export interface SessionFileEntry {
   toolCallCount?: number | null;
   metaCount?: number | null;
   tokenCount?: number | null;
+  abortedTurnCount?: number | null;
   startedAt?: string | null;
   endedAt?: string | null;
   activeDurationMs?: number | null;
+  inputTokens?: number | null;
+  cachedInputTokens?: number | null;
+  outputTokens?: number | null;
+  reasoningOutputTokens?: number | null;
+  totalTokens?: number | null;
+  peakContextPercent?: number | null;
+  contextWindow?: number | null;
+  // Set when the file was deleted and the session is kept as an archive.
+  archivedAt?: string | null;
   sessionId: string;
 }
 
+// A root as edited in Settings; roots added in the UI have no id until the server assigns one.
+export type SessionRootDraft = Omit<SessionRoot, 'id'> & { id?: string };
+
 export interface SessionTree {
-  root: string;
+  roots: SessionRoot[];
   years: Array<{
     year: string;
     months: Array<{
@@ -68,6 +152,7 @@ export interface SessionTree {
 export interface SessionDetails {
   sessionId?: string;
   cwd?: string;
+  settings?: SessionSettings;
 }
 
 export interface SearchResult {
@@ -90,16 +175,10 @@ export type HistoryMode = 'replace' | 'push';
 export interface LoadSessionOptions {
   historyMode?: HistoryMode;
   searchQuery?: string | null;
+  searchMatch?: SearchMatchMode;
 }
 
 export interface JumpToTurnOptions {
   historyMode?: HistoryMode;
   scroll?: boolean;
 }
-
-export interface IndexSummary {
-  scanned: number;
-  updated: number;
-  removed: number;
-  messageCount: number;
-}
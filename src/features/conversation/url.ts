@@ -1,16 +1,4 @@
-import type { HistoryMode } from './types';
-
-export const SESSION_ID_REGEX = /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/;
-export const SESSION_ID_PREFIX_REGEX = /\b(?:sess(?:ion)?[_-])[a-zA-Z0-9_-]{6,}\b/;
-
-export const normalizeSessionId = (value: string) => {
-  const trimmed = value.trim();
-  const uuidMatch = trimmed.match(SESSION_ID_REGEX);
-  if (uuidMatch) return uuidMatch[0];
-  const prefixMatch = trimmed.match(SESSION_ID_PREFIX_REGEX);
-  if (prefixMatch) return prefixMatch[0];
-  return trimmed;
-};
+import type { HistoryMode, SearchMatchMode } from './types';
 
 const safeDecode = (value: string) => {
   try {
@@ -23,12 +11,18 @@ const safeDecode = (value: string) => {
 export const getSessionParamsFromLocation = () => {
   const search = window.location.search;
   if (!search || search.length <= 1) {
-    return { sessionId: null as string | null, turnId: null as number | null, searchQuery: null as string | null };
+    return {
+      sessionId: null as string | null,
+      turnId: null as number | null,
+      searchQuery: null as string | null,
+      searchMatch: 'word' as SearchMatchMode,
+    };
   }
   const pairs = search.slice(1).split('&');
   let sessionId: string | null = null;
   let turnId: number | null = null;
   let searchQuery: string | null = null;
+  let searchMatch: SearchMatchMode = 'word';
   for (const pair of pairs) {
     if (!pair) continue;
     const eqIndex = pair.indexOf('=');
@@ -44,12 +38,20 @@ export const getSessionParamsFromLocation = () => {
       }
     } else if (rawKey === 'q') {
       searchQuery = safeDecode(rawValue);
+    } else if (rawKey === 'match') {
+      const decoded = safeDecode(rawValue);
+      searchMatch = decoded === 'literal' || decoded === 'regex' ? decoded : 'word';
     }
   }
-  return { sessionId, turnId, searchQuery };
+  return { sessionId, turnId, searchQuery, searchMatch };
 };
 
-export const buildSessionUrl = (sessionId: string, turnId?: number | null, searchQuery?: string | null) => {
+export const buildSessionUrl = (
+  sessionId: string,
+  turnId?: number | null,
+  searchQuery?: string | null,
+  searchMatch: SearchMatchMode = 'word',
+) => {
   const encodedSession = encodeURIComponent(sessionId);
   const queryParts = [`session=${encodedSession}`];
   if (typeof turnId === 'number' && Number.isFinite(turnId)) {
@@ -57,6 +59,9 @@ export const buildSessionUrl = (sessionId: string, turnId?: number | null, searc
   }
   if (searchQuery) {
     queryParts.push(`q=${encodeURIComponent(searchQuery)}`);
+    if (searchMatch !== 'word') {
+      queryParts.push(`match=${searchMatch}`);
+    }
   }
   const query = queryParts.length ? `?${queryParts.join('&')}` : '';
   const hash = window.location.hash || '';
@@ -68,8 +73,9 @@ export const updateSessionUrl = (
   turnId?: number | null,
   mode: HistoryMode = 'push',
   searchQuery?: string | null,
+  searchMatch: SearchMatchMode = 'word',
 ) => {
-  const nextUrl = buildSessionUrl(sessionId, turnId, searchQuery);
+  const nextUrl = buildSessionUrl(sessionId, turnId, searchQuery, searchMatch);
   const currentUrl = `${window.location.pathname}${window.location.search}${window.location.hash || ''}`;
   if (nextUrl === currentUrl && mode === 'push') {
     window.history.replaceState(null, '', nextUrl);